@@ -1,11 +1,22 @@
 import express from 'express';
 import fs from 'fs/promises';
+import nodeFs from 'fs';
 import path from 'path';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import { fileURLToPath } from 'url';
+import git from 'isomorphic-git';
+import { Unzip, UnzipInflate } from 'fflate';
+import Ajv from 'ajv';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const gunzip = promisify(zlib.gunzip);
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -15,38 +26,163 @@ app.use(express.urlencoded({ limit: '50mb', extended: true }));
 
 app.use(express.static('dist'));
 
-// API endpoint to list storage files
-app.get('/api/storage-files', async (req, res) => {
+// --- Safe file writes ---
+// Writes go to a temp file in the same directory and are renamed into place, so a crash
+// mid-write leaves the previous file (or none) rather than a truncated one.
+
+const sha256 = (buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+const checksumPath = (filePath) => `${filePath}.sha256`;
+// Present only while a snapshot file and its sidecar are being renamed into place
+const pendingChecksumPath = (filePath) => `${checksumPath(filePath)}.tmp`;
+
+const tempPathFor = (filePath) => `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+const writeFileAtomic = async (filePath, data) => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = tempPathFor(filePath);
   try {
-    const storageDir = path.join(__dirname, 'storage');
-    
-    // Check if storage directory exists
-    try {
-      await fs.access(storageDir);
-    } catch {
-      return res.json({ files: [] });
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+};
+
+const checksumLine = (filePath, checksum) => `${checksum}  ${path.basename(filePath)}\n`;
+
+// Renames a snapshot file and its sidecar from their temp names into place, sidecar first. The
+// pending marker brackets the two renames, so a file that doesn't match its sidecar while the
+// marker exists is being written, or its write was interrupted; see readExpectedChecksum.
+const commitSnapshotFile = async (tempPath, tempChecksumPath, filePath) => {
+  await fs.writeFile(pendingChecksumPath(filePath), '');
+  try {
+    await fs.rename(tempChecksumPath, checksumPath(filePath));
+  } catch (error) {
+    await fs.unlink(pendingChecksumPath(filePath)).catch(() => {});
+    throw error;
+  }
+  await fs.rename(tempPath, filePath);
+  await fs.unlink(pendingChecksumPath(filePath));
+};
+
+// Snapshot files get a sha256sum-compatible sidecar (<file>.sha256). Both are written under
+// temp names and renamed into place together, so a crash leaves no file without its sidecar.
+const writeSnapshotFile = async (filePath, data) => {
+  const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8');
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempChecksumPath = tempPathFor(checksumPath(filePath));
+  const tempPath = tempPathFor(filePath);
+  try {
+    await fs.writeFile(tempChecksumPath, checksumLine(filePath, sha256(buffer)));
+    await fs.writeFile(tempPath, buffer);
+    await commitSnapshotFile(tempPath, tempChecksumPath, filePath);
+  } catch (error) {
+    await Promise.all([tempPath, tempChecksumPath].map(file => fs.unlink(file).catch(() => {})));
+    throw error;
+  }
+};
+
+class InvalidUploadError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'InvalidUploadError';
+    this.status = status;
+  }
+}
+
+// Streaming counterpart of writeSnapshotFile for uploads too large to buffer. The checksum is
+// computed on the way through; `isValidStart` sees the first chunk, e.g. to check a file signature.
+const writeSnapshotStream = async (filePath, source, { maxBytes, isValidStart }) => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = tempPathFor(filePath);
+  const tempChecksumPath = tempPathFor(checksumPath(filePath));
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  const check = new Transform({
+    transform(chunk, encoding, callback) {
+      if (size === 0 && isValidStart && !isValidStart(chunk)) {
+        return callback(new InvalidUploadError('Unexpected file contents'));
+      }
+      size += chunk.length;
+      if (size > maxBytes) {
+        return callback(new InvalidUploadError(`File is larger than ${Math.round(maxBytes / 1024 / 1024)}MB`, 413));
+      }
+      hash.update(chunk);
+      callback(null, chunk);
     }
-    
-    const files = await fs.readdir(storageDir);
-    const jsonFiles = files
-      .filter(file => file.endsWith('.json'))
-      .map(async (file) => {
-        const filePath = path.join(storageDir, file);
-        const stats = await fs.stat(filePath);
-        return {
-          name: file,
-          size: stats.size,
-          modified: stats.mtime
-        };
-      });
-    
-    const fileDetails = await Promise.all(jsonFiles);
-    res.json({ files: fileDetails });
+  });
+
+  try {
+    await pipeline(source, check, nodeFs.createWriteStream(tempPath));
+    if (size === 0) throw new InvalidUploadError('Body is empty');
+    await fs.writeFile(tempChecksumPath, checksumLine(filePath, hash.digest('hex')));
+    await commitSnapshotFile(tempPath, tempChecksumPath, filePath);
   } catch (error) {
-    console.error('Error listing storage files:', error);
-    res.status(500).json({ error: 'Failed to list storage files' });
+    await Promise.all([tempPath, tempChecksumPath].map(file => fs.unlink(file).catch(() => {})));
+    throw error;
   }
-});
+  return size;
+};
+
+class SnapshotIntegrityError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SnapshotIntegrityError';
+  }
+}
+
+// With the pending marker present the sidecar may describe content that isn't in place yet: the
+// file is being written right now, or a write was interrupted between the two renames. Such a
+// file can't be checked, which makes it unverified rather than damaged.
+const readExpectedChecksum = async (filePath) => {
+  try {
+    const [content, pending] = await Promise.all([
+      fs.readFile(checksumPath(filePath), 'utf8'),
+      fs.access(pendingChecksumPath(filePath)).then(() => true, () => false)
+    ]);
+    return { checksum: content.trim().split(/\s+/)[0], pending };
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+const checkChecksum = (filePath, actual, expected) => {
+  if (!expected) return false;
+  if (actual === expected.checksum) return true;
+  if (expected.pending) return false;
+  throw new SnapshotIntegrityError(`${path.basename(filePath)} does not match its checksum; it is damaged or incomplete`);
+};
+
+// Reads a file and checks it against its sidecar. Files written before checksums existed
+// have no sidecar and come back unverified rather than failing, as do files whose write is
+// still under way.
+const readVerifiedFile = async (filePath) => {
+  const buffer = await fs.readFile(filePath);
+  const expected = await readExpectedChecksum(filePath);
+  return { buffer, verified: checkChecksum(filePath, sha256(buffer), expected) };
+};
+
+// Like readVerifiedFile without holding the file in memory. `onChunk` sees the file as it is read.
+const verifyFileStream = async (filePath, onChunk) => {
+  const expected = await readExpectedChecksum(filePath);
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of nodeFs.createReadStream(filePath)) {
+    hash.update(chunk);
+    onChunk?.(chunk);
+  }
+  return { verified: checkChecksum(filePath, hash.digest('hex'), expected) };
+};
+
+const parseJsonFile = (buffer, filename) => {
+  try {
+    return JSON.parse(buffer.toString('utf8'));
+  } catch {
+    throw new SnapshotIntegrityError(`${filename} is not valid JSON; it is damaged or incomplete`);
+  }
+};
 
 // API endpoint to load progress from storage
 app.get('/api/load-progress/:filename', async (req, res) => {
@@ -71,11 +207,14 @@ app.get('/api/load-progress/:filename', async (req, res) => {
       throw error;
     }
     
-    const content = await fs.readFile(filePath, 'utf8');
-    const data = JSON.parse(content);
+    const { buffer, verified } = await readVerifiedFile(filePath);
+    const data = parseJsonFile(buffer, filename);
     
-    res.json({ success: true, data });
+    res.json({ success: true, data, integrity: verified ? 'verified' : 'unverified' });
   } catch (error) {
+    if (error instanceof SnapshotIntegrityError) {
+      return res.status(422).json({ error: error.message, code: 'CORRUPTED' });
+    }
     console.error('Error loading progress file:', error);
     res.status(500).json({ error: 'Failed to load progress file' });
   }
@@ -96,6 +235,10 @@ app.post('/api/save-progress', async (req, res) => {
     if (fileName.includes('..') || fileName.includes('/') || fileName.includes('\\')) {
       return res.status(400).json({ error: 'Invalid filename' });
     }
+
+    if (fileName === 'settings.json') {
+      return res.status(400).json({ error: 'Settings are saved with PUT /api/settings' });
+    }
     
     const storageDir = path.join(__dirname, 'storage');
     const filePath = path.join(storageDir, fileName);
@@ -117,7 +260,11 @@ app.post('/api/save-progress', async (req, res) => {
     
     // Write the file
     try {
-      await fs.writeFile(filePath, content, 'utf8');
+      if (SNAPSHOT_FILE_PATTERN.test(fileName)) {
+        await writeSnapshotFile(filePath, content);
+      } else {
+        await writeFileAtomic(filePath, content);
+      }
       console.log('File written successfully');
     } catch (writeError) {
       console.error('Failed to write file:', writeError);
@@ -128,10 +275,22 @@ app.post('/api/save-progress', async (req, res) => {
     }
     
     console.log('File saved successfully');
+
+    // Chunk files belong to a snapshot whose metadata file already triggered pruning
+    let prunedFiles = [];
+    if (SNAPSHOT_FILE_PATTERN.test(fileName) && !fileName.includes('-unit-')) {
+      try {
+        prunedFiles = await enforceRetentionPolicy();
+      } catch (pruneError) {
+        console.error('Failed to apply retention policy:', pruneError);
+      }
+    }
+
     res.json({ 
       success: true, 
       message: `Progress saved to storage/${fileName}`,
-      fileName 
+      fileName,
+      prunedFiles
     });
   } catch (error) {
     console.error('Error saving progress:', error);
@@ -142,6 +301,1524 @@ app.post('/api/save-progress', async (req, res) => {
   }
 });
 
+// --- Change events ---
+// Open copies of the app subscribe to GET /api/events (Server-Sent Events) and refresh when
+// another copy writes units or progress. Writes carry the writer's X-Client-Id, which is
+// echoed in the event so the writer can ignore it.
+
+const eventClients = new Set();
+// Comment lines keep idle connections from being closed by proxies
+const EVENT_HEARTBEAT_MS = 25 * 1000;
+
+app.get('/api/events', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  eventClients.add(res);
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), EVENT_HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    eventClients.delete(res);
+  });
+});
+
+const broadcastChange = (req, event) => {
+  const data = JSON.stringify({ ...event, source: req.get('X-Client-Id') || null });
+  eventClients.forEach(client => client.write(`data: ${data}\n\n`));
+};
+
+// --- Unit validation ---
+// Checks unit files against public/unit.schema.json (published as /unit.schema.json) and the
+// cross-reference rules the schema can't express. Mirrors src/utils/unitSchema.ts, which the
+// upload screen uses; keep the two in step.
+
+const unitSchema = JSON.parse(nodeFs.readFileSync(path.join(__dirname, 'public', 'unit.schema.json'), 'utf8'));
+const validateUnitSchema = new Ajv({ allErrors: true, verbose: true }).compile(unitSchema);
+
+const TYPE_NAMES = { string: 'a string', number: 'a number', integer: 'a whole number', array: 'an array', object: 'an object', boolean: 'true or false' };
+
+// JSON Pointer (/learning_outcomes/1/id) to learning_outcomes[1].id
+const toFieldPath = (pointer) =>
+  pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((fieldPath, segment) => (/^\d+$/.test(segment) ? `${fieldPath}[${segment}]` : fieldPath ? `${fieldPath}.${segment}` : segment), '');
+
+const describeSchemaError = (error) => {
+  const fieldPath = toFieldPath(error.instancePath);
+  switch (error.keyword) {
+    case 'required':
+      return { path: fieldPath ? `${fieldPath}.${error.params.missingProperty}` : error.params.missingProperty, message: 'is required' };
+    case 'type':
+      return { path: fieldPath, message: `must be ${TYPE_NAMES[error.params.type] || error.params.type}` };
+    case 'enum':
+      return { path: fieldPath, message: `must be one of: ${error.params.allowedValues.join(', ')}` };
+    case 'minLength':
+      return { path: fieldPath, message: error.params.limit === 1 ? 'must not be empty' : `must be at least ${error.params.limit} characters` };
+    case 'minItems':
+      return { path: fieldPath, message: `must have at least ${error.params.limit} item${error.params.limit === 1 ? '' : 's'}` };
+    case 'anyOf':
+      return { path: fieldPath, message: `must have ${error.schema.map(branch => (branch.required || []).join(' and ')).join(' or ')}` };
+    default:
+      return { path: fieldPath, message: error.message || 'is invalid' };
+  }
+};
+
+const checkUnitSchema = (unit) => {
+  if (validateUnitSchema(unit)) return [];
+  const errors = validateUnitSchema.errors || [];
+  const anyOfPaths = errors.filter(error => error.keyword === 'anyOf').map(error => `${error.schemaPath}/`);
+  return errors
+    .filter(error => !anyOfPaths.some(prefix => error.schemaPath.startsWith(prefix)))
+    .map(describeSchemaError);
+};
+
+const asObjectArray = (value) => (Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : []);
+const asId = (value) => (typeof value === 'string' && value ? value : null);
+
+// Unique ids per learning outcome, unit task, outcome task within its learning outcome and
+// acceptance criterion within its task; unit_tasks may only refer to existing ids, and only to
+// outcome tasks of the learning outcomes they list
+const checkUnitReferences = (unit) => {
+  if (!isPlainObject(unit)) return [];
+  const errors = [];
+
+  const seen = new Map();
+  const checkUnique = (scope, id, fieldPath) => {
+    if (id === null) return;
+    const key = `${scope}\0${id}`;
+    if (seen.has(key)) {
+      errors.push({ path: fieldPath, message: `"${id}" is already used by ${seen.get(key)}` });
+    } else {
+      seen.set(key, fieldPath);
+    }
+  };
+
+  const outcomeIds = new Set();
+  const taskOutcomes = new Map();
+  asObjectArray(unit.learning_outcomes).forEach((outcome, outcomeIndex) => {
+    const outcomePath = `learning_outcomes[${outcomeIndex}]`;
+    const outcomeId = asId(outcome.id);
+    checkUnique('outcome', outcomeId, `${outcomePath}.id`);
+    if (outcomeId) outcomeIds.add(outcomeId);
+
+    asObjectArray(outcome.outcome_tasks).forEach((task, taskIndex) => {
+      const taskPath = `${outcomePath}.outcome_tasks[${taskIndex}]`;
+      const taskId = asId(task.id);
+      checkUnique(`task:${outcomePath}`, taskId, `${taskPath}.id`);
+      if (taskId && outcomeId) taskOutcomes.set(taskId, [...(taskOutcomes.get(taskId) || []), outcomeId]);
+
+      asObjectArray(task.acceptance_criteria).forEach((criterion, criterionIndex) => {
+        checkUnique(`criteria:${taskPath}`, asId(criterion.id), `${taskPath}.acceptance_criteria[${criterionIndex}].id`);
+      });
+    });
+  });
+
+  asObjectArray(unit.unit_tasks).forEach((unitTask, unitTaskIndex) => {
+    const unitTaskPath = `unit_tasks[${unitTaskIndex}]`;
+    checkUnique('unitTask', asId(unitTask.id), `${unitTaskPath}.id`);
+
+    const listedOutcomes = Array.isArray(unitTask.learning_outcomes) ? unitTask.learning_outcomes : [];
+    listedOutcomes.forEach((outcomeId, index) => {
+      if (typeof outcomeId === 'string' && !outcomeIds.has(outcomeId)) {
+        errors.push({ path: `${unitTaskPath}.learning_outcomes[${index}]`, message: `"${outcomeId}" is not the id of any learning outcome` });
+      }
+    });
+
+    const listedTasks = Array.isArray(unitTask.outcome_tasks) ? unitTask.outcome_tasks : [];
+    listedTasks.forEach((taskId, index) => {
+      if (typeof taskId !== 'string') return;
+      const fieldPath = `${unitTaskPath}.outcome_tasks[${index}]`;
+      const owners = taskOutcomes.get(taskId);
+      if (!owners) {
+        errors.push({ path: fieldPath, message: `"${taskId}" is not the id of any outcome task` });
+      } else if (!owners.some(outcomeId => listedOutcomes.includes(outcomeId))) {
+        errors.push({ path: fieldPath, message: `"${taskId}" belongs to ${owners.join(' and ')}, which ${unitTaskPath}.learning_outcomes doesn't list` });
+      }
+    });
+  });
+
+  return errors;
+};
+
+// Always answers 200 for a unit that could be checked; `valid` says whether it passed
+app.post('/api/units/validate', (req, res) => {
+  const errors = [...checkUnitSchema(req.body), ...checkUnitReferences(req.body)];
+  res.json({ success: true, data: { valid: errors.length === 0, errors } });
+});
+
+// --- Unit and progress resources ---
+// Each unit lives in storage/units/<id>.json as { unit, summary } and its progress in
+// storage/progress/<unitId>.json, so the browser's localStorage is only a cache. A deleted unit
+// moves to storage/trash/<id>.json as { unit, summary, progress, deletedAt }, the same shape as
+// the client's trash, and stays there until it is purged.
+
+const unitsDir = path.join(__dirname, 'storage', 'units');
+const progressDir = path.join(__dirname, 'storage', 'progress');
+const trashDir = path.join(__dirname, 'storage', 'trash');
+
+const isValidResourceId = (id) => id.length > 0 && !/[/\\\0]/.test(id) && !id.includes('..');
+
+const readJsonFile = async (filePath) => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+const writeJsonFile = async (filePath, data) => {
+  await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+};
+
+// Requests that read a file, change it and write it back are chained per file, so two of them
+// can't both read the old content and the second write drop the first one's change. This holds
+// with or without storage history.
+const fileLocks = new Map();
+const withFileLock = (key, operation) => {
+  const result = (fileLocks.get(key) || Promise.resolve()).then(operation);
+  const tail = result.catch(() => {});
+  fileLocks.set(key, tail);
+  tail.then(() => {
+    if (fileLocks.get(key) === tail) fileLocks.delete(key);
+  });
+  return result;
+};
+
+const removeFile = async (filePath) => {
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+};
+
+// Rejects ids that could escape the storage directory
+app.param(['id', 'unitId', 'taskId'], (req, res, next, value) => {
+  if (!isValidResourceId(value)) {
+    return res.status(400).json({ error: 'Invalid id' });
+  }
+  next();
+});
+
+app.get('/api/units', async (req, res) => {
+  try {
+    let files = [];
+    try {
+      files = await fs.readdir(unitsDir);
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    const entries = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => readJsonFile(path.join(unitsDir, file)))
+    );
+    res.json({ success: true, data: entries.filter(Boolean) });
+  } catch (error) {
+    console.error('Error listing units:', error);
+    res.status(500).json({ error: 'Failed to list units' });
+  }
+});
+
+app.get('/api/units/:id', async (req, res) => {
+  try {
+    const entry = await readJsonFile(path.join(unitsDir, `${req.params.id}.json`));
+    if (!entry) {
+      return res.status(404).json({ error: 'Unit not found' });
+    }
+    res.json({ success: true, data: entry });
+  } catch (error) {
+    console.error('Error loading unit:', error);
+    res.status(500).json({ error: 'Failed to load unit' });
+  }
+});
+
+app.put('/api/units/:id', async (req, res) => {
+  try {
+    const { unit, summary } = req.body;
+    if (!unit || !summary) {
+      return res.status(400).json({ error: 'unit and summary are required' });
+    }
+    if (unit.id !== req.params.id || summary.id !== req.params.id) {
+      return res.status(400).json({ error: 'Unit id does not match the URL' });
+    }
+    const filePath = path.join(unitsDir, `${req.params.id}.json`);
+    await withFileLock(`units/${req.params.id}`, async () => {
+      const existing = await readJsonFile(filePath);
+      await saveWithHistory(
+        [`units/${req.params.id}.json`],
+        `${req.params.id}: unit ${existing ? 'updated' : 'added'}`,
+        () => writeJsonFile(filePath, { unit, summary })
+      );
+    });
+    broadcastChange(req, { type: 'units-changed' });
+    res.json({ success: true, data: { unit, summary } });
+  } catch (error) {
+    console.error('Error saving unit:', error);
+    res.status(500).json({ error: 'Failed to save unit', details: error.message });
+  }
+});
+
+// Deleting a unit moves it and its progress to the trash, mirroring removeUnit in the client.
+// The trash entry shares the unit's lock.
+app.delete('/api/units/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const removed = await withFileLock(`units/${id}`, () => withFileLock(`progress/${id}`, () => saveWithHistory(
+      [`units/${id}.json`, `progress/${id}.json`, `trash/${id}.json`],
+      `${id}: unit moved to the trash`,
+      async () => {
+        const entry = await readJsonFile(path.join(unitsDir, `${id}.json`));
+        if (!entry) return false;
+        const progress = await readJsonFile(path.join(progressDir, `${id}.json`));
+        await fs.mkdir(trashDir, { recursive: true });
+        await writeJsonFile(path.join(trashDir, `${id}.json`), { ...entry, progress, deletedAt: new Date().toISOString() });
+        await removeFile(path.join(unitsDir, `${id}.json`));
+        await removeFile(path.join(progressDir, `${id}.json`));
+        return true;
+      }
+    )));
+    if (!removed) {
+      return res.status(404).json({ error: 'Unit not found' });
+    }
+    broadcastChange(req, { type: 'units-changed' });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting unit:', error);
+    res.status(500).json({ error: 'Failed to delete unit', details: error.message });
+  }
+});
+
+app.get('/api/trash', async (req, res) => {
+  try {
+    let files = [];
+    try {
+      files = await fs.readdir(trashDir);
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    const entries = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => readJsonFile(path.join(trashDir, file)))
+    );
+    res.json({ success: true, data: entries.filter(Boolean) });
+  } catch (error) {
+    console.error('Error listing trash:', error);
+    res.status(500).json({ error: 'Failed to list trash' });
+  }
+});
+
+// Deletes a trashed unit for good, when it is purged or restored in the client
+app.delete('/api/trash/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const removed = await withFileLock(`units/${id}`, () => saveWithHistory(
+      [`trash/${id}.json`],
+      `${id}: unit deleted from the trash`,
+      () => removeFile(path.join(trashDir, `${id}.json`))
+    ));
+    if (!removed) {
+      return res.status(404).json({ error: 'Unit not in the trash' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error purging unit from the trash:', error);
+    res.status(500).json({ error: 'Failed to purge unit', details: error.message });
+  }
+});
+
+app.get('/api/progress/:unitId', async (req, res) => {
+  try {
+    const progress = await readJsonFile(path.join(progressDir, `${req.params.unitId}.json`));
+    if (!progress) {
+      return res.status(404).json({ error: 'Progress not found' });
+    }
+    res.json({ success: true, data: progress });
+  } catch (error) {
+    console.error('Error loading progress:', error);
+    res.status(500).json({ error: 'Failed to load progress' });
+  }
+});
+
+app.put('/api/progress/:unitId', async (req, res) => {
+  try {
+    const progress = req.body;
+    if (!progress || !Array.isArray(progress.answers)) {
+      return res.status(400).json({ error: 'Progress with an answers array is required' });
+    }
+    if (progress.unitId && progress.unitId !== req.params.unitId) {
+      return res.status(400).json({ error: 'Progress unitId does not match the URL' });
+    }
+    const saved = { ...progress, unitId: req.params.unitId };
+    const filePath = path.join(progressDir, `${req.params.unitId}.json`);
+    await withFileLock(`progress/${req.params.unitId}`, async () => {
+      const previous = await readJsonFile(filePath);
+      await saveWithHistory(
+        [`progress/${req.params.unitId}.json`],
+        describeProgressChange(req.params.unitId, previous, saved),
+        () => writeJsonFile(filePath, saved)
+      );
+    });
+    broadcastChange(req, { type: 'progress-changed', unitId: req.params.unitId });
+    res.json({ success: true, data: saved });
+  } catch (error) {
+    console.error('Error saving progress:', error);
+    res.status(500).json({ error: 'Failed to save progress', details: error.message });
+  }
+});
+
+// Replaces (or adds) a single answer without resending the whole progress document
+app.patch('/api/progress/:unitId/answers/:taskId', async (req, res) => {
+  try {
+    const { unitId, taskId } = req.params;
+    const answer = req.body;
+    if (!answer || typeof answer !== 'object' || (answer.taskId && answer.taskId !== taskId)) {
+      return res.status(400).json({ error: 'Answer body is required and must match the task id' });
+    }
+
+    const filePath = path.join(progressDir, `${unitId}.json`);
+    // The read happens inside the lock so concurrent PATCHes for other tasks are kept
+    const updatedAnswer = await withFileLock(`progress/${unitId}`, async () => {
+      const progress = await readJsonFile(filePath);
+      if (!progress) return null;
+
+      const answers = Array.isArray(progress.answers) ? progress.answers : [];
+      const index = answers.findIndex(a => a.taskId === taskId);
+      const merged = { ...(index >= 0 ? answers[index] : {}), ...answer, taskId };
+      const updated = {
+        ...progress,
+        answers: index >= 0
+          ? answers.map((a, i) => (i === index ? merged : a))
+          : [...answers, merged],
+        lastActivity: answer.lastModified || new Date().toISOString()
+      };
+
+      await saveWithHistory(
+        [`progress/${unitId}.json`],
+        describeProgressChange(unitId, progress, updated),
+        () => writeJsonFile(filePath, updated)
+      );
+      return merged;
+    });
+    if (!updatedAnswer) {
+      return res.status(404).json({ error: 'Progress not found' });
+    }
+    broadcastChange(req, { type: 'progress-changed', unitId });
+    res.json({ success: true, data: updatedAnswer });
+  } catch (error) {
+    console.error('Error updating answer:', error);
+    res.status(500).json({ error: 'Failed to update answer', details: error.message });
+  }
+});
+
+// --- Unit catalogue ---
+// Units anyone can add with one click: the ones bundled in public/ and any an admin drops into
+// storage/catalogue/. A dropped unit replaces a bundled one with the same id. Each entry carries
+// a version (a hash of the unit) so clients can tell when the unit they added has changed.
+
+const bundledCatalogueDir = path.join(__dirname, 'public');
+const catalogueDir = path.join(__dirname, 'storage', 'catalogue');
+
+const catalogueVersion = (unit) => sha256(JSON.stringify(unit)).slice(0, 16);
+
+const readCatalogueDir = async (dir, source) => {
+  let files = [];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  const entries = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json') && file !== 'unit.schema.json')
+      .map(async (file) => {
+        const filePath = path.join(dir, file);
+        let unit;
+        try {
+          unit = JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch (error) {
+          console.warn(`Skipping catalogue file ${file}: ${error.message}`);
+          return null;
+        }
+        const errors = [...checkUnitSchema(unit), ...checkUnitReferences(unit)];
+        if (errors.length > 0) {
+          console.warn(`Skipping catalogue file ${file}: ${errors.length} validation problem(s), first: ${errors[0].path || 'the unit'} ${errors[0].message}`);
+          return null;
+        }
+        const stat = await fs.stat(filePath);
+        return { unit, source, updatedAt: stat.mtime.toISOString() };
+      })
+  );
+  return entries.filter(Boolean);
+};
+
+const loadCatalogue = async () => {
+  const catalogue = new Map();
+  for (const entry of [...await readCatalogueDir(bundledCatalogueDir, 'bundled'), ...await readCatalogueDir(catalogueDir, 'admin')]) {
+    catalogue.set(entry.unit.id, entry);
+  }
+  return [...catalogue.values()];
+};
+
+const toCatalogueEntry = ({ unit, source, updatedAt }) => ({
+  id: unit.id,
+  title: unit.title,
+  credits: unit.credits ?? null,
+  guidedLearningHours: unit.guided_learning_hours ?? null,
+  learningOutcomeCount: unit.learning_outcomes.length,
+  taskCount: new Set(unit.learning_outcomes.flatMap(lo => lo.outcome_tasks.map(task => task.id))).size,
+  source,
+  version: catalogueVersion(unit),
+  updatedAt
+});
+
+app.get('/api/catalogue', async (req, res) => {
+  try {
+    const catalogue = await loadCatalogue();
+    res.json({
+      success: true,
+      data: catalogue.map(toCatalogueEntry).sort((a, b) => a.title.localeCompare(b.title))
+    });
+  } catch (error) {
+    console.error('Error listing the unit catalogue:', error);
+    res.status(500).json({ error: 'Failed to list the unit catalogue', details: error.message });
+  }
+});
+
+app.get('/api/catalogue/:unitId', async (req, res) => {
+  try {
+    const entry = (await loadCatalogue()).find(({ unit }) => unit.id === req.params.unitId);
+    if (!entry) {
+      return res.status(404).json({ error: 'Unit not found in the catalogue' });
+    }
+    res.json({ success: true, data: { entry: toCatalogueEntry(entry), unit: entry.unit } });
+  } catch (error) {
+    console.error('Error loading catalogue unit:', error);
+    res.status(500).json({ error: 'Failed to load catalogue unit', details: error.message });
+  }
+});
+
+// --- Settings ---
+// Settings live in storage/config/settings.json, away from the snapshot files in the storage
+// root. The document carries a version; older documents are upgraded when read, and the
+// server refuses documents from a newer app rather than dropping fields it doesn't know.
+
+const configDir = path.join(__dirname, 'storage', 'config');
+const settingsFile = path.join(configDir, 'settings.json');
+// Written through /api/save-progress before the settings API existed
+const legacySettingsFile = path.join(__dirname, 'storage', 'settings.json');
+
+const SETTINGS_VERSION = 1;
+
+const DAYS_OF_WEEK = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Upgrade steps keyed by the version they produce
+const SETTINGS_MIGRATIONS = {
+  // Unversioned settings.json written by /api/save-progress; the shape is unchanged
+  1: (settings) => settings
+};
+
+const migrateSettings = (settings) => {
+  let migrated = settings;
+  for (let version = (settings.version || 0) + 1; version <= SETTINGS_VERSION; version++) {
+    migrated = { ...SETTINGS_MIGRATIONS[version](migrated), version };
+  }
+  return migrated;
+};
+
+const isPlainObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value, min) => Number.isInteger(value) && value >= min;
+
+// Returns a list of problems, each prefixed with the path of the offending field
+const validateSettings = (settings) => {
+  if (!isPlainObject(settings)) return ['settings must be an object'];
+  const errors = [];
+
+  if (settings.version !== SETTINGS_VERSION) {
+    errors.push(settings.version > SETTINGS_VERSION
+      ? `version ${settings.version} is newer than this server supports (${SETTINGS_VERSION})`
+      : `version must be ${SETTINGS_VERSION}`);
+  }
+
+  if (typeof settings.feedbackServiceUrl !== 'string') {
+    errors.push('feedbackServiceUrl must be a string');
+  } else {
+    try {
+      const { protocol } = new URL(settings.feedbackServiceUrl);
+      if (protocol !== 'http:' && protocol !== 'https:') errors.push('feedbackServiceUrl must be an http(s) URL');
+    } catch {
+      errors.push('feedbackServiceUrl must be a valid URL');
+    }
+  }
+
+  if (!Array.isArray(settings.exampleQuestions)) {
+    errors.push('exampleQuestions must be an array');
+  } else {
+    settings.exampleQuestions.forEach((question, index) => {
+      if (typeof question !== 'string' || !question.trim()) {
+        errors.push(`exampleQuestions[${index}] must be a non-empty string`);
+      }
+    });
+  }
+
+  if (!isPlainObject(settings.workingHours)) {
+    errors.push('workingHours must be an object');
+  } else {
+    Object.entries(settings.workingHours).forEach(([day, periods]) => {
+      if (!DAYS_OF_WEEK.includes(day)) {
+        errors.push(`workingHours.${day} is not a day of the week`);
+        return;
+      }
+      if (!Array.isArray(periods)) {
+        errors.push(`workingHours.${day} must be an array`);
+        return;
+      }
+      periods.forEach((period, index) => {
+        const at = `workingHours.${day}[${index}]`;
+        if (!isPlainObject(period) || typeof period.id !== 'string') {
+          errors.push(`${at} must be an object with a string id`);
+          return;
+        }
+        if (!TIME_PATTERN.test(period.startTime)) errors.push(`${at}.startTime must be HH:MM`);
+        if (!TIME_PATTERN.test(period.endTime)) errors.push(`${at}.endTime must be HH:MM`);
+        else if (TIME_PATTERN.test(period.startTime) && period.endTime <= period.startTime) {
+          errors.push(`${at}.endTime must be after startTime`);
+        }
+      });
+    });
+  }
+
+  if (settings.snapshotRetention !== undefined) {
+    const policy = settings.snapshotRetention;
+    if (!isPlainObject(policy)) {
+      errors.push('snapshotRetention must be an object');
+    } else {
+      if (typeof policy.enabled !== 'boolean') errors.push('snapshotRetention.enabled must be a boolean');
+      if (!isCount(policy.keepLast, 1)) errors.push('snapshotRetention.keepLast must be a whole number of at least 1');
+      if (!isCount(policy.keepDailyDays, 0)) errors.push('snapshotRetention.keepDailyDays must be a whole number');
+      if (!isCount(policy.keepWeeklyWeeks, 0)) errors.push('snapshotRetention.keepWeeklyWeeks must be a whole number');
+    }
+  }
+
+  if (settings.autoBackup !== undefined) {
+    const autoBackup = settings.autoBackup;
+    if (!isPlainObject(autoBackup)) {
+      errors.push('autoBackup must be an object');
+    } else {
+      if (typeof autoBackup.enabled !== 'boolean') errors.push('autoBackup.enabled must be a boolean');
+      if (!isCount(autoBackup.intervalMinutes, 5)) errors.push('autoBackup.intervalMinutes must be a whole number of at least 5');
+    }
+  }
+
+  if (settings.trashRetentionDays !== undefined &&
+      (!isCount(settings.trashRetentionDays, 1) || settings.trashRetentionDays > 365)) {
+    errors.push('trashRetentionDays must be a whole number from 1 to 365');
+  }
+
+  const knownKeys = ['version', 'feedbackServiceUrl', 'exampleQuestions', 'workingHours', 'snapshotRetention', 'autoBackup', 'trashRetentionDays'];
+  Object.keys(settings)
+    .filter(key => !knownKeys.includes(key))
+    .forEach(key => errors.push(`${key} is not a known setting`));
+
+  return errors;
+};
+
+// Returns null when no settings have been saved yet. A settings.json left in the storage root
+// by older versions is moved into the config folder the first time it is read.
+const readSettings = async () => {
+  let settings = await readJsonFile(settingsFile);
+  if (!settings) {
+    settings = await readJsonFile(legacySettingsFile);
+    if (!settings) return null;
+    await writeJsonFile(settingsFile, migrateSettings(settings));
+    await removeFile(legacySettingsFile);
+    console.log(`Moved ${legacySettingsFile} to ${settingsFile}`);
+  }
+  return migrateSettings(settings);
+};
+
+app.get('/api/settings', async (req, res) => {
+  try {
+    const settings = await readSettings();
+    if (!settings) {
+      return res.status(404).json({ error: 'Settings not found' });
+    }
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    res.status(500).json({ error: 'Failed to load settings', details: error.message });
+  }
+});
+
+app.put('/api/settings', async (req, res) => {
+  try {
+    const errors = validateSettings(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid settings', details: errors.join('; '), errors });
+    }
+    await saveWithHistory(['config/settings.json'], 'Settings updated', () => writeJsonFile(settingsFile, req.body));
+
+    // A changed retention policy applies straight away
+    let prunedFiles = [];
+    try {
+      prunedFiles = await enforceRetentionPolicy();
+    } catch (pruneError) {
+      console.error('Failed to apply retention policy:', pruneError);
+    }
+    res.json({ success: true, data: req.body, prunedFiles });
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    res.status(500).json({ error: 'Failed to save settings', details: error.message });
+  }
+});
+
+// --- Storage history ---
+// With STORAGE_GIT=true the storage folder is also a git repository (isomorphic-git, so no git
+// binary is needed) and every save of units, progress or settings becomes a commit. Snapshot
+// files are point-in-time copies already and are left out of the history. Because the folder
+// is an ordinary repository, a remote can be added and pushed to with any git client.
+
+const STORAGE_HISTORY_ENABLED = /^(1|true|yes)$/i.test(process.env.STORAGE_GIT || '');
+const historyDir = path.join(__dirname, 'storage');
+const HISTORY_AUTHOR = { name: 'Learning Assistant', email: 'learning-assistant@localhost' };
+// Folders (relative to storage/) that make up the tracked state. A restore puts back the
+// learning state only; settings keep their current values.
+const HISTORY_FOLDERS = ['units', 'progress', 'trash', 'config'];
+const RESTORED_FOLDERS = ['units', 'progress'];
+const HISTORY_GITIGNORE = ['learning-progress-*', '*.tmp', '*.sha256', '/settings.json', ''].join('\n');
+
+class HistoryDisabledError extends Error {}
+
+// Git operations on one repository must not interleave
+let historyQueue = Promise.resolve();
+const queueHistory = (operation) => {
+  const result = historyQueue.then(operation);
+  historyQueue = result.catch(() => {});
+  return result;
+};
+
+const listHistoryFiles = async (folders = HISTORY_FOLDERS) => {
+  const files = [];
+  for (const folder of folders) {
+    try {
+      const names = await fs.readdir(path.join(historyDir, folder));
+      names.filter(name => name.endsWith('.json')).forEach(name => files.push(`${folder}/${name}`));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+  }
+  return files;
+};
+
+// Blob id of a file at HEAD, or null when it isn't there (or there is no HEAD yet)
+const headBlobOid = async (filepath) => {
+  try {
+    const head = await git.resolveRef({ fs: nodeFs, dir: historyDir, ref: 'HEAD' });
+    const { oid } = await git.readBlob({ fs: nodeFs, dir: historyDir, oid: head, filepath });
+    return oid;
+  } catch (error) {
+    if (error.code === 'NotFoundError') return null;
+    throw error;
+  }
+};
+
+// Stages the given paths (relative to storage/) and commits them. Paths whose file no longer
+// exists are recorded as deletions. Returns the new commit id, or null when nothing changed.
+// Contents are compared by hash: saves within the same second can leave size and mtime unchanged.
+const commitHistory = async (filepaths, message) => {
+  let changed = false;
+  for (const filepath of filepaths) {
+    let contents = null;
+    try {
+      contents = await fs.readFile(path.join(historyDir, filepath));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+    }
+    const workdirOid = contents ? (await git.hashBlob({ object: contents })).oid : null;
+    if (workdirOid === (await headBlobOid(filepath))) continue;
+
+    changed = true;
+    if (contents) {
+      await git.add({ fs: nodeFs, dir: historyDir, filepath });
+    } else {
+      await git.remove({ fs: nodeFs, dir: historyDir, filepath });
+    }
+  }
+
+  if (!changed) return null;
+  return git.commit({ fs: nodeFs, dir: historyDir, message, author: HISTORY_AUTHOR });
+};
+
+const initStorageHistory = () => queueHistory(async () => {
+  await fs.mkdir(historyDir, { recursive: true });
+  try {
+    await fs.access(path.join(historyDir, '.git'));
+    return;
+  } catch {
+    // Not a repository yet
+  }
+  await git.init({ fs: nodeFs, dir: historyDir, defaultBranch: 'main' });
+  await writeFileAtomic(path.join(historyDir, '.gitignore'), HISTORY_GITIGNORE);
+  await commitHistory(['.gitignore', ...(await listHistoryFiles())], 'Start storage history');
+  console.log(`Storage history enabled in ${historyDir}`);
+});
+
+const lastStatus = (answer) => answer?.statusHistory?.[answer.statusHistory.length - 1]?.status;
+
+const STATUS_LABELS = {
+  'submitted-for-review': 'submitted',
+  achieved: 'achieved',
+  'not-yet-achieved': 'not yet achieved',
+  completed: 'completed'
+};
+
+// Summarises a progress save for the commit message, e.g. "unit-1: 3 answers updated, 1 submitted"
+const describeProgressChange = (unitId, before, after) => {
+  const previousAnswers = new Map((before?.answers || []).map(answer => [answer.taskId, answer]));
+  let updated = 0;
+  const statusCounts = {};
+  (after?.answers || []).forEach(answer => {
+    const previous = previousAnswers.get(answer.taskId);
+    if ((previous?.content || '') !== (answer.content || '')) updated++;
+    const status = lastStatus(answer);
+    if (status !== lastStatus(previous) && STATUS_LABELS[status]) {
+      statusCounts[status] = (statusCounts[status] || 0) + 1;
+    }
+  });
+
+  const parts = [];
+  if (updated > 0) parts.push(`${updated} answer${updated === 1 ? '' : 's'} updated`);
+  Object.entries(statusCounts).forEach(([status, count]) => parts.push(`${count} ${STATUS_LABELS[status]}`));
+  return `${unitId}: ${parts.length > 0 ? parts.join(', ') : 'progress updated'}`;
+};
+
+// Runs a save made by one of the API routes and commits the files it touched. The save and the
+// commit share the history queue so each commit holds exactly what its save wrote. History
+// problems are logged rather than failing the save, which has already been written.
+const saveWithHistory = (filepaths, message, save) => {
+  if (!STORAGE_HISTORY_ENABLED) return save();
+  return queueHistory(async () => {
+    const result = await save();
+    try {
+      await commitHistory(filepaths, message);
+    } catch (error) {
+      console.error('Failed to record storage history:', error);
+    }
+    return result;
+  });
+};
+
+const requireHistory = () => {
+  if (!STORAGE_HISTORY_ENABLED) {
+    throw new HistoryDisabledError('Storage history is not enabled. Start the server with STORAGE_GIT=true.');
+  }
+};
+
+const readJsonBlob = async (oid, filepath) => {
+  const { blob } = await git.readBlob({ fs: nodeFs, dir: historyDir, oid, filepath });
+  return JSON.parse(Buffer.from(blob).toString('utf8'));
+};
+
+// Reads the tracked files of one folder at a commit; a folder missing there reads as empty
+const readHistoryFolder = async (oid, folder) => {
+  let entries;
+  try {
+    ({ tree: entries } = await git.readTree({ fs: nodeFs, dir: historyDir, oid, filepath: folder }));
+  } catch (error) {
+    if (error.code === 'NotFoundError') return [];
+    throw error;
+  }
+  return Promise.all(
+    entries
+      .filter(entry => entry.type === 'blob' && entry.path.endsWith('.json'))
+      .map(async entry => ({ filepath: `${folder}/${entry.path}`, data: await readJsonBlob(oid, `${folder}/${entry.path}`) }))
+  );
+};
+
+const toHistoryEntry = ({ oid, commit }) => ({
+  oid,
+  message: commit.message.trim(),
+  timestamp: new Date(commit.author.timestamp * 1000).toISOString(),
+  author: commit.author.name
+});
+
+const sendHistoryError = (res, error, fallback) => {
+  if (error instanceof HistoryDisabledError) {
+    return res.status(404).json({ error: error.message, code: 'HISTORY_DISABLED' });
+  }
+  if (error.code === 'NotFoundError') {
+    return res.status(404).json({ error: 'Commit not found' });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback, details: error.message });
+};
+
+const COMMIT_ID_PATTERN = /^[0-9a-f]{4,40}$/;
+
+app.param('commit', (req, res, next, value) => {
+  if (!COMMIT_ID_PATTERN.test(value)) {
+    return res.status(400).json({ error: 'Invalid commit id' });
+  }
+  next();
+});
+
+const resolveCommit = (ref) =>
+  ref.length === 40 ? ref : git.expandOid({ fs: nodeFs, dir: historyDir, oid: ref });
+
+// Newest first; ?limit= caps the number of commits (default 50)
+app.get('/api/history', async (req, res) => {
+  try {
+    requireHistory();
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), 1000);
+    const commits = await queueHistory(() => git.log({ fs: nodeFs, dir: historyDir, depth: limit }));
+    res.json({ success: true, data: commits.map(toHistoryEntry) });
+  } catch (error) {
+    sendHistoryError(res, error, 'Failed to list storage history');
+  }
+});
+
+// The units, progress and settings as they were at a commit
+app.get('/api/history/:commit', async (req, res) => {
+  try {
+    requireHistory();
+    const snapshot = await queueHistory(async () => {
+      const oid = await resolveCommit(req.params.commit);
+      const [entry] = await git.log({ fs: nodeFs, dir: historyDir, ref: oid, depth: 1 });
+      const units = await readHistoryFolder(oid, 'units');
+      const progress = await readHistoryFolder(oid, 'progress');
+      const config = await readHistoryFolder(oid, 'config');
+      return {
+        commit: toHistoryEntry(entry),
+        units: units.map(file => file.data),
+        progress: Object.fromEntries(progress.map(file => [path.basename(file.filepath, '.json'), file.data])),
+        settings: config.find(file => file.filepath === 'config/settings.json')?.data || null
+      };
+    });
+    res.json({ success: true, data: snapshot });
+  } catch (error) {
+    sendHistoryError(res, error, 'Failed to read storage history');
+  }
+});
+
+// Puts the units and progress back as they were at a commit and records that as a
+// new commit, so the restore itself can be undone. Open apps are told to reload from the server.
+app.post('/api/history/:commit/restore', async (req, res) => {
+  try {
+    requireHistory();
+    const result = await queueHistory(async () => {
+      const oid = await resolveCommit(req.params.commit);
+      const [entry] = await git.log({ fs: nodeFs, dir: historyDir, ref: oid, depth: 1 });
+      const restored = (await Promise.all(RESTORED_FOLDERS.map(folder => readHistoryFolder(oid, folder)))).flat();
+      const current = await listHistoryFiles(RESTORED_FOLDERS);
+
+      for (const file of restored) {
+        await writeJsonFile(path.join(historyDir, file.filepath), file.data);
+      }
+      const removed = current.filter(filepath => !restored.some(file => file.filepath === filepath));
+      for (const filepath of removed) {
+        await removeFile(path.join(historyDir, filepath));
+      }
+
+      const commit = toHistoryEntry(entry);
+      const newOid = await commitHistory(
+        [...new Set([...current, ...restored.map(file => file.filepath)])],
+        `Restore storage to ${oid.slice(0, 7)} (${commit.timestamp})`
+      );
+      return { restoredFrom: commit, commit: newOid, files: restored.length, removedFiles: removed };
+    });
+
+    broadcastChange(req, { type: 'restored' });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    sendHistoryError(res, error, 'Failed to restore storage history');
+  }
+});
+
+// --- Storage snapshots ---
+// "Save to storage" writes gzip-compressed learning-progress-<timestamp>.json.gz files. Older
+// versions wrote plain learning-progress-<timestamp>.json, or for large snapshots a -metadata
+// file plus one -unit-<id> chunk per unit; those are still listed and served but never written.
+// learning-progress-<timestamp>.unitpack archives (see src/utils/unitPack.ts) are snapshots too;
+// they can be large, so they are streamed in and out rather than held in memory.
+// All files sharing a timestamp form one snapshot and are always kept or deleted together.
+
+const storageRoot = path.join(__dirname, 'storage');
+
+const SNAPSHOT_FILE_PATTERN = /^learning-progress-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2})(?:(?:-metadata|-unit-.+)?\.json(?:\.gz)?|\.unitpack)$/;
+const GZIP_SNAPSHOT_PATTERN = /^learning-progress-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.json\.gz$/;
+const UNITPACK_SNAPSHOT_PATTERN = /^learning-progress-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.unitpack$/;
+const MAX_UNITPACK_BYTES = 1024 * 1024 * 1024;
+
+const DEFAULT_RETENTION_POLICY = { enabled: false, keepLast: 10, keepDailyDays: 30, keepWeeklyWeeks: 52 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The timestamp is the ISO export time with ':' and '.' replaced, e.g. 2024-05-01T09-30-00
+const parseSnapshotTimestamp = (timestamp) => {
+  const [date, time] = timestamp.split('T');
+  return new Date(`${date}T${time.replace(/-/g, ':')}Z`);
+};
+
+const listSnapshots = async () => {
+  let files = [];
+  try {
+    files = await fs.readdir(storageRoot);
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  const snapshots = new Map();
+  files.forEach(file => {
+    const match = SNAPSHOT_FILE_PATTERN.exec(file);
+    if (!match) return;
+    const [, timestamp] = match;
+    if (!snapshots.has(timestamp)) {
+      snapshots.set(timestamp, { timestamp, date: parseSnapshotTimestamp(timestamp), files: [] });
+    }
+    snapshots.get(timestamp).files.push(file);
+  });
+  return [...snapshots.values()].sort((a, b) => b.date - a.date);
+};
+
+const deleteSnapshot = async (snapshot) => {
+  await Promise.all(snapshot.files.flatMap(file => [
+    removeFile(path.join(storageRoot, file)),
+    removeFile(checksumPath(path.join(storageRoot, file))),
+    removeFile(pendingChecksumPath(path.join(storageRoot, file)))
+  ]));
+  return snapshot.files;
+};
+
+const getSnapshotFormat = (snapshot) => {
+  if (snapshot.files.some(file => file.endsWith('.unitpack'))) return 'unitpack';
+  if (snapshot.files.some(file => file.endsWith('.json.gz'))) return 'gzip';
+  if (snapshot.files.some(file => file.endsWith('-metadata.json') || file.includes('-unit-'))) return 'chunked';
+  return 'json';
+};
+
+// The name clients load a snapshot by; chunked snapshots are addressed by their original name
+const getSnapshotName = (snapshot) => {
+  switch (getSnapshotFormat(snapshot)) {
+    case 'unitpack':
+      return `learning-progress-${snapshot.timestamp}.unitpack`;
+    case 'gzip':
+      return `learning-progress-${snapshot.timestamp}.json.gz`;
+    default:
+      return `learning-progress-${snapshot.timestamp}.json`;
+  }
+};
+
+// Streams an archive once, checking it against its checksum and picking out manifest.json
+// without unpacking anything else
+const readUnitPackManifest = async (file) => {
+  const filePath = path.join(storageRoot, file);
+  const chunks = [];
+  let complete = false;
+  const unzipper = new Unzip(entry => {
+    if (entry.name !== 'manifest.json') return;
+    entry.ondata = (error, chunk, final) => {
+      if (error) throw error;
+      chunks.push(chunk);
+      complete = final;
+    };
+    entry.start();
+  });
+  unzipper.register(UnzipInflate);
+
+  let verified;
+  try {
+    ({ verified } = await verifyFileStream(filePath, chunk => unzipper.push(chunk)));
+    unzipper.push(new Uint8Array(0), true);
+  } catch (error) {
+    if (error instanceof SnapshotIntegrityError) throw error;
+    throw new SnapshotIntegrityError(`${file} is not a valid archive; it is damaged or incomplete`);
+  }
+  if (!complete) {
+    throw new SnapshotIntegrityError(`${file} has no manifest.json`);
+  }
+  const manifest = parseJsonFile(Buffer.concat(chunks), `manifest.json in ${file}`);
+  if (manifest.format !== 'learning-assistant-unitpack' || !Array.isArray(manifest.units)) {
+    throw new SnapshotIntegrityError(`${file} has no valid .unitpack manifest`);
+  }
+  return { manifest, verified };
+};
+
+const readSnapshotFile = async (file) => {
+  const { buffer, verified } = await readVerifiedFile(path.join(storageRoot, file));
+  let content = buffer;
+  if (file.endsWith('.gz')) {
+    try {
+      content = await gunzip(buffer);
+    } catch {
+      throw new SnapshotIntegrityError(`${file} is not valid gzip; it is damaged or incomplete`);
+    }
+  }
+  return { data: parseJsonFile(content, file), verified };
+};
+
+const isEncryptedSnapshot = (data) => data?.format === 'learning-assistant-encrypted';
+
+// Reads every file of a snapshot to check its integrity and summarise its contents. Encrypted
+// snapshots can still be checked against their checksums but not summarised.
+// integrity: 'verified' | 'unverified' (no checksum, or the file is still being written) | 'corrupted' | 'incomplete'
+const summarizeSnapshot = async (snapshot) => {
+  let verifiedAll = true;
+  const read = async (file) => {
+    const { data, verified } = await readSnapshotFile(file);
+    verifiedAll = verifiedAll && verified;
+    return data;
+  };
+  const result = (fields) => ({ integrity: verifiedAll ? 'verified' : 'unverified', problems: [], ...fields });
+
+  let data;
+  try {
+    if (getSnapshotFormat(snapshot) === 'unitpack') {
+      const { manifest, verified } = await readUnitPackManifest(getSnapshotName(snapshot));
+      verifiedAll = verified;
+      // The manifest carries each unit's counts, so it stands in for the unit data here
+      data = {
+        totalUnits: manifest.units.length,
+        units: Object.fromEntries(manifest.units.map(unit => [unit.id, { unitSummary: unit }]))
+      };
+    } else if (getSnapshotFormat(snapshot) === 'chunked') {
+      const metadataFile = `learning-progress-${snapshot.timestamp}-metadata.json`;
+      if (!snapshot.files.includes(metadataFile)) {
+        return { integrity: 'incomplete', problems: [`${metadataFile} is missing`], encrypted: false, preview: null };
+      }
+      const metadata = await read(metadataFile);
+      if (isEncryptedSnapshot(metadata)) {
+        // Chunk names can't be known without decrypting the metadata, so only check what's there
+        await Promise.all(snapshot.files.filter(file => file !== metadataFile).map(read));
+        return result({ encrypted: true, preview: null });
+      }
+      const chunkFiles = (metadata.unitIds || []).map(unitId => `learning-progress-${snapshot.timestamp}-unit-${unitId}.json`);
+      const missing = chunkFiles.filter(file => !snapshot.files.includes(file));
+      if (missing.length > 0) {
+        return { integrity: 'incomplete', problems: missing.map(file => `${file} is missing`), encrypted: false, preview: null };
+      }
+      data = { totalUnits: metadata.totalUnits, units: {} };
+      for (const file of chunkFiles) {
+        const chunk = await read(file);
+        if (isEncryptedSnapshot(chunk)) return result({ encrypted: true, preview: null });
+        Object.assign(data.units, chunk.units);
+      }
+    } else {
+      data = await read(getSnapshotName(snapshot));
+      if (isEncryptedSnapshot(data)) return result({ encrypted: true, preview: null });
+    }
+  } catch (error) {
+    if (error instanceof SnapshotIntegrityError) {
+      return { integrity: 'corrupted', problems: [error.message], encrypted: false, preview: null };
+    }
+    throw error;
+  }
+
+  const units = Object.values(data.units || {});
+  const totalTasks = units.reduce((sum, unit) => sum + (unit.unitSummary?.totalTasks || 0), 0);
+  const completedTasks = units.reduce((sum, unit) => sum + (unit.unitSummary?.completedTasks || 0), 0);
+  return result({
+    encrypted: false,
+    preview: {
+      totalUnits: data.totalUnits ?? units.length,
+      totalTasks,
+      completedTasks,
+      progressPercentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0
+    }
+  });
+};
+
+// Summaries only change when a file, its checksum or its pending marker does, so they're cached
+// by name, size and mtime
+const snapshotSummaryCache = new Map();
+
+const describeSnapshot = async (snapshot) => {
+  const stats = await Promise.all(snapshot.files.map(file => fs.stat(path.join(storageRoot, file))));
+  const checksumStates = await Promise.all(snapshot.files.map(async file => {
+    const filePath = path.join(storageRoot, file);
+    const [sidecar, pending] = await Promise.all([
+      fs.stat(checksumPath(filePath)).catch(() => null),
+      fs.access(pendingChecksumPath(filePath)).then(() => true, () => false)
+    ]);
+    return `${sidecar?.mtimeMs ?? ''}:${pending ? 'pending' : ''}`;
+  }));
+  const cacheKey = snapshot.files
+    .map((file, i) => `${file}:${stats[i].size}:${stats[i].mtimeMs}:${checksumStates[i]}`)
+    .join('|');
+  let summary = snapshotSummaryCache.get(snapshot.timestamp);
+  if (!summary || summary.cacheKey !== cacheKey) {
+    try {
+      summary = { cacheKey, ...(await summarizeSnapshot(snapshot)) };
+    } catch (error) {
+      console.warn(`Failed to read snapshot ${snapshot.timestamp}:`, error.message);
+      summary = { cacheKey, integrity: 'corrupted', problems: [error.message], encrypted: false, preview: null };
+    }
+    snapshotSummaryCache.set(snapshot.timestamp, summary);
+  }
+
+  const format = getSnapshotFormat(snapshot);
+  return {
+    name: getSnapshotName(snapshot),
+    format,
+    legacy: format === 'chunked',
+    files: snapshot.files,
+    size: stats.reduce((sum, stat) => sum + stat.size, 0),
+    modified: new Date(Math.max(...stats.map(stat => stat.mtimeMs))),
+    integrity: summary.integrity,
+    problems: summary.problems,
+    encrypted: summary.encrypted,
+    preview: summary.preview
+  };
+};
+
+// Lists snapshots (not raw files) with their on-disk size and a summary of their contents
+app.get('/api/storage-files', async (req, res) => {
+  try {
+    const snapshots = await listSnapshots();
+    res.json({ files: await Promise.all(snapshots.map(describeSnapshot)) });
+  } catch (error) {
+    console.error('Error listing storage files:', error);
+    res.status(500).json({ error: 'Failed to list storage files' });
+  }
+});
+
+// Streams an archive to the client once it has passed its checksum
+const sendUnitPack = async (req, res) => {
+  const filePath = path.join(storageRoot, req.params.filename);
+  try {
+    await verifyFileStream(filePath);
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    if (error instanceof SnapshotIntegrityError) {
+      return res.status(422).json({ error: error.message, code: 'CORRUPTED' });
+    }
+    console.error('Error loading archive:', error);
+    return res.status(500).json({ error: 'Failed to load archive' });
+  }
+
+  res.set({
+    'Content-Type': 'application/zip',
+    'Content-Disposition': `attachment; filename="${req.params.filename}"`
+  });
+  try {
+    await pipeline(nodeFs.createReadStream(filePath), res);
+  } catch (error) {
+    // Headers are gone by now; the client sees a truncated download and the zip fails to open
+    console.error('Error streaming archive:', error);
+  }
+};
+
+// Serves a compressed snapshot as JSON; browsers decompress it transparently. Archives are
+// served as they are.
+app.get('/api/storage-files/:filename', async (req, res) => {
+  const { filename } = req.params;
+  if (UNITPACK_SNAPSHOT_PATTERN.test(filename)) {
+    return sendUnitPack(req, res);
+  }
+  if (!GZIP_SNAPSHOT_PATTERN.test(filename)) {
+    return res.status(400).json({ error: 'Invalid filename' });
+  }
+  try {
+    const { buffer } = await readVerifiedFile(path.join(storageRoot, filename));
+    res.set({ 'Content-Type': 'application/json; charset=utf-8', 'Content-Encoding': 'gzip' });
+    res.send(buffer);
+  } catch (error) {
+    if (error.code === 'ENOENT') {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    if (error instanceof SnapshotIntegrityError) {
+      return res.status(422).json({ error: error.message, code: 'CORRUPTED' });
+    }
+    console.error('Error loading snapshot:', error);
+    res.status(500).json({ error: 'Failed to load snapshot' });
+  }
+});
+
+// Stores an archive uploaded as the raw request body, streaming it to disk. Anything else falls
+// through to the gzip upload below.
+app.put('/api/storage-files/:filename', async (req, res, next) => {
+  const { filename } = req.params;
+  if (!UNITPACK_SNAPSHOT_PATTERN.test(filename)) return next();
+
+  const filePath = path.join(storageRoot, filename);
+  try {
+    const size = await writeSnapshotStream(filePath, req, {
+      maxBytes: MAX_UNITPACK_BYTES,
+      // Every zip starts with a local file header, PK\x03\x04
+      isValidStart: chunk => chunk.length >= 4 && chunk.readUInt32LE(0) === 0x04034b50
+    });
+    try {
+      await readUnitPackManifest(filename);
+    } catch (error) {
+      await removeFile(filePath);
+      await removeFile(checksumPath(filePath));
+      throw new InvalidUploadError(error.message);
+    }
+
+    let prunedFiles = [];
+    try {
+      prunedFiles = await enforceRetentionPolicy();
+    } catch (pruneError) {
+      console.error('Failed to apply retention policy:', pruneError);
+    }
+    res.json({ success: true, message: `Archive saved to storage/${filename}`, fileName: filename, size, prunedFiles });
+  } catch (error) {
+    if (error instanceof InvalidUploadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error saving archive:', error);
+    res.status(500).json({ error: 'Failed to save archive', details: error.message });
+  }
+});
+
+// Stores a compressed snapshot uploaded as the raw gzip body
+app.put(
+  '/api/storage-files/:filename',
+  express.raw({ type: ['application/gzip', 'application/octet-stream'], limit: '200mb' }),
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      if (!GZIP_SNAPSHOT_PATTERN.test(filename)) {
+        return res.status(400).json({ error: 'Invalid filename' });
+      }
+      const body = req.body;
+      if (!Buffer.isBuffer(body) || body.length < 2 || body[0] !== 0x1f || body[1] !== 0x8b) {
+        return res.status(400).json({ error: 'Body must be gzip-compressed' });
+      }
+
+      await writeSnapshotFile(path.join(storageRoot, filename), body);
+
+      let prunedFiles = [];
+      try {
+        prunedFiles = await enforceRetentionPolicy();
+      } catch (pruneError) {
+        console.error('Failed to apply retention policy:', pruneError);
+      }
+      res.json({ success: true, message: `Progress saved to storage/${filename}`, fileName: filename, prunedFiles });
+    } catch (error) {
+      console.error('Error saving snapshot:', error);
+      res.status(500).json({ error: 'Failed to save snapshot', details: error.message });
+    }
+  }
+);
+
+const toCount = (value, fallback, min) =>
+  Number.isInteger(value) && value >= min ? value : fallback;
+
+const loadRetentionPolicy = async () => {
+  const settings = await readSettings();
+  const policy = settings?.snapshotRetention;
+  if (!policy) return DEFAULT_RETENTION_POLICY;
+  return {
+    enabled: policy.enabled === true,
+    // The newest snapshot is always kept, so a chunked save can't prune itself half-way through
+    keepLast: toCount(policy.keepLast, DEFAULT_RETENTION_POLICY.keepLast, 1),
+    keepDailyDays: toCount(policy.keepDailyDays, DEFAULT_RETENTION_POLICY.keepDailyDays, 0),
+    keepWeeklyWeeks: toCount(policy.keepWeeklyWeeks, DEFAULT_RETENTION_POLICY.keepWeeklyWeeks, 0)
+  };
+};
+
+// Keeps the newest `keepLast` snapshots, the newest snapshot of each day for `keepDailyDays`
+// days and the newest of each week for `keepWeeklyWeeks` weeks. Everything else is pruned.
+const selectSnapshotsToPrune = (snapshots, policy, now = new Date()) => {
+  const keep = new Set(snapshots.slice(0, policy.keepLast));
+  const keepNewestPerBucket = (periodMs, periods) => {
+    const seenBuckets = new Set();
+    snapshots.forEach(snapshot => {
+      const age = now - snapshot.date;
+      if (age >= periods * periodMs) return;
+      const bucket = Math.floor(snapshot.date.getTime() / periodMs);
+      if (seenBuckets.has(bucket)) return;
+      seenBuckets.add(bucket);
+      keep.add(snapshot);
+    });
+  };
+  keepNewestPerBucket(DAY_MS, policy.keepDailyDays);
+  keepNewestPerBucket(7 * DAY_MS, policy.keepWeeklyWeeks);
+  return snapshots.filter(snapshot => !keep.has(snapshot));
+};
+
+const enforceRetentionPolicy = async () => {
+  const policy = await loadRetentionPolicy();
+  if (!policy.enabled) return [];
+  const pruned = selectSnapshotsToPrune(await listSnapshots(), policy);
+  const deletedFiles = (await Promise.all(pruned.map(deleteSnapshot))).flat();
+  if (pruned.length > 0) {
+    console.log(`Retention policy pruned ${pruned.length} snapshot(s): ${deletedFiles.join(', ')}`);
+  }
+  return deletedFiles;
+};
+
+// Applies the retention policy now; also runs after every snapshot save and settings change
+app.post('/api/storage-files/prune', async (req, res) => {
+  try {
+    const deletedFiles = await enforceRetentionPolicy();
+    res.json({ success: true, data: { deletedFiles } });
+  } catch (error) {
+    console.error('Error pruning snapshots:', error);
+    res.status(500).json({ error: 'Failed to prune snapshots', details: error.message });
+  }
+});
+
+// Deletes a snapshot with all of its metadata and chunk files
+app.delete('/api/storage-files/:filename', async (req, res) => {
+  try {
+    const match = SNAPSHOT_FILE_PATTERN.exec(req.params.filename);
+    if (!match) {
+      return res.status(400).json({ error: 'Invalid filename' });
+    }
+    const snapshot = (await listSnapshots()).find(s => s.timestamp === match[1]);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    const deletedFiles = await deleteSnapshot(snapshot);
+    res.json({ success: true, data: { deletedFiles } });
+  } catch (error) {
+    console.error('Error deleting snapshot:', error);
+    res.status(500).json({ error: 'Failed to delete snapshot', details: error.message });
+  }
+});
+
+// --- Storage stats ---
+// What the storage folder holds and how much room is left, for the storage panel in Settings
+
+const LARGEST_SNAPSHOT_COUNT = 5;
+
+// Every file below storage/ as { path, size }, with paths relative to storage/
+const listStorageFiles = async (dir = storageRoot, prefix = '') => {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+  const files = [];
+  for (const entry of entries) {
+    const relativePath = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) {
+      files.push(...(await listStorageFiles(path.join(dir, entry.name), `${relativePath}/`)));
+    } else if (entry.isFile()) {
+      const { size } = await fs.stat(path.join(dir, entry.name));
+      files.push({ path: relativePath, size });
+    }
+  }
+  return files;
+};
+
+const getStorageCategory = (relativePath) => {
+  if (relativePath.startsWith('.git/') || relativePath === '.gitignore') return 'history';
+  const [folder] = relativePath.split('/');
+  if (relativePath.includes('/') && ['units', 'progress', 'trash', 'config', 'catalogue'].includes(folder)) return folder;
+  if (relativePath.endsWith('.sha256')) return 'checksums';
+  if (SNAPSHOT_FILE_PATTERN.test(relativePath)) return 'snapshots';
+  return 'other';
+};
+
+// Files nothing refers to any more: leftovers of interrupted writes, checksums of deleted files
+// and chunks of legacy snapshots that lost their metadata file
+const findOrphanedFiles = async (files, snapshots) => {
+  const paths = new Set(files.map(file => file.path));
+  const sizes = new Map(files.map(file => [file.path, file.size]));
+  const orphans = [];
+  const addOrphan = (filePath, reason) => orphans.push({ path: filePath, size: sizes.get(filePath) || 0, reason });
+
+  files.forEach(file => {
+    if (file.path.startsWith('.git/')) return;
+    if (file.path.endsWith('.tmp')) {
+      addOrphan(file.path, 'Left behind by an interrupted write');
+    } else if (file.path.endsWith('.sha256') && !paths.has(file.path.slice(0, -'.sha256'.length))) {
+      addOrphan(file.path, 'Checksum of a file that no longer exists');
+    }
+  });
+
+  for (const snapshot of snapshots) {
+    if (getSnapshotFormat(snapshot) !== 'chunked') continue;
+    const metadataFile = `learning-progress-${snapshot.timestamp}-metadata.json`;
+    const chunkFiles = snapshot.files.filter(file => file.includes('-unit-'));
+    if (!snapshot.files.includes(metadataFile)) {
+      chunkFiles.forEach(file => addOrphan(file, 'Chunk whose metadata file is missing'));
+      continue;
+    }
+    let metadata;
+    try {
+      ({ data: metadata } = await readSnapshotFile(metadataFile));
+    } catch {
+      continue; // Damaged metadata is reported by the file list instead
+    }
+    if (isEncryptedSnapshot(metadata)) continue;
+    const listed = new Set((metadata.unitIds || []).map(unitId => `learning-progress-${snapshot.timestamp}-unit-${unitId}.json`));
+    chunkFiles.filter(file => !listed.has(file)).forEach(file => addOrphan(file, 'Chunk not listed in its metadata file'));
+  }
+  return orphans;
+};
+
+// null where the platform can't tell
+const readDiskSpace = async () => {
+  try {
+    const stats = await fs.statfs(storageRoot);
+    return { free: stats.bavail * stats.bsize, total: stats.blocks * stats.bsize };
+  } catch (error) {
+    console.warn('Could not read free disk space:', error.message);
+    return null;
+  }
+};
+
+app.get('/api/storage/stats', async (req, res) => {
+  try {
+    const [files, snapshots, disk] = await Promise.all([listStorageFiles(), listSnapshots(), readDiskSpace()]);
+    const sizes = new Map(files.map(file => [file.path, file.size]));
+
+    const categories = {};
+    files.forEach(file => {
+      const category = getStorageCategory(file.path);
+      categories[category] = categories[category] || { files: 0, size: 0 };
+      categories[category].files++;
+      categories[category].size += file.size;
+    });
+
+    const largestSnapshots = snapshots
+      .map(snapshot => ({
+        name: getSnapshotName(snapshot),
+        format: getSnapshotFormat(snapshot),
+        date: snapshot.date,
+        files: snapshot.files.length,
+        size: snapshot.files.reduce((sum, file) => sum + (sizes.get(file) || 0), 0)
+      }))
+      .sort((a, b) => b.size - a.size)
+      .slice(0, LARGEST_SNAPSHOT_COUNT);
+
+    res.json({
+      success: true,
+      data: {
+        fileCount: files.length,
+        totalSize: files.reduce((sum, file) => sum + file.size, 0),
+        categories,
+        snapshotCount: snapshots.length,
+        largestSnapshots,
+        orphanedFiles: await findOrphanedFiles(files, snapshots),
+        disk
+      }
+    });
+  } catch (error) {
+    console.error('Error reading storage stats:', error);
+    res.status(500).json({ error: 'Failed to read storage stats', details: error.message });
+  }
+});
+
 // Serve React app for all other routes
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
@@ -150,4 +1827,7 @@ app.get('*', (req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Storage folder: ${path.join(__dirname, 'storage')}`);
+  if (STORAGE_HISTORY_ENABLED) {
+    initStorageHistory().catch(error => console.error('Failed to start storage history:', error));
+  }
 });
\ No newline at end of file
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { UnitList } from './components/UnitList';
 import { UnitUpload } from './components/UnitUpload';
+import { UnitEditor } from './components/UnitEditor';
+import { UnitUpgrade } from './components/UnitUpgrade';
 import { LoadFromStorage } from './components/LoadFromStorage';
 import { Settings } from './components/Settings';
 import { UnitOverview } from './components/UnitOverview';
@@ -8,18 +10,36 @@ import { ProgressDashboard } from './components/ProgressDashboard';
 import { TaskView } from './components/TaskView';
 import { OverallProgress } from './components/OverallProgress';
 import { WorkingTimeIndicator } from './components/WorkingTimeIndicator';
+import { BackupIndicator } from './components/BackupIndicator';
+import { TrashBin } from './components/TrashBin';
+import { UndoToast } from './components/UndoToast';
 import { useProgress } from './hooks/useProgress';
 import { useUnitManager } from './hooks/useUnitManager';
+import { useAutoBackup } from './hooks/useAutoBackup';
 import { requestFeedback } from './utils/feedbackService';
-import { Unit } from './types/Unit';
+import { appendStatusChange } from './utils/answerVersions';
+import { pushCachedProgress } from './utils/serverStorage';
+import { storage, progressKey } from './utils/storageBackend';
+import { ExportedUnit } from './utils/storageExport';
+import { diffUnits, isUnitDiffEmpty } from './utils/unitUpgrade';
+import { Unit, Progress } from './types/Unit';
 
-type View = 'list' | 'upload' | 'load-storage' | 'settings' | 'overview' | 'dashboard' | 'task' | 'overall-progress';
+type View = 'list' | 'upload' | 'editor' | 'upgrade' | 'load-storage' | 'settings' | 'overview' | 'dashboard' | 'task' | 'overall-progress' | 'trash';
 
 function App() {
   const [currentView, setCurrentView] = useState<View>('list');
   const [currentUnitId, setCurrentUnitId] = useState<string | null>(null);
   const [overallProgressKey, setOverallProgressKey] = useState(0);
-  const { units, unitList, loading, error, addUnit, removeUnit, getUnit, updateUnitProgress } = useUnitManager();
+  // Unit open in the editor; null while creating a new one
+  const [editingUnitId, setEditingUnitId] = useState<string | null>(null);
+  // Draft unit read from an assignment brief, reviewed in the editor before it is added
+  const [importedBrief, setImportedBrief] = useState<{ unit: Unit; warnings: string[] } | null>(null);
+  // New version of an existing unit awaiting review, and the view to go back to on cancel
+  const [pendingUpgrade, setPendingUpgrade] = useState<{ unit: Unit; returnView: View; catalogueVersion?: string } | null>(null);
+  // Unit just moved to the trash, offered for undo in a toast
+  const [removedUnit, setRemovedUnit] = useState<{ id: string; title: string } | null>(null);
+  const { units, unitList, loading, error, addUnit, removeUnit, getUnit, updateUnitProgress, trash, restoreUnit, importUnit, upgradeUnit, purgeFromTrash } = useUnitManager();
+  const autoBackup = useAutoBackup(!loading && !error);
   
   // Get unit data
   const unitData = currentUnitId ? getUnit(currentUnitId) : null;
@@ -87,11 +107,77 @@ function App() {
     setCurrentView('load-storage');
   };
 
-  const handleUnitUploaded = (unit: Unit) => {
-    addUnit(unit);
+  // A unit whose id already exists replaces the old version through the upgrade screen, which
+  // moves its answers to renumbered tasks. Edits that leave the outcomes and tasks alone skip it.
+  const handleNewUnitVersion = (unit: Unit, returnView: View, catalogueVersion?: string) => {
+    const existing = getUnit(unit.id);
+    if (existing && !isUnitDiffEmpty(diffUnits(existing, unit))) {
+      setPendingUpgrade({ unit, returnView, catalogueVersion });
+      setCurrentView('upgrade');
+      return;
+    }
+    addUnit(unit, { catalogueVersion });
+    setEditingUnitId(null);
+    setImportedBrief(null);
     setCurrentView('list');
   };
 
+  const handleUnitUploaded = (unit: Unit, catalogueVersion?: string) => handleNewUnitVersion(unit, 'upload', catalogueVersion);
+
+  const handleOpenEditor = (unitId: string | null) => {
+    setEditingUnitId(unitId);
+    setPendingUpgrade(null);
+    setImportedBrief(null);
+    setCurrentView('editor');
+  };
+
+  const handleBriefImported = (unit: Unit, warnings: string[]) => {
+    setEditingUnitId(null);
+    setPendingUpgrade(null);
+    setImportedBrief({ unit, warnings });
+    setCurrentView('editor');
+  };
+
+  const handleUnitSaved = (unit: Unit) => handleNewUnitVersion(unit, 'editor');
+
+  const handleUpgradeApplied = async (unit: Unit, migrated: Progress | null) => {
+    await upgradeUnit(unit, migrated, pendingUpgrade?.catalogueVersion);
+    if (unit.id === currentUnitId) refreshProgress();
+    autoBackup.requestBackup();
+    setPendingUpgrade(null);
+    setEditingUnitId(null);
+    setCurrentView('list');
+  };
+
+  const handleUnitsImported = async (imported: ExportedUnit[]) => {
+    for (const exported of imported) {
+      await importUnit(exported);
+    }
+  };
+
+  const handleRemoveUnit = async (unitId: string) => {
+    const title = unitList.find(u => u.id === unitId)?.title || unitId;
+    try {
+      await removeUnit(unitId);
+      if (unitId === currentUnitId) setCurrentUnitId(null);
+      setRemovedUnit({ id: unitId, title });
+    } catch (err) {
+      console.error('Error moving unit to the trash:', err);
+      alert(`Failed to remove the unit: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleUndoRemove = async () => {
+    if (!removedUnit) return;
+    setRemovedUnit(null);
+    try {
+      await restoreUnit(removedUnit.id);
+    } catch (err) {
+      console.error('Error restoring unit:', err);
+      alert(`Failed to restore the unit: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
   const handleProgressLoaded = () => {
     setCurrentUnitId(null);
     setCurrentView('list');
@@ -194,11 +280,11 @@ function App() {
     submitForReview(progress.currentTask);
   };
 
-  const handleOverallProgressTaskSelect = (unitId: string, loId: string, taskId: string) => {
-    // Always write the target task into localStorage so the hook picks it up on init
-    const key = `learning-assistant-progress-${unitId}`;
-    const saved = localStorage.getItem(key);
-    const prog = saved ? JSON.parse(saved) : {
+  const handleOverallProgressTaskSelect = async (unitId: string, loId: string, taskId: string) => {
+    // Always write the target task into storage so the hook picks it up on init
+    const key = progressKey(unitId);
+    const saved = await storage.get<Progress>(key);
+    const prog = saved ? saved : {
       unitId,
       currentLO: loId,
       currentTask: taskId,
@@ -207,25 +293,24 @@ function App() {
       startDate: new Date().toISOString(),
       lastActivity: new Date().toISOString()
     };
-    localStorage.setItem(key, JSON.stringify({ ...prog, currentLO: loId, currentTask: taskId }));
+    await storage.put(key, { ...prog, currentLO: loId, currentTask: taskId });
 
     if (unitId === currentUnitId) {
       // Same unit — hook won't re-init, so update state directly
       setCurrentTask(loId, taskId);
       setCurrentView('task');
     } else {
-      // Different unit — changing unitId re-inits useProgress from localStorage
+      // Different unit — changing unitId re-inits useProgress from storage
       setCurrentUnitId(unitId);
       setCurrentView('task');
     }
   };
 
-  const handleOverallProgressRecordOutcome = (unitId: string, taskId: string, outcome: 'achieved' | 'not-yet-achieved', reviewFeedback?: string) => {
-    const key = `learning-assistant-progress-${unitId}`;
-    const saved = localStorage.getItem(key);
-    if (!saved) return;
+  const handleOverallProgressRecordOutcome = async (unitId: string, taskId: string, outcome: 'achieved' | 'not-yet-achieved', reviewFeedback?: string) => {
+    const key = progressKey(unitId);
+    const prog = await storage.get<Progress>(key);
+    if (!prog) return;
 
-    const prog = JSON.parse(saved);
     const now = new Date().toISOString();
 
     const updatedAnswers = prog.answers.map((answer: any) => {
@@ -235,27 +320,26 @@ function App() {
         : (answer.isGoodEnough ? 'completed' : 'not-started');
       return {
         ...answer,
-        statusHistory: [
-          ...(answer.statusHistory || []),
-          { timestamp: now, status: outcome, previousStatus: lastStatus }
-        ],
+        ...appendStatusChange(answer, { timestamp: new Date(now), status: outcome, previousStatus: lastStatus }),
         lastModified: now,
         ...(reviewFeedback !== undefined ? { reviewFeedback } : {}),
         ...(outcome === 'achieved' ? { isGoodEnough: true } : {})
       };
     });
 
-    localStorage.setItem(key, JSON.stringify({ ...prog, answers: updatedAnswers, lastActivity: now }));
+    await storage.put(key, { ...prog, answers: updatedAnswers, lastActivity: now });
+    // The progress hook syncs the current unit itself; other units are pushed directly
     if (unitId === currentUnitId) refreshProgress();
+    else pushCachedProgress(unitId);
     setOverallProgressKey(k => k + 1);
+    autoBackup.requestBackup();
   };
 
-  const handleSubmitUnit = (unitId: string) => {
-    const key = `learning-assistant-progress-${unitId}`;
-    const saved = localStorage.getItem(key);
-    if (!saved) return;
+  const handleSubmitUnit = async (unitId: string) => {
+    const key = progressKey(unitId);
+    const prog = await storage.get<Progress>(key);
+    if (!prog) return;
 
-    const prog = JSON.parse(saved);
     const now = new Date().toISOString();
 
     const updatedAnswers = prog.answers.map((answer: any) => {
@@ -266,19 +350,18 @@ function App() {
       if (lastStatus === 'completed' || lastStatus === 'not-yet-achieved') {
         return {
           ...answer,
-          statusHistory: [
-            ...(answer.statusHistory || []),
-            { timestamp: now, status: 'submitted-for-review', previousStatus: lastStatus }
-          ],
+          ...appendStatusChange(answer, { timestamp: new Date(now), status: 'submitted-for-review', previousStatus: lastStatus }),
           lastModified: now
         };
       }
       return answer;
     });
 
-    localStorage.setItem(key, JSON.stringify({ ...prog, answers: updatedAnswers, lastActivity: now }));
+    await storage.put(key, { ...prog, answers: updatedAnswers, lastActivity: now });
     if (unitId === currentUnitId) refreshProgress();
+    else pushCachedProgress(unitId);
     setOverallProgressKey(k => k + 1);
+    autoBackup.requestBackup();
   };
 
   const handleRecordOutcome = (outcome: 'achieved' | 'not-yet-achieved', reviewFeedback?: string) => {
@@ -287,6 +370,7 @@ function App() {
       markTaskComplete(progress.currentTask);
       updateUnitProgress(currentUnitId, progress.completedTasks.length + 1);
     }
+    autoBackup.requestBackup();
   };
     
 
@@ -312,17 +396,69 @@ function App() {
             units={unitList}
             onSelectUnit={handleSelectUnit}
             onAddUnit={handleAddUnit}
+            onCreateUnit={() => handleOpenEditor(null)}
+            onEditUnit={handleOpenEditor}
             onLoadFromStorage={handleLoadFromStorage}
             onOpenSettings={() => setCurrentView('settings')}
             onViewOverallProgress={() => setCurrentView('overall-progress')}
-            onRemoveUnit={removeUnit}
+            onRemoveUnit={handleRemoveUnit}
+            onImportUnit={importUnit}
+            onOpenTrash={() => setCurrentView('trash')}
+            trashCount={trash.length}
             getUnit={getUnit}
           />
         );
+
+      case 'trash':
+        return (
+          <TrashBin
+            trash={trash}
+            activeUnitIds={unitList.map(u => u.id)}
+            onRestore={restoreUnit}
+            onPurge={purgeFromTrash}
+            onBack={() => setCurrentView('list')}
+          />
+        );
       
       case 'upload':
-        return <UnitUpload onUnitUploaded={handleUnitUploaded} onBack={() => setCurrentView('list')} />;
+        return (
+          <UnitUpload
+            onUnitUploaded={handleUnitUploaded}
+            onUnitsImported={handleUnitsImported}
+            onBriefImported={handleBriefImported}
+            onBack={() => setCurrentView('list')}
+            installedUnits={unitList}
+          />
+        );
       
+      case 'editor':
+        return (
+          <UnitEditor
+            key={editingUnitId ?? 'new'}
+            // Coming back from the upgrade screen continues with the edited version
+            unit={pendingUpgrade?.unit ?? (editingUnitId ? getUnit(editingUnitId) ?? undefined : importedBrief?.unit)}
+            isNew={!editingUnitId}
+            existingUnitIds={unitList.map(u => u.id)}
+            onSave={handleUnitSaved}
+            onCancel={() => setCurrentView('list')}
+            importWarnings={importedBrief?.warnings}
+          />
+        );
+
+      case 'upgrade': {
+        const oldUnit = pendingUpgrade && getUnit(pendingUpgrade.unit.id);
+        if (!pendingUpgrade || !oldUnit) return null;
+        return (
+          <UnitUpgrade
+            key={pendingUpgrade.unit.id}
+            oldUnit={oldUnit}
+            newUnit={pendingUpgrade.unit}
+            onApply={handleUpgradeApplied}
+            onCancel={() => setCurrentView(pendingUpgrade.returnView)}
+          />
+        );
+      }
+
       case 'load-storage':
         return <LoadFromStorage onProgressLoaded={handleProgressLoaded} onBack={() => setCurrentView('list')} />;
       
@@ -437,45 +573,81 @@ function App() {
               <button onClick={handleBackToList} className="text-xl font-semibold text-gray-900 hover:text-blue-600 transition-colors">
                 Learning Assistant
               </button>
-              {currentView !== 'list' && currentView !== 'upload' && currentView !== 'overview' && unitData && (
+              {currentView !== 'list' && currentView !== 'upload' && currentView !== 'editor' && currentView !== 'upgrade' && currentView !== 'overview' && unitData && (
                 <span className="ml-4 text-sm text-gray-600">
                   {unitData.title}
                 </span>
               )}
             </div>
             
-            {currentView !== 'list' && currentView !== 'upload' && currentView !== 'overview' && currentView !== 'settings' && (
-              <nav className="flex space-x-2">
-                <button
-                  onClick={() => setCurrentView('dashboard')}
-                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                    currentView === 'dashboard'
-                      ? 'bg-blue-100 text-blue-700'
-                      : 'text-gray-600 hover:text-gray-900'
-                  }`}
-                >
-                  Unit Dashboard
-                </button>
-                <button
-                  onClick={() => setCurrentView('overall-progress')}
-                  className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                    currentView === 'overall-progress'
-                      ? 'bg-blue-100 text-blue-700'
-                      : 'text-gray-600 hover:text-gray-900'
-                  }`}
-                >
-                  Overall Dashboard
-                </button>
-              </nav>
-            )}
+            <div className="flex items-center space-x-4">
+              {currentView !== 'list' && currentView !== 'upload' && currentView !== 'editor' && currentView !== 'upgrade' && currentView !== 'overview' && currentView !== 'settings' && currentView !== 'trash' && (
+                <nav className="flex space-x-2">
+                  <button
+                    onClick={() => setCurrentView('dashboard')}
+                    className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      currentView === 'dashboard'
+                        ? 'bg-blue-100 text-blue-700'
+                        : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    Unit Dashboard
+                  </button>
+                  <button
+                    onClick={() => setCurrentView('overall-progress')}
+                    className={`px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                      currentView === 'overall-progress'
+                        ? 'bg-blue-100 text-blue-700'
+                        : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    Overall Dashboard
+                  </button>
+                </nav>
+              )}
+              <BackupIndicator
+                lastBackup={autoBackup.lastBackup}
+                backingUp={autoBackup.backingUp}
+                showFailureWarning={autoBackup.showFailureWarning}
+                unavailable={autoBackup.unavailable}
+                lastError={autoBackup.lastError}
+                onBackupNow={autoBackup.backupNow}
+              />
+            </div>
           </div>
         </div>
       </header>
 
+      {/* Repeated backup failures would otherwise only show up in the console */}
+      {autoBackup.showFailureWarning && (
+        <div className="bg-red-50 border-b border-red-200">
+          <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between text-sm text-red-800">
+            <span>
+              Automatic backups have failed {autoBackup.failures} times in a row{autoBackup.lastError ? `: ${autoBackup.lastError}` : ''}
+            </span>
+            <button
+              onClick={autoBackup.backupNow}
+              disabled={autoBackup.backingUp}
+              className="ml-4 px-3 py-1 rounded-md bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              Retry now
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {renderCurrentView()}
       </main>
+
+      {removedUnit && (
+        <UndoToast
+          message={`"${removedUnit.title}" moved to the trash`}
+          onUndo={handleUndoRemove}
+          onDismiss={() => setRemovedUnit(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, GitCompare, RotateCcw, Eye, Columns, AlignLeft } from 'lucide-react';
+import { AnswerVersion, StudentAnswer } from '../types/Unit';
+import { getAnswerVersions } from '../utils/answerVersions';
+import { diffHtml, summarizeDiff, htmlToPlainText, DiffSegment } from '../utils/answerDiff';
+
+interface AnswerVersionHistoryProps {
+  answer?: StudentAnswer;
+  canRestore: boolean;
+  onRestore: (version: AnswerVersion) => void;
+}
+
+type DiffMode = 'inline' | 'side-by-side';
+
+export const AnswerVersionHistory: React.FC<AnswerVersionHistoryProps> = ({ answer, canRestore, onRestore }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [viewingVersion, setViewingVersion] = useState<number | null>(null);
+  const [diffMode, setDiffMode] = useState<DiffMode>('inline');
+
+  const versions = getAnswerVersions(answer);
+
+  if (versions.length === 0) return null;
+
+  // Until the student picks versions, compare the latest version against the one before it
+  const from = fromVersion !== null
+    ? versions.find(v => v.version === fromVersion)
+    : versions[versions.length - 2];
+  const to = toVersion !== null
+    ? versions.find(v => v.version === toVersion)
+    : versions[versions.length - 1];
+  const viewing = versions.find(v => v.version === viewingVersion);
+  const segments: DiffSegment[] = isExpanded && from && to ? diffHtml(from.content, to.content) : [];
+  const summary = summarizeDiff(segments);
+
+  const handleRestore = (version: AnswerVersion) => {
+    if (window.confirm(`Restore version ${version.version}? Your current answer will be kept as a previous version.`)) {
+      onRestore(version);
+    }
+  };
+
+  const renderSegments = (side: 'inline' | 'old' | 'new') => (
+    <div className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+      {segments.map((segment, index) => {
+        if (segment.type === 'equal') {
+          return <span key={index}>{segment.text}</span>;
+        }
+        if (segment.type === 'delete' && side !== 'new') {
+          return <del key={index} className="bg-red-100 text-red-800 decoration-red-400">{segment.text}</del>;
+        }
+        if (segment.type === 'insert' && side !== 'old') {
+          return <ins key={index} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>;
+        }
+        return null;
+      })}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border">
+      <div className={isExpanded ? "p-6" : "p-3"}>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <div className="flex items-center">
+            <GitCompare className="h-5 w-5 text-indigo-600 mr-2" />
+            <h2 className="text-sm font-medium text-gray-900">
+              Version History ({versions.length} version{versions.length !== 1 ? 's' : ''})
+            </h2>
+          </div>
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4 text-gray-500" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-gray-500" />
+          )}
+        </button>
+
+        {isExpanded && (
+          <div className="mt-4 space-y-4">
+            {/* Timeline */}
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {[...versions].reverse().map((version, index) => {
+                const isLatest = index === 0;
+                const wordCount = htmlToPlainText(version.content).split(/\s+/).filter(Boolean).length;
+                return (
+                  <div
+                    key={version.version}
+                    className={`flex items-center justify-between text-sm p-2 rounded border ${
+                      version.version === to?.version || version.version === from?.version
+                        ? 'bg-indigo-50 border-indigo-200'
+                        : 'bg-gray-50 border-transparent'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <span className="font-medium text-gray-900">v{version.version}</span>
+                      {isLatest && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-700">Current</span>
+                      )}
+                      <span className="text-gray-500">{version.timestamp.toLocaleString()}</span>
+                      <span className="text-xs text-gray-400">{wordCount} words</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <button
+                        onClick={() => setFromVersion(version.version)}
+                        className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+                          version.version === from?.version
+                            ? 'bg-red-100 text-red-700 border-red-200'
+                            : 'text-gray-600 border-gray-200 hover:bg-gray-100'
+                        }`}
+                        title="Compare from this version"
+                      >
+                        From
+                      </button>
+                      <button
+                        onClick={() => setToVersion(version.version)}
+                        className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+                          version.version === to?.version
+                            ? 'bg-green-100 text-green-700 border-green-200'
+                            : 'text-gray-600 border-gray-200 hover:bg-gray-100'
+                        }`}
+                        title="Compare to this version"
+                      >
+                        To
+                      </button>
+                      <button
+                        onClick={() => setViewingVersion(viewingVersion === version.version ? null : version.version)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="View this version"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                      {!isLatest && (
+                        <button
+                          onClick={() => handleRestore(version)}
+                          disabled={!canRestore}
+                          className="p-1 text-gray-400 hover:text-indigo-600 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                          title={canRestore ? 'Restore this version' : 'Answer is locked while submitted or achieved'}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Single version view */}
+            {viewing && (
+              <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+                <p className="text-xs font-medium text-gray-500 mb-2">
+                  Version {viewing.version} — {viewing.timestamp.toLocaleString()}
+                </p>
+                <div
+                  className="prose prose-sm max-w-none text-gray-800"
+                  dangerouslySetInnerHTML={{ __html: viewing.content }}
+                />
+              </div>
+            )}
+
+            {/* Diff */}
+            {from && to && from.version !== to.version && (
+              <div className="border border-gray-200 rounded-lg">
+                <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b">
+                  <div className="text-xs text-gray-600">
+                    Comparing <span className="font-medium text-red-700">v{from.version}</span> →{' '}
+                    <span className="font-medium text-green-700">v{to.version}</span>
+                    <span className="ml-3 text-green-700">+{summary.added}</span>
+                    <span className="ml-1 text-red-700">−{summary.removed}</span> words
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => setDiffMode('inline')}
+                      className={`p-1 rounded transition-colors ${diffMode === 'inline' ? 'bg-indigo-100 text-indigo-700' : 'text-gray-400 hover:text-gray-600'}`}
+                      title="Inline diff"
+                    >
+                      <AlignLeft className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setDiffMode('side-by-side')}
+                      className={`p-1 rounded transition-colors ${diffMode === 'side-by-side' ? 'bg-indigo-100 text-indigo-700' : 'text-gray-400 hover:text-gray-600'}`}
+                      title="Side-by-side diff"
+                    >
+                      <Columns className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="p-4 max-h-96 overflow-y-auto">
+                  {diffMode === 'inline' ? (
+                    renderSegments('inline')
+                  ) : (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="pr-4 border-r border-gray-200">
+                        <p className="text-xs font-medium text-red-700 mb-2">v{from.version}</p>
+                        {renderSegments('old')}
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium text-green-700 mb-2">v{to.version}</p>
+                        {renderSegments('new')}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState, useEffect } from 'react';
+import { HardDrive, AlertTriangle, RefreshCw, CloudOff } from 'lucide-react';
+
+interface BackupIndicatorProps {
+  lastBackup: Date | null;
+  backingUp: boolean;
+  showFailureWarning: boolean;
+  // The server isn't running, so there is no storage folder to back up to
+  unavailable: boolean;
+  lastError: string | null;
+  onBackupNow: () => void;
+}
+
+const formatAge = (date: Date, now: Date) => {
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return date.toLocaleDateString('en-GB');
+};
+
+export const BackupIndicator: React.FC<BackupIndicatorProps> = ({ lastBackup, backingUp, showFailureWarning, unavailable, lastError, onBackupNow }) => {
+  const [now, setNow] = useState(new Date());
+
+  // Keep the relative time current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const label = backingUp
+    ? 'Backing up...'
+    : unavailable
+    ? 'Auto-backup unavailable'
+    : lastBackup
+    ? `Backed up ${formatAge(lastBackup, now)}`
+    : 'Not backed up yet';
+
+  return (
+    <button
+      onClick={onBackupNow}
+      disabled={backingUp}
+      title={showFailureWarning && lastError
+        ? `Automatic backups are failing: ${lastError}\nClick to try again.`
+        : unavailable
+        ? 'Backups go to the storage folder, which needs the app server. Start it with "npm run server".\nClick to try again.'
+        : `${lastBackup ? `Last backup ${lastBackup.toLocaleString('en-GB')}` : 'No backup in the storage folder yet'}\nClick to back up now.`}
+      className={`flex items-center px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:cursor-wait ${
+        showFailureWarning
+          ? 'bg-red-50 text-red-700 hover:bg-red-100'
+          : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100'
+      }`}
+    >
+      {backingUp ? (
+        <RefreshCw className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+      ) : showFailureWarning ? (
+        <AlertTriangle className="h-3.5 w-3.5 mr-1.5" />
+      ) : unavailable ? (
+        <CloudOff className="h-3.5 w-3.5 mr-1.5" />
+      ) : (
+        <HardDrive className="h-3.5 w-3.5 mr-1.5" />
+      )}
+      {showFailureWarning && !backingUp ? 'Backups failing' : label}
+    </button>
+  );
+};
@@ -1,7 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Download, Calendar, FileText, AlertCircle, CheckCircle, Eye, X } from 'lucide-react';
-import { StorageFile, getStorageFiles, loadProgressFromStorage, importProgress, saveProgressToStorageFolder } from '../utils/storageExport';
-import type { ExportedProgress } from '../utils/storageExport';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Download, Calendar, FileText, AlertCircle, CheckCircle, Eye, X, GitMerge, AlertTriangle, PlusCircle, ArrowUpCircle, Trash2, GitCompare, Lock, ShieldCheck, Archive, FileUp, Save } from 'lucide-react';
+import { StorageFile, getStorageFiles, loadProgressFromStorage, loadUnitPackFromStorage, readUnitPackFile, deleteStorageFile, importProgressWithModes, previewMergeImport, saveProgressToStorageFolder, downloadUnitPack, saveUnitPackToStorageFolder, applyImportedSettings } from '../utils/storageExport';
+import { UNITPACK_EXTENSION, UnitPackContents } from '../utils/unitPack';
+import { replaceServerDataWithCache, ServerUnavailableError } from '../utils/serverStorage';
+import type { ExportedProgress, UnitImportPreview } from '../utils/storageExport';
+import { UnitImportMode, UNIT_IMPORT_MODES, resolveConflict } from '../utils/progressMerge';
+import { StudentAnswer } from '../types/Unit';
+import { SnapshotCompare } from './SnapshotCompare';
+import { PassphraseRequiredError, isBackupEncryptionEnabled } from '../utils/snapshotCrypto';
+import { MigrationReport, runMigrations, countMigrationChanges } from '../utils/migrations';
 
 interface LoadFromStorageProps {
   onBack: () => void;
@@ -17,6 +24,18 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
   const [previewFile, setPreviewFile] = useState<string | null>(null);
   const [previewData, setPreviewData] = useState<ExportedProgress | null>(null);
   const [loadingPreview, setLoadingPreview] = useState(false);
+  const [importPreview, setImportPreview] = useState<UnitImportPreview[]>([]);
+  const [importModes, setImportModes] = useState<Record<string, UnitImportMode>>({});
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ filename: string; wrongPassphrase: boolean } | null>(null);
+  const [passphraseInput, setPassphraseInput] = useState('');
+  // The archive being previewed, kept so loading it doesn't read it again and its settings are at hand
+  const [openedPack, setOpenedPack] = useState<{ name: string; contents: UnitPackContents } | null>(null);
+  const [restorePackSettings, setRestorePackSettings] = useState(false);
+  const [creatingPack, setCreatingPack] = useState(false);
+  const packInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     loadFiles();
@@ -26,41 +45,9 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
     try {
       setLoading(true);
       setError(null);
+      // The server summarises each snapshot, so nothing has to be downloaded to list them
       const storageFiles = await getStorageFiles();
-      
-      // Filter out settings.json file
-      const progressFiles = storageFiles.filter(file => file.name !== 'settings.json');
-      
-      // Load preview data for each file
-      const filesWithPreview = await Promise.all(
-        progressFiles.map(async (file) => {
-          try {
-            const progressData = await loadProgressFromStorage(file.name);
-            const totalTasks = Object.values(progressData.units).reduce(
-              (sum, unit) => sum + unit.unitSummary.totalTasks, 0
-            );
-            const completedTasks = Object.values(progressData.units).reduce(
-              (sum, unit) => sum + unit.unitSummary.completedTasks, 0
-            );
-            const progressPercentage = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
-            
-            return {
-              ...file,
-              preview: {
-                totalUnits: progressData.totalUnits,
-                totalTasks,
-                completedTasks,
-                progressPercentage
-              }
-            };
-          } catch (error) {
-            console.warn(`Failed to load preview for ${file.name}:`, error);
-            return file; // Return file without preview if loading fails
-          }
-        })
-      );
-      
-      setFiles(filesWithPreview.sort((a, b) => b.modified.getTime() - a.modified.getTime()));
+      setFiles(storageFiles.sort((a, b) => b.modified.getTime() - a.modified.getTime()));
     } catch (err) {
       console.warn('Failed to load storage files:', err);
       setFiles([]); // Set empty files instead of showing error
@@ -70,7 +57,7 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
     }
   };
 
-  const handleLoadProgress = async (filename: string) => {
+  const handleLoadProgress = async (filename: string, modes: Record<string, UnitImportMode>) => {
     try {
       setImporting(filename);
       setError(null);
@@ -84,8 +71,21 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
         // Continue with loading even if auto-save fails
       }
       
-      const progressData = await loadProgressFromStorage(filename);
-      importProgress(progressData);
+      const pack = openedPack?.name === filename ? openedPack.contents : null;
+      const progressData = pack ? pack.snapshot : await loadProgressFromStorage(filename);
+      await importProgressWithModes(progressData, modes);
+      if (pack?.settings && restorePackSettings) {
+        await applyImportedSettings(pack.settings);
+      }
+
+      // Otherwise the server copy would win over the imported data on reload
+      try {
+        await replaceServerDataWithCache();
+      } catch (syncError) {
+        if (!(syncError instanceof ServerUnavailableError)) {
+          console.warn('Failed to update server storage after import:', syncError);
+        }
+      }
       
       setSuccess(true);
       setTimeout(() => {
@@ -98,28 +98,126 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
     }
   };
 
-  const handlePreviewFile = async (filename: string) => {
+  const showPreview = async (progressData: ExportedProgress) => {
+    // Dry run so the user can see how an old backup will be upgraded; the import runs it again
+    setMigrationReport(runMigrations(progressData).report);
+    const unitPreviews = await previewMergeImport(progressData);
+    setImportPreview(unitPreviews);
+    // Restoring an old backup shouldn't silently drop newer work, so existing units default to merging
+    setImportModes(Object.fromEntries(
+      unitPreviews.filter(u => u.existsLocally).map(u => [u.unitId, 'merge-newest' as UnitImportMode])
+    ));
+    setPreviewData(progressData);
+  };
+
+  const closePreview = () => {
+    setPreviewFile(null);
+    setPreviewData(null);
+    setOpenedPack(null);
+    setRestorePackSettings(false);
+  };
+
+  const handlePreviewFile = async (filename: string, passphrase?: string) => {
     try {
       setLoadingPreview(true);
       setPreviewFile(filename);
-      const progressData = await loadProgressFromStorage(filename);
-      setPreviewData(progressData);
+      if (filename.endsWith(UNITPACK_EXTENSION)) {
+        const contents = await loadUnitPackFromStorage(filename);
+        setOpenedPack({ name: filename, contents });
+        await showPreview(contents.snapshot);
+        return;
+      }
+      // A passphrase that works is remembered for the session, so the import below won't ask again
+      const progressData = await loadProgressFromStorage(filename, passphrase);
+      setPassphrasePrompt(null);
+      await showPreview(progressData);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to preview file');
+      if (err instanceof PassphraseRequiredError) {
+        setPassphrasePrompt({ filename, wrongPassphrase: err.wrongPassphrase });
+        setPassphraseInput('');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to preview file');
+      }
       setPreviewFile(null);
     } finally {
       setLoadingPreview(false);
     }
   };
 
+  // Archives can also come straight from disk, e.g. one sent by someone else
+  const handleOpenPackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLoadingPreview(true);
+      setError(null);
+      const contents = await readUnitPackFile(file);
+      setOpenedPack({ name: file.name, contents });
+      setPreviewFile(file.name);
+      await showPreview(contents.snapshot);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open archive');
+      closePreview();
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handleCreatePack = async (target: 'download' | 'storage') => {
+    const encrypted = isBackupEncryptionEnabled();
+    if (encrypted && !confirm('Archives are not encrypted, even though your backups are. Anyone with the file can read your units and answers. Create it anyway?')) {
+      return;
+    }
+    try {
+      setCreatingPack(true);
+      setError(null);
+      if (target === 'download') {
+        await downloadUnitPack(encrypted);
+      } else {
+        await saveUnitPackToStorageFolder(encrypted);
+        await loadFiles();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create archive');
+    } finally {
+      setCreatingPack(false);
+    }
+  };
+
+  const handleSubmitPassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrasePrompt && passphraseInput) {
+      handlePreviewFile(passphrasePrompt.filename, passphraseInput);
+    }
+  };
+
+  const handleDeleteFile = async (filename: string) => {
+    if (!confirm(`Delete ${filename} from the storage folder? This cannot be undone.`)) return;
+    try {
+      setDeleting(filename);
+      setError(null);
+      await deleteStorageFile(filename);
+      setFiles(prev => prev.filter(file => file.name !== filename));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete file');
+    } finally {
+      setDeleting(null);
+    }
+  };
+
   const handleConfirmLoad = async () => {
     if (previewFile && previewData) {
       setPreviewFile(null);
       setPreviewData(null);
-      await handleLoadProgress(previewFile);
+      await handleLoadProgress(previewFile, importModes);
+      setOpenedPack(null);
     }
   };
 
+  // Damaged snapshots can still be deleted, but not loaded
+  const isDamaged = (file: StorageFile) => file.integrity === 'corrupted' || file.integrity === 'incomplete';
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -136,6 +234,89 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
     return `${completed} completed tasks, ${totalAnswers} total answers`;
   };
 
+  const getAnswerStatus = (answer: StudentAnswer) => {
+    const history = answer.statusHistory || [];
+    if (history.length > 0) return history[history.length - 1].status.replace(/-/g, ' ');
+    return answer.isGoodEnough ? 'completed' : 'in progress';
+  };
+
+  const renderAnswerSide = (answer: StudentAnswer, kept: boolean) => (
+    <div className={`p-2 rounded border ${kept ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200 opacity-70'}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">v{answer.version}</span>
+        {kept && <span className="text-green-700 font-medium">kept</span>}
+      </div>
+      <div className="text-gray-500">{answer.lastModified ? new Date(answer.lastModified).toLocaleString() : 'Unknown date'}</div>
+      <div className="text-gray-600 capitalize">{getAnswerStatus(answer)} · {answer.statusHistory?.length || 0} status change{answer.statusHistory?.length === 1 ? '' : 's'}</div>
+    </div>
+  );
+
+  const renderImportOptions = (unitId: string) => {
+    const unitPreview = importPreview.find(u => u.unitId === unitId);
+    if (!unitPreview) return null;
+
+    if (!unitPreview.existsLocally) {
+      return (
+        <div className="mt-3 pt-3 border-t border-gray-100 flex items-center text-sm text-green-700">
+          <PlusCircle className="h-4 w-4 mr-2" />
+          New unit — will be added
+        </div>
+      );
+    }
+
+    const mode = importModes[unitId] || 'merge-newest';
+    return (
+      <div className="mt-3 pt-3 border-t border-gray-100 space-y-3">
+        <div className="flex items-center flex-wrap gap-2">
+          <GitMerge className="h-4 w-4 text-gray-500" />
+          {UNIT_IMPORT_MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => setImportModes(prev => ({ ...prev, [unitId]: option.mode }))}
+              title={option.description}
+              className={`px-3 py-1 rounded-lg text-xs border transition-colors ${
+                mode === option.mode
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-gray-600">
+          {unitPreview.conflicts.length} conflicting answer{unitPreview.conflicts.length !== 1 ? 's' : ''}
+          {' · '}{unitPreview.newAnswers} only in backup
+          {' · '}{unitPreview.localOnlyAnswers} only in app{mode === 'replace' && unitPreview.localOnlyAnswers > 0 ? ' (will be removed)' : ' (kept)'}
+        </div>
+        {unitPreview.conflicts.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center text-xs font-medium text-amber-700">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              Changed on both sides
+            </div>
+            {unitPreview.conflicts.map(conflict => {
+              const winner = resolveConflict(conflict, mode);
+              return (
+                <div key={conflict.taskId} className="grid grid-cols-[4rem_1fr_1fr] gap-2 items-start text-xs">
+                  <span className="font-medium text-gray-900 pt-2">Task {conflict.taskId}</span>
+                  <div>
+                    <div className="text-gray-500 mb-1">In app</div>
+                    {renderAnswerSide(conflict.local, winner === 'local')}
+                  </div>
+                  <div>
+                    <div className="text-gray-500 mb-1">Backup</div>
+                    {renderAnswerSide(conflict.imported, winner === 'imported')}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (success) {
     return (
       <div className="max-w-2xl mx-auto space-y-6">
@@ -150,6 +331,10 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
   }
 
   // Preview Modal
+  if (compareMode) {
+    return <SnapshotCompare files={files} onBack={() => setCompareMode(false)} />;
+  }
+
   if (previewFile && previewData) {
     return (
       <div className="max-w-4xl mx-auto space-y-6">
@@ -157,10 +342,7 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
         <div className="bg-white rounded-xl shadow-sm border p-6">
           <div className="flex items-center justify-between mb-4">
             <button
-              onClick={() => {
-                setPreviewFile(null);
-                setPreviewData(null);
-              }}
+              onClick={closePreview}
               className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
             >
               <X className="h-4 w-4 mr-2" />
@@ -256,11 +438,71 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
                     </div>
                   </div>
                 )}
+
+                {renderImportOptions(unitId)}
               </div>
             ))}
           </div>
         </div>
 
+        {migrationReport && migrationReport.steps.length > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
+            <div className="flex items-start">
+              <ArrowUpCircle className="h-5 w-5 text-blue-600 mr-3 mt-0.5" />
+              <div className="flex-1">
+                <h3 className="font-medium text-blue-900 mb-1">
+                  Backup will be upgraded from schema v{migrationReport.fromVersion} to v{migrationReport.toVersion}
+                </h3>
+                <p className="text-sm text-blue-800 mb-3">
+                  {countMigrationChanges(migrationReport) === 0
+                    ? 'No data needs to change.'
+                    : `${countMigrationChanges(migrationReport)} change${countMigrationChanges(migrationReport) === 1 ? '' : 's'} will be applied while loading.`}
+                </p>
+                <ul className="space-y-2 text-sm">
+                  {migrationReport.steps.map(step => (
+                    <li key={step.version}>
+                      <div className="font-medium text-blue-900">
+                        v{step.version} {step.name} · {step.changes.length} change{step.changes.length === 1 ? '' : 's'}
+                      </div>
+                      {step.changes.length > 0 && (
+                        <ul className="mt-1 ml-4 list-disc text-blue-800 max-h-32 overflow-y-auto">
+                          {step.changes.map((change, index) => <li key={index}>{change}</li>)}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {openedPack && (
+          <div className="bg-white rounded-xl shadow-sm border p-6">
+            <div className="flex items-start">
+              <Archive className="h-5 w-5 text-indigo-600 mr-3 mt-0.5" />
+              <div className="flex-1 text-sm">
+                <h3 className="font-medium text-gray-900 mb-1">Archive contents</h3>
+                <p className="text-gray-600">
+                  {openedPack.contents.manifest.assets.length} embedded image{openedPack.contents.manifest.assets.length === 1 ? '' : 's'}
+                  {' · '}{openedPack.contents.settings ? 'includes settings' : 'no settings'}
+                </p>
+                {openedPack.contents.settings && (
+                  <label className="flex items-center mt-3 text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={restorePackSettings}
+                      onChange={(e) => setRestorePackSettings(e.target.checked)}
+                      className="mr-2"
+                    />
+                    Also replace my settings with the ones in this archive
+                  </label>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Warning */}
         <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
           <div className="flex items-start">
@@ -268,8 +510,8 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
             <div>
               <h3 className="font-medium text-yellow-800 mb-1">Important Notice</h3>
               <p className="text-sm text-yellow-700">
-                Loading this file will replace your current progress. Your current progress will be automatically 
-                saved to storage as a backup before loading.
+                Units in this file are replaced or merged as chosen above; units that aren't in the file are left as they are.
+                Your current progress will be automatically saved to storage as a backup before loading.
               </p>
             </div>
           </div>
@@ -278,10 +520,7 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
         {/* Action Buttons */}
         <div className="flex justify-center space-x-4">
           <button
-            onClick={() => {
-              setPreviewFile(null);
-              setPreviewData(null);
-            }}
+            onClick={closePreview}
             className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
           >
             Cancel
@@ -322,8 +561,89 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
           <h1 className="text-2xl font-bold text-gray-900 mb-2">Load from Storage</h1>
           <p className="text-gray-600">Select a progress file from the storage folder to restore your learning data</p>
         </div>
+
+        <div className="flex flex-wrap justify-center gap-3 mt-6">
+          <button
+            onClick={() => packInputRef.current?.click()}
+            disabled={loadingPreview}
+            className="flex items-center px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            Open {UNITPACK_EXTENSION} File
+          </button>
+          <input
+            ref={packInputRef}
+            type="file"
+            accept={UNITPACK_EXTENSION}
+            onChange={handleOpenPackFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => handleCreatePack('download')}
+            disabled={creatingPack}
+            className="flex items-center px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            title="Units, progress, settings and embedded images in one archive"
+          >
+            <Archive className="h-4 w-4 mr-2" />
+            Download Archive
+          </button>
+          <button
+            onClick={() => handleCreatePack('storage')}
+            disabled={creatingPack}
+            className="flex items-center px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save Archive to Storage
+          </button>
+        </div>
       </div>
 
+      {/* Passphrase Prompt */}
+      {passphrasePrompt && (
+        <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+          <form onSubmit={handleSubmitPassphrase} className="bg-white rounded-xl shadow-xl max-w-md w-full p-6 space-y-4">
+            <div className="flex items-center">
+              <Lock className="h-6 w-6 text-blue-600 mr-3" />
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Encrypted Snapshot</h2>
+                <p className="text-sm text-gray-600 break-all">{passphrasePrompt.filename}</p>
+              </div>
+            </div>
+            <p className="text-sm text-gray-600">Enter the passphrase this snapshot was saved with.</p>
+            <input
+              type="password"
+              autoFocus
+              value={passphraseInput}
+              onChange={(e) => setPassphraseInput(e.target.value)}
+              placeholder="Passphrase"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            {passphrasePrompt.wrongPassphrase && (
+              <p className="flex items-center text-sm text-red-700">
+                <AlertCircle className="h-4 w-4 mr-1" />
+                The passphrase is wrong or the file has been modified.
+              </p>
+            )}
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setPassphrasePrompt(null)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!passphraseInput || loadingPreview}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loadingPreview ? 'Unlocking...' : 'Unlock'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-xl p-4">
@@ -336,7 +656,18 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
 
       {/* Files List */}
       <div className="bg-white rounded-xl shadow-sm border p-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">Available Progress Files</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Available Progress Files</h2>
+          {files.length >= 2 && (
+            <button
+              onClick={() => setCompareMode(true)}
+              className="flex items-center px-3 py-1.5 text-sm border border-indigo-300 text-indigo-700 rounded-lg hover:bg-indigo-50 transition-colors"
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              Compare Snapshots
+            </button>
+          )}
+        </div>
         
         {loading ? (
           <div className="text-center py-8">
@@ -359,7 +690,43 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
                 <div className="flex items-center flex-1">
                   <FileText className="h-8 w-8 text-blue-600 mr-4" />
                   <div className="flex-1">
-                    <h3 className="font-medium text-gray-900">{file.name}</h3>
+                    <h3 className="flex items-center font-medium text-gray-900">
+                      {file.name}
+                      {file.legacy && (
+                        <span
+                          className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800"
+                          title={`Split into ${file.files?.length || 0} files by an older version. It can still be loaded.`}
+                        >
+                          Legacy
+                        </span>
+                      )}
+                      {file.format === 'unitpack' && (
+                        <span className="flex items-center ml-2 px-2 py-0.5 rounded text-xs font-medium bg-indigo-100 text-indigo-800">
+                          <Archive className="h-3 w-3 mr-1" />
+                          Archive
+                        </span>
+                      )}
+                      {file.encrypted && (
+                        <span className="flex items-center ml-2 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                          <Lock className="h-3 w-3 mr-1" />
+                          Encrypted
+                        </span>
+                      )}
+                      {file.integrity === 'verified' && (
+                        <span title="Checksum verified">
+                          <ShieldCheck className="h-4 w-4 ml-2 text-green-600" />
+                        </span>
+                      )}
+                    </h3>
+                    {isDamaged(file) && (
+                      <div className="flex items-start mt-1 text-sm text-red-700">
+                        <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+                        <span>
+                          {file.integrity === 'incomplete' ? 'Incomplete snapshot' : 'Damaged snapshot'}
+                          {file.problems && file.problems.length > 0 && `: ${file.problems.join('; ')}`}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
                       <div className="flex items-center">
                         <Calendar className="h-4 w-4 mr-1" />
@@ -383,7 +750,7 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
                 
                 <button
                   onClick={() => handlePreviewFile(file.name)}
-                  disabled={loadingPreview}
+                  disabled={loadingPreview || isDamaged(file)}
                   className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center mr-2"
                 >
                   {loadingPreview ? (
@@ -398,6 +765,14 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
                     </>
                   )}
                 </button>
+                <button
+                  onClick={() => handleDeleteFile(file.name)}
+                  disabled={deleting === file.name}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Delete snapshot"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
               </div>
             ))}
           </div>
@@ -410,13 +785,13 @@ export const LoadFromStorage: React.FC<LoadFromStorageProps> = ({ onBack, onProg
         <div className="text-sm text-blue-800 space-y-2">
           <p>Loading progress from storage will:</p>
           <ul className="list-disc list-inside space-y-1 ml-4">
-            <li>Replace your current progress with the selected file</li>
-            <li>Restore all unit summaries and completion status</li>
+            <li>Replace or merge each unit in the file, as chosen in the preview</li>
+            <li>Show answers that changed both here and in the file before anything is written</li>
             <li>Restore all answers and feedback for each task</li>
             <li>Maintain your learning history and timestamps</li>
           </ul>
           <p className="mt-3 font-medium text-blue-900">
-            Warning: This will overwrite your current progress. Make sure to save your current progress first if needed.
+            Units set to "Replace" are overwritten. Your current progress is saved to storage first as a backup.
           </p>
         </div>
       </div>
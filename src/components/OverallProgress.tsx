@@ -1,7 +1,11 @@
-import React, { useState } from 'react';
-import { ArrowLeft, CheckCircle, MessageCircle, ChevronDown, ChevronRight } from 'lucide-react';
-import { UnitSummary, TaskStatus, StudentAnswer } from '../types/Unit';
-import { getTimestampForStatus, getLatestTimestampForStatus } from '../utils/taskStatus';
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, CheckCircle, MessageCircle, ChevronDown, ChevronRight, Eye, X, FileDown } from 'lucide-react';
+import { UnitSummary, TaskStatus, StudentAnswer, Progress } from '../types/Unit';
+import { getTimestampForStatus, getLatestTimestampForStatus, getStatusChange, getLatestStatusChange } from '../utils/taskStatus';
+import { getAnswerVersion, deserializeAnswerVersions } from '../utils/answerVersions';
+import { diffHtml } from '../utils/answerDiff';
+import { exportSubmission, SubmissionFormat } from '../utils/submissionExport';
+import { storage, progressKey } from '../utils/storageBackend';
 
 interface OverallProgressProps {
   units: UnitSummary[];
@@ -29,11 +33,39 @@ interface TaskRow {
   answer?: StudentAnswer;
 }
 
+interface SnapshotSelection {
+  unitId: string;
+  taskId: string;
+  historyIndex: number; // index into the answer's statusHistory
+}
+
+const getStatusLabel = (status: TaskStatus) =>
+  STATUS_COLUMNS.find(col => col.status === status)?.label || status.replace(/-/g, ' ');
+
 export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit, onBack, onSubmitUnit, onTaskSelect, onRecordOutcome }) => {
   const [activeOutcomeKey, setActiveOutcomeKey] = useState<string | null>(null); // "unitId:taskId"
   const [showFeedbackFor, setShowFeedbackFor] = useState<string | null>(null);   // "unitId:taskId"
   const [feedbackInput, setFeedbackInput] = useState('');
   const [expandedUnits, setExpandedUnits] = useState<Set<string>>(new Set());
+  const [snapshotSelection, setSnapshotSelection] = useState<SnapshotSelection | null>(null);
+  const [showSnapshotDiff, setShowSnapshotDiff] = useState(false);
+  const [exportMenuFor, setExportMenuFor] = useState<string | null>(null); // unitId
+  const [progressByUnit, setProgressByUnit] = useState<Record<string, Progress | null> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(units.map(async u => [u.id, await storage.get<Progress>(progressKey(u.id))] as const))
+      .then(entries => {
+        if (!cancelled) setProgressByUnit(Object.fromEntries(entries));
+      })
+      .catch(error => {
+        console.error('Error loading progress:', error);
+        if (!cancelled) setProgressByUnit({});
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [units]);
 
   const toggleUnit = (unitId: string) => {
     setExpandedUnits(prev => {
@@ -51,8 +83,7 @@ export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit
     const unit = getUnit(unitSummary.id);
     if (!unit) return;
 
-    const progressData = localStorage.getItem(`learning-assistant-progress-${unitSummary.id}`);
-    const rawProgress = progressData ? JSON.parse(progressData) : null;
+    const rawProgress = progressByUnit?.[unitSummary.id] || null;
 
     // Deserialise dates in statusHistory
     const answers: StudentAnswer[] = (rawProgress?.answers || []).map((a: any) => ({
@@ -63,6 +94,7 @@ export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit
         ...c,
         timestamp: new Date(c.timestamp),
       })),
+      versions: deserializeAnswerVersions(a.versions),
     }));
 
     // Deduplicate tasks — each task shown under the last LO it appears in
@@ -121,6 +153,119 @@ export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit
   // Group rows by unit for display
   const unitIds = [...new Set(taskRows.map(r => r.unitId))];
 
+  const handleExportSubmission = (unitId: string, format: SubmissionFormat) => {
+    setExportMenuFor(null);
+    const unit = getUnit(unitId);
+    if (!unit) return;
+    const answers = taskRows
+      .filter(r => r.unitId === unitId && r.answer)
+      .map(r => r.answer as StudentAnswer);
+    try {
+      exportSubmission(unit, answers, format);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to export submission');
+    }
+  };
+
+  const openSnapshot = (row: TaskRow, status: TaskStatus, latest: boolean) => {
+    const history = row.answer?.statusHistory || [];
+    const change = latest ? getLatestStatusChange(row.answer, status) : getStatusChange(row.answer, status);
+    const historyIndex = change ? history.indexOf(change) : -1;
+    if (historyIndex < 0) return;
+    setSnapshotSelection({ unitId: row.unitId, taskId: row.taskId, historyIndex });
+    setShowSnapshotDiff(false);
+  };
+
+  const renderSnapshotModal = () => {
+    if (!snapshotSelection) return null;
+    const row = taskRows.find(r => r.unitId === snapshotSelection.unitId && r.taskId === snapshotSelection.taskId);
+    const history = row?.answer?.statusHistory || [];
+    const frozenEntries = history
+      .map((change, index) => ({ change, index }))
+      .filter(entry => entry.change.answerVersion !== undefined);
+    const selected = history[snapshotSelection.historyIndex];
+    if (!row || !selected || selected.answerVersion === undefined) return null;
+
+    const version = getAnswerVersion(row.answer, selected.answerVersion);
+    const selectedPosition = frozenEntries.findIndex(entry => entry.index === snapshotSelection.historyIndex);
+    const previousEntry = selectedPosition > 0 ? frozenEntries[selectedPosition - 1] : undefined;
+    const previousVersion = previousEntry?.change.answerVersion !== undefined
+      ? getAnswerVersion(row.answer, previousEntry.change.answerVersion)
+      : undefined;
+
+    return (
+      <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4" onClick={() => setSnapshotSelection(null)}>
+        <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={e => e.stopPropagation()}>
+          <div className="flex items-center justify-between px-6 py-4 border-b">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Task {row.taskId} — {getStatusLabel(selected.status)}</h2>
+              <p className="text-xs text-gray-500">
+                Answer v{selected.answerVersion} frozen {selected.timestamp.toLocaleString('en-GB')}
+              </p>
+            </div>
+            <button onClick={() => setSnapshotSelection(null)} className="p-1 text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Review cycles */}
+          <div className="px-6 py-3 border-b flex flex-wrap gap-2">
+            {frozenEntries.map(({ change, index }) => {
+              const col = STATUS_COLUMNS.find(c => c.status === change.status);
+              const isSelected = index === snapshotSelection.historyIndex;
+              return (
+                <button
+                  key={index}
+                  onClick={() => setSnapshotSelection({ ...snapshotSelection, historyIndex: index })}
+                  className={`px-2 py-1 rounded-lg text-xs border transition-colors ${
+                    isSelected ? `${col?.color || 'bg-gray-500'} text-white border-transparent` : 'bg-gray-50 text-gray-600 border-gray-200 hover:bg-gray-100'
+                  }`}
+                >
+                  {getStatusLabel(change.status)} · {change.timestamp.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })} · v{change.answerVersion}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="px-6 py-4 overflow-y-auto flex-1">
+            {previousVersion && previousVersion.version !== version?.version && (
+              <label className="flex items-center text-xs text-gray-600 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showSnapshotDiff}
+                  onChange={e => setShowSnapshotDiff(e.target.checked)}
+                  className="mr-2"
+                />
+                Show changes since {getStatusLabel(previousEntry!.change.status).toLowerCase()} (v{previousVersion.version})
+              </label>
+            )}
+            {!version ? (
+              <p className="text-sm text-gray-500 italic">This version is no longer available.</p>
+            ) : showSnapshotDiff && previousVersion ? (
+              <div className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+                {diffHtml(previousVersion.content, version.content).map((segment, index) =>
+                  segment.type === 'equal' ? <span key={index}>{segment.text}</span>
+                  : segment.type === 'insert' ? <ins key={index} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>
+                  : <del key={index} className="bg-red-100 text-red-800">{segment.text}</del>
+                )}
+              </div>
+            ) : (
+              <div className="prose prose-sm max-w-none text-gray-800" dangerouslySetInnerHTML={{ __html: version.content }} />
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  if (!progressByUnit) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -218,14 +363,39 @@ export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit
                 </span>
                 <span className="text-xs text-gray-400">{rows.length} task{rows.length !== 1 ? 's' : ''}</span>
               </div>
-              {canSubmit && (
-                <button
-                  onClick={e => { e.stopPropagation(); onSubmitUnit(unitId); }}
-                  className="flex items-center px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors"
-                >
-                  Submit for Review
-                </button>
-              )}
+              <div className="flex items-center space-x-2" onClick={e => e.stopPropagation()}>
+                <div className="relative">
+                  <button
+                    onClick={() => setExportMenuFor(exportMenuFor === unitId ? null : unitId)}
+                    className="flex items-center px-3 py-1.5 bg-white border border-gray-300 text-gray-700 text-sm rounded-lg hover:bg-gray-50 transition-colors"
+                    title="Compile every answer in this unit into one document"
+                  >
+                    <FileDown className="h-4 w-4 mr-1" />
+                    Export submission
+                  </button>
+                  {exportMenuFor === unitId && (
+                    <div className="absolute right-0 mt-1 w-44 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+                      <button onClick={() => handleExportSubmission(unitId, 'doc')} className="block w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100">
+                        Word document (.doc)
+                      </button>
+                      <button onClick={() => handleExportSubmission(unitId, 'pdf')} className="block w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100">
+                        PDF (print)
+                      </button>
+                      <button onClick={() => handleExportSubmission(unitId, 'html')} className="block w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100">
+                        Web page (.html)
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {canSubmit && (
+                  <button
+                    onClick={() => onSubmitUnit(unitId)}
+                    className="flex items-center px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors"
+                  >
+                    Submit for Review
+                  </button>
+                )}
+              </div>
             </div>
             {isExpanded && <div className="overflow-x-auto">
               <table className="w-full text-sm">
@@ -259,6 +429,20 @@ export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit
                           ? getLatestTimestampForStatus(row.answer, col.status)
                           : getTimestampForStatus(row.answer, col.status);
                         const reached = !!ts;
+                        const change = usesLatest
+                          ? getLatestStatusChange(row.answer, col.status)
+                          : getStatusChange(row.answer, col.status);
+                        const hasSnapshot = change?.answerVersion !== undefined;
+                        const viewSnapshotButton = hasSnapshot && (
+                          <button
+                            onClick={e => { e.stopPropagation(); openSnapshot(row, col.status, usesLatest); }}
+                            className="mt-1 inline-flex items-center text-xs text-gray-500 hover:text-gray-800 transition-colors"
+                            title="View the answer as it was at this point"
+                          >
+                            <Eye className="h-3 w-3 mr-1" />
+                            v{change?.answerVersion}
+                          </button>
+                        );
 
                         // Stale = part of a review cycle superseded by a later re-completion
                         const latestCompletedTs = getLatestTimestampForStatus(row.answer, 'completed');
@@ -279,24 +463,30 @@ export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit
                           >
                             {reached ? (
                               isStale ? (
-                                <div className="bg-gray-300 rounded-lg p-2 mx-1 opacity-50">
-                                  <p className="text-gray-600 text-xs font-medium leading-tight line-through">
-                                    {ts.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })}
-                                  </p>
-                                  <p className="text-gray-500 text-xs">
-                                    {ts.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
-                                  </p>
-                                </div>
+                                <>
+                                  <div className="bg-gray-300 rounded-lg p-2 mx-1 opacity-50">
+                                    <p className="text-gray-600 text-xs font-medium leading-tight line-through">
+                                      {ts.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })}
+                                    </p>
+                                    <p className="text-gray-500 text-xs">
+                                      {ts.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                                    </p>
+                                  </div>
+                                  {viewSnapshotButton}
+                                </>
                               ) : (
-                                <div className={`${col.color} rounded-lg p-2 mx-1 ${isActionable ? 'cursor-pointer hover:opacity-80' : ''}`}>
-                                  <p className="text-white text-xs font-medium leading-tight">
-                                    {ts.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })}
-                                  </p>
-                                  <p className="text-white/80 text-xs">
-                                    {ts.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
-                                  </p>
-                                  {isActionable && <p className="text-white/70 text-xs mt-1">click to record outcome</p>}
-                                </div>
+                                <>
+                                  <div className={`${col.color} rounded-lg p-2 mx-1 ${isActionable ? 'cursor-pointer hover:opacity-80' : ''}`}>
+                                    <p className="text-white text-xs font-medium leading-tight">
+                                      {ts.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })}
+                                    </p>
+                                    <p className="text-white/80 text-xs">
+                                      {ts.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                                    </p>
+                                    {isActionable && <p className="text-white/70 text-xs mt-1">click to record outcome</p>}
+                                  </div>
+                                  {viewSnapshotButton}
+                                </>
                               )
                             ) : (
                               <div className="bg-gray-100 rounded-lg p-2 mx-1 h-[44px]" />
@@ -368,6 +558,8 @@ export const OverallProgress: React.FC<OverallProgressProps> = ({ units, getUnit
         </div>
       )}
 
+      {renderSnapshotModal()}
+
       {/* Legend */}
       <div className="flex flex-wrap gap-3 text-xs text-gray-600">
         {STATUS_COLUMNS.map(col => (
@@ -1,31 +1,35 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, Settings as SettingsIcon, Save, RotateCcw, CheckCircle, AlertCircle, Plus, Trash2, GripVertical, Clock, Download, Monitor, Apple, Smartphone } from 'lucide-react';
+import { ArrowLeft, Settings as SettingsIcon, Save, RotateCcw, CheckCircle, AlertCircle, Plus, Trash2, GripVertical, Clock, Download, Monitor, Apple, Smartphone, Archive, HardDrive, Lock } from 'lucide-react';
 import { DEFAULT_EXAMPLE_QUESTIONS } from '../constants/defaultQuestions';
+import { AutoBackupSettings, SettingsData, SnapshotRetentionPolicy, WorkingHours, WorkingPeriod } from '../types/Settings';
+import { ServerUnavailableError, fetchServerSettings, saveServerSettings } from '../utils/serverStorage';
+import { cacheSettingsLocally } from '../utils/settingsCache';
+import { getBackupPassphrase, setBackupPassphrase, isBackupPassphraseRemembered, isBackupEncryptionEnabled, MIN_PASSPHRASE_LENGTH } from '../utils/snapshotCrypto';
+import { DEFAULT_AUTO_BACKUP_SETTINGS, MIN_INTERVAL_MINUTES, loadAutoBackupSettings } from '../hooks/useAutoBackup';
+import { DEFAULT_TRASH_RETENTION_DAYS, MIN_TRASH_RETENTION_DAYS, MAX_TRASH_RETENTION_DAYS, loadTrashRetentionDays } from '../utils/unitTrash';
+import { StoragePanel } from './StoragePanel';
 
 interface SettingsProps {
   onBack: () => void;
 }
 
-interface WorkingPeriod {
-  id: string;
-  startTime: string;
-  endTime: string;
-}
-
-interface WorkingHours {
-  [key: string]: WorkingPeriod[];
-}
-
-interface SettingsData {
-  feedbackServiceUrl: string;
-  exampleQuestions: string[];
-  workingHours: WorkingHours;
-}
 export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
   const [feedbackServiceUrl, setFeedbackServiceUrl] = useState('');
   const [exampleQuestions, setExampleQuestions] = useState<string[]>([]);
   const [newQuestion, setNewQuestion] = useState('');
   const [workingHours, setWorkingHours] = useState<WorkingHours>({});
+  // Never written to settings.json, which sits in the storage folder next to the encrypted files
+  const [backupPassphrase, setBackupPassphraseInput] = useState(() => getBackupPassphrase() || '');
+  const [confirmPassphrase, setConfirmPassphrase] = useState(() => getBackupPassphrase() || '');
+  const [rememberPassphrase, setRememberPassphrase] = useState(isBackupPassphraseRemembered);
+  // An empty field only turns encryption off when it was cleared here, not because this session
+  // hasn't been given the passphrase yet
+  const [passphraseEdited, setPassphraseEdited] = useState(false);
+  const [autoBackup, setAutoBackup] = useState<AutoBackupSettings>(loadAutoBackupSettings);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(loadTrashRetentionDays);
+  const [snapshotRetention, setSnapshotRetention] = useState<SnapshotRetentionPolicy>({
+    enabled: false, keepLast: 10, keepDailyDays: 30, keepWeeklyWeeks: 52
+  });
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -54,56 +58,25 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     sunday: []
   };
 
-  const loadSettingsFromStorage = async (): Promise<SettingsData | null> => {
-    try {
-      const response = await fetch('/api/load-progress/settings.json');
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null; // Settings file doesn't exist yet
-        }
-        throw new Error(`Failed to load settings: ${response.status}`);
-      }
-      const result = await response.json();
-      return result.data;
-    } catch (error) {
-      console.warn('Failed to load settings from storage:', error);
-      return null;
-    }
+  // Off by default so existing snapshot folders aren't pruned until the user opts in
+  const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetentionPolicy = {
+    enabled: false,
+    keepLast: 10,
+    keepDailyDays: 30,
+    keepWeeklyWeeks: 52
   };
 
-  const saveSettingsToStorage = async (settings: SettingsData): Promise<void> => {
-    try {
-      const response = await fetch('/api/save-progress', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          fileName: 'settings.json',
-          content: JSON.stringify(settings, null, 2)
-        })
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.text();
-        throw new Error(`Server error: ${response.status} - ${errorData}`);
-      }
-    } catch (error) {
-      console.error('Error saving settings to storage:', error);
-      if (error.message.includes('fetch') || error.message.includes('Failed to fetch') || error.name === 'TypeError') {
-        throw new Error('Backend server not running. Please open a second terminal and run "npm run server" to start the Express server, then try again.');
-      }
-      throw error;
-    }
-  };
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const settings = await loadSettingsFromStorage();
+        const settings = await fetchServerSettings();
         if (settings) {
           setFeedbackServiceUrl(settings.feedbackServiceUrl || DEFAULT_URL);
-          setExampleQuestions(settings.exampleQuestions || DEFAULT_QUESTIONS);
+          setExampleQuestions(settings.exampleQuestions || DEFAULT_EXAMPLE_QUESTIONS);
           setWorkingHours(settings.workingHours || DEFAULT_WORKING_HOURS);
+          setSnapshotRetention(settings.snapshotRetention || DEFAULT_SNAPSHOT_RETENTION);
+          if (settings.autoBackup) setAutoBackup(settings.autoBackup);
+          if (settings.trashRetentionDays) setTrashRetentionDays(settings.trashRetentionDays);
         } else {
           // Use defaults if no settings file exists
           setFeedbackServiceUrl(DEFAULT_URL);
@@ -142,28 +115,44 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
       return;
     }
 
+    if (backupPassphrase && backupPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`The backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+
+    if (backupPassphrase !== confirmPassphrase) {
+      setError('The backup passphrases do not match');
+      return;
+    }
+
     setSaving(true);
     setError(null);
 
     try {
-      const settings: SettingsData = {
+      const settings: Omit<SettingsData, 'version'> = {
         feedbackServiceUrl,
         exampleQuestions,
-        workingHours
+        workingHours,
+        snapshotRetention,
+        autoBackup,
+        trashRetentionDays
       };
-      
-      // Save to localStorage (primary storage)
-      localStorage.setItem('learning-assistant-feedback-service-url', feedbackServiceUrl);
-      localStorage.setItem('learning-assistant-example-questions', JSON.stringify(exampleQuestions));
-      localStorage.setItem('learning-assistant-working-hours', JSON.stringify(workingHours));
-      
-      // Try to save to storage file (secondary, silent failure)
+
+      // The server validates the settings; without a server they are only kept in this browser
       try {
-        await saveSettingsToStorage(settings);
-        console.log('Settings also saved to storage file');
+        await saveServerSettings(settings);
       } catch (storageError) {
-        console.warn('Failed to save settings to storage file (continuing anyway):', storageError);
-        // Don't show error to user, just log it
+        if (!(storageError instanceof ServerUnavailableError)) {
+          setError(storageError instanceof Error ? storageError.message : 'Failed to save settings');
+          return;
+        }
+        console.warn('Server not running, settings saved in this browser only');
+      }
+
+      cacheSettingsLocally(settings);
+      if (passphraseEdited || backupPassphrase) {
+        setBackupPassphrase(backupPassphrase || null, rememberPassphrase);
+        setPassphraseEdited(false);
       }
       
       setSaved(true);
@@ -180,10 +169,20 @@ export const Settings: React.FC<SettingsProps> = ({ onBack }) => {
     setFeedbackServiceUrl(DEFAULT_URL);
     setExampleQuestions(DEFAULT_EXAMPLE_QUESTIONS);
     setWorkingHours(DEFAULT_WORKING_HOURS);
+    setSnapshotRetention(DEFAULT_SNAPSHOT_RETENTION);
+    setAutoBackup(DEFAULT_AUTO_BACKUP_SETTINGS);
+    setTrashRetentionDays(DEFAULT_TRASH_RETENTION_DAYS);
     setError(null);
     setSaved(false);
   };
 
+  const updateSnapshotRetention = (field: Exclude<keyof SnapshotRetentionPolicy, 'enabled'>, value: string) => {
+    const minimum = field === 'keepLast' ? 1 : 0;
+    const count = Math.max(minimum, parseInt(value, 10) || 0);
+    setSnapshotRetention(prev => ({ ...prev, [field]: count }));
+    setSaved(false);
+  };
+
   const handleAddQuestion = () => {
     if (newQuestion.trim() && !exampleQuestions.includes(newQuestion.trim())) {
       setExampleQuestions([...exampleQuestions, newQuestion.trim()]);
@@ -668,6 +667,238 @@ echo "Done."`;
         </div>
       </div>
 
+      {/* Automatic Backups */}
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <HardDrive className="h-5 w-5 mr-2" />
+          Automatic Backups
+        </h2>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Saves a snapshot to the storage folder on a schedule, when you stop working for a couple of minutes,
+            and after submitting a unit or recording an outcome. Unchanged data isn't saved twice.
+          </p>
+
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={autoBackup.enabled}
+              onChange={(e) => {
+                setAutoBackup(prev => ({ ...prev, enabled: e.target.checked }));
+                setSaved(false);
+              }}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Back up automatically</span>
+          </label>
+
+          <div className={autoBackup.enabled ? '' : 'opacity-50'}>
+            <label htmlFor="auto-backup-interval" className="block text-sm font-medium text-gray-700 mb-2">
+              Back up at least every
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                id="auto-backup-interval"
+                type="number"
+                min={MIN_INTERVAL_MINUTES}
+                value={autoBackup.intervalMinutes}
+                disabled={!autoBackup.enabled}
+                onChange={(e) => {
+                  setAutoBackup(prev => ({ ...prev, intervalMinutes: parseInt(e.target.value, 10) || 0 }));
+                  setSaved(false);
+                }}
+                // Clamp once the user is done typing, so "30" can be typed via "3"
+                onBlur={() => setAutoBackup(prev => ({ ...prev, intervalMinutes: Math.max(MIN_INTERVAL_MINUTES, prev.intervalMinutes) }))}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <span className="text-sm text-gray-500">minutes</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Trash */}
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Trash2 className="h-5 w-5 mr-2" />
+          Trash
+        </h2>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Removed units go to the trash with their progress and can be restored from there until they are
+            deleted for good.
+          </p>
+
+          <div>
+            <label htmlFor="trash-retention" className="block text-sm font-medium text-gray-700 mb-2">
+              Delete units from the trash after
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                id="trash-retention"
+                type="number"
+                min={MIN_TRASH_RETENTION_DAYS}
+                max={MAX_TRASH_RETENTION_DAYS}
+                value={trashRetentionDays}
+                onChange={(e) => {
+                  setTrashRetentionDays(parseInt(e.target.value, 10) || 0);
+                  setSaved(false);
+                }}
+                onBlur={() => setTrashRetentionDays(prev => Math.min(MAX_TRASH_RETENTION_DAYS, Math.max(MIN_TRASH_RETENTION_DAYS, prev)))}
+                className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <span className="text-sm text-gray-500">days</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Backup Encryption */}
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Lock className="h-5 w-5 mr-2" />
+          Backup Encryption
+        </h2>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            With a passphrase set, snapshots saved to the storage folder and downloaded backups are encrypted
+            in the browser before they leave it. Leave empty to save unencrypted files. The units and progress
+            the server keeps for everyday use, their history and .unitpack archives are not encrypted.
+          </p>
+
+          {isBackupEncryptionEnabled() && !backupPassphrase && !passphraseEdited && (
+            <p className="text-sm text-amber-700">
+              Backups are encrypted, but the passphrase hasn't been entered in this tab.
+              Enter it below to save backups again.
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="backup-passphrase" className="block text-sm font-medium text-gray-700 mb-2">
+                Passphrase
+              </label>
+              <input
+                id="backup-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={backupPassphrase}
+                onChange={(e) => {
+                  setBackupPassphraseInput(e.target.value);
+                  setPassphraseEdited(true);
+                  setError(null);
+                  setSaved(false);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="backup-passphrase-confirm" className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm passphrase
+              </label>
+              <input
+                id="backup-passphrase-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassphrase}
+                onChange={(e) => {
+                  setConfirmPassphrase(e.target.value);
+                  setPassphraseEdited(true);
+                  setError(null);
+                  setSaved(false);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={rememberPassphrase}
+              onChange={(e) => {
+                setRememberPassphrase(e.target.checked);
+                setSaved(false);
+              }}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Remember the passphrase on this device</span>
+          </label>
+          <p className="text-sm text-gray-500">
+            Otherwise it is forgotten when you close this tab, and backups can't be saved until you enter it
+            here again. A remembered passphrase is stored unencrypted in this browser.
+          </p>
+
+          <p className="text-sm text-amber-700">
+            Encrypted backups can't be opened without this passphrase. Keep it somewhere safe; changing it
+            later doesn't re-encrypt existing snapshots.
+          </p>
+        </div>
+      </div>
+
+      {/* Snapshot Retention */}
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Archive className="h-5 w-5 mr-2" />
+          Snapshot Retention
+        </h2>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Every "Save to storage" adds a snapshot to the storage folder. When enabled, the server deletes
+            older snapshots (including their metadata and chunk files) after each save.
+          </p>
+
+          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={snapshotRetention.enabled}
+              onChange={(e) => {
+                setSnapshotRetention(prev => ({ ...prev, enabled: e.target.checked }));
+                setSaved(false);
+              }}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Prune old snapshots automatically</span>
+          </label>
+
+          <div className={`grid grid-cols-1 sm:grid-cols-3 gap-4 ${snapshotRetention.enabled ? '' : 'opacity-50'}`}>
+            {([
+              { field: 'keepLast', label: 'Keep the last', unit: 'snapshots', min: 1 },
+              { field: 'keepDailyDays', label: 'One per day for', unit: 'days', min: 0 },
+              { field: 'keepWeeklyWeeks', label: 'One per week for', unit: 'weeks', min: 0 }
+            ] as const).map(({ field, label, unit, min }) => (
+              <div key={field}>
+                <label htmlFor={`retention-${field}`} className="block text-sm font-medium text-gray-700 mb-2">
+                  {label}
+                </label>
+                <div className="flex items-center space-x-2">
+                  <input
+                    id={`retention-${field}`}
+                    type="number"
+                    min={min}
+                    value={snapshotRetention[field]}
+                    disabled={!snapshotRetention.enabled}
+                    onChange={(e) => updateSnapshotRetention(field, e.target.value)}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <span className="text-sm text-gray-500">{unit}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-sm text-gray-500">
+            A snapshot is kept if any rule keeps it. Set days or weeks to 0 to turn that rule off.
+          </p>
+        </div>
+      </div>
+
+      <StoragePanel />
+
       {/* Download Run Scripts */}
       <div className="bg-white rounded-xl shadow-sm border p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { ArrowLeft, GitCompare, ChevronDown, ChevronRight, AlertCircle, MessageSquare, PlusCircle, MinusCircle, ArrowRight } from 'lucide-react';
+import { StorageFile, loadProgressFromStorage } from '../utils/storageExport';
+import { ChangeKind, SnapshotDiff, TaskChange, diffSnapshots } from '../utils/snapshotDiff';
+import { DiffSegment } from '../utils/answerDiff';
+
+interface SnapshotCompareProps {
+  files: StorageFile[];
+  onBack: () => void;
+}
+
+const KIND_STYLES: Record<ChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-800' },
+  changed: { label: 'Changed', className: 'bg-blue-100 text-blue-800' }
+};
+
+const formatStatus = (status: string) => status.replace(/-/g, ' ');
+
+export const SnapshotCompare: React.FC<SnapshotCompareProps> = ({ files, onBack }) => {
+  // Snapshot names embed their timestamp, so sorting by name lists them oldest first
+  const sortedFiles = [...files].sort((a, b) => a.name.localeCompare(b.name));
+  // Default to comparing the two most recent backups
+  const [fromFile, setFromFile] = useState(sortedFiles.length >= 2 ? sortedFiles[sortedFiles.length - 2].name : '');
+  const [toFile, setToFile] = useState(sortedFiles.length >= 1 ? sortedFiles[sortedFiles.length - 1].name : '');
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedTasks, setExpandedTasks] = useState<Set<string>>(new Set()); // "unitId:taskId"
+
+  const handleCompare = async () => {
+    try {
+      setComparing(true);
+      setError(null);
+      const [fromData, toData] = await Promise.all([
+        loadProgressFromStorage(fromFile),
+        loadProgressFromStorage(toFile)
+      ]);
+      // Always read the result as "what happened since the older backup"
+      const swap = new Date(fromData.exportDate) > new Date(toData.exportDate);
+      setDiff(swap ? diffSnapshots(toData, fromData) : diffSnapshots(fromData, toData));
+      setExpandedTasks(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare snapshots');
+      setDiff(null);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const toggleTask = (key: string) => {
+    setExpandedTasks(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const renderSegments = (segments: DiffSegment[]) => (
+    <div className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed max-h-64 overflow-y-auto p-3 bg-gray-50 rounded border border-gray-200">
+      {segments.map((segment, index) => {
+        if (segment.type === 'insert') {
+          return <ins key={index} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>;
+        }
+        if (segment.type === 'delete') {
+          return <del key={index} className="bg-red-100 text-red-800 decoration-red-400">{segment.text}</del>;
+        }
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </div>
+  );
+
+  const renderTask = (unitId: string, task: TaskChange) => {
+    const key = `${unitId}:${task.taskId}`;
+    const isExpanded = expandedTasks.has(key);
+    return (
+      <div key={key} className="border border-gray-200 rounded-lg">
+        <button
+          onClick={() => toggleTask(key)}
+          className="w-full flex items-start justify-between p-3 text-left hover:bg-gray-50 transition-colors"
+        >
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center flex-wrap gap-2">
+              <span className="font-medium text-gray-900">Task {task.taskId}</span>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${KIND_STYLES[task.kind].className}`}>
+                {task.kind === 'added' ? 'New answer' : task.kind === 'removed' ? 'Answer removed' : 'Changed'}
+              </span>
+              {task.contentDiff && (
+                <span className="text-xs text-gray-600">
+                  <span className="text-green-700">+{task.wordsAdded}</span> / <span className="text-red-700">-{task.wordsRemoved}</span> words
+                  {task.versionFrom !== undefined && task.versionTo !== undefined && task.versionFrom !== task.versionTo && (
+                    <> · v{task.versionFrom} → v{task.versionTo}</>
+                  )}
+                </span>
+              )}
+              {task.completion && (
+                <span className="text-xs text-gray-600">{task.completion === 'completed' ? 'Marked complete' : 'Reopened'}</span>
+              )}
+              {task.reviewFeedback && (
+                <span className="flex items-center text-xs text-purple-700">
+                  <MessageSquare className="h-3 w-3 mr-1" />
+                  Review feedback {task.reviewFeedback.to ? (task.reviewFeedback.from ? 'updated' : 'recorded') : 'removed'}
+                </span>
+              )}
+            </div>
+            {task.description && <p className="text-xs text-gray-500 mt-1 truncate">{task.description}</p>}
+            {task.statusChanges.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {task.statusChanges.map((change, index) => (
+                  <span key={index} className="flex items-center text-xs px-2 py-0.5 bg-gray-100 text-gray-700 rounded capitalize">
+                    {change.previousStatus ? formatStatus(change.previousStatus) : 'start'}
+                    <ArrowRight className="h-3 w-3 mx-1" />
+                    {formatStatus(change.status)}
+                    <span className="ml-1 normal-case text-gray-500">{change.timestamp.toLocaleDateString('en-GB')}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          {(task.contentDiff || task.reviewFeedback) && (
+            isExpanded ? <ChevronDown className="h-4 w-4 text-gray-500 ml-2 mt-1" /> : <ChevronRight className="h-4 w-4 text-gray-500 ml-2 mt-1" />
+          )}
+        </button>
+
+        {isExpanded && (task.contentDiff || task.reviewFeedback) && (
+          <div className="px-3 pb-3 space-y-3">
+            {task.contentDiff && renderSegments(task.contentDiff)}
+            {task.reviewFeedback && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                <div className="p-2 rounded border border-gray-200 bg-gray-50">
+                  <div className="text-xs font-medium text-gray-500 mb-1">Review feedback before</div>
+                  <div className="whitespace-pre-wrap text-gray-700">{task.reviewFeedback.from || '—'}</div>
+                </div>
+                <div className="p-2 rounded border border-purple-200 bg-purple-50">
+                  <div className="text-xs font-medium text-purple-700 mb-1">Review feedback after</div>
+                  <div className="whitespace-pre-wrap text-gray-800">{task.reviewFeedback.to || '—'}</div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={onBack}
+            className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Files
+          </button>
+        </div>
+
+        <div className="text-center mb-6">
+          <GitCompare className="h-12 w-12 text-indigo-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Compare Snapshots</h1>
+          <p className="text-gray-600">See what changed between two backups in the storage folder</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr_auto] gap-3 items-end">
+          <div>
+            <label htmlFor="compare-from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <select
+              id="compare-from"
+              value={fromFile}
+              onChange={(e) => setFromFile(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {sortedFiles.map(file => <option key={file.name} value={file.name}>{file.name}</option>)}
+            </select>
+          </div>
+          <ArrowRight className="hidden md:block h-5 w-5 text-gray-400 mb-2.5" />
+          <div>
+            <label htmlFor="compare-to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <select
+              id="compare-to"
+              value={toFile}
+              onChange={(e) => setToFile(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {sortedFiles.map(file => <option key={file.name} value={file.name}>{file.name}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={handleCompare}
+            disabled={comparing || !fromFile || !toFile || fromFile === toFile}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {comparing ? 'Comparing...' : 'Compare'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {diff && (
+        <div className="bg-white rounded-xl shadow-sm border p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Changes</h2>
+            <span className="text-sm text-gray-500">
+              {new Date(diff.fromDate).toLocaleString()} → {new Date(diff.toDate).toLocaleString()}
+            </span>
+          </div>
+
+          {diff.units.length === 0 ? (
+            <p className="text-center text-gray-600 py-6">No differences between these snapshots.</p>
+          ) : (
+            <div className="space-y-4">
+              {diff.units.map(unit => (
+                <div key={unit.unitId} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center">
+                      {unit.kind === 'added' && <PlusCircle className="h-5 w-5 text-green-600 mr-2" />}
+                      {unit.kind === 'removed' && <MinusCircle className="h-5 w-5 text-red-600 mr-2" />}
+                      <h3 className="font-medium text-gray-900">{unit.title}</h3>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${KIND_STYLES[unit.kind].className}`}>
+                      {KIND_STYLES[unit.kind].label} · {unit.tasks.length} task{unit.tasks.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  {unit.tasks.length > 0 && (
+                    <div className="space-y-2">
+                      {unit.tasks.map(task => renderTask(unit.unitId, task))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import { GripVertical } from 'lucide-react';
+
+interface SortableListProps<T> {
+  items: T[];
+  onReorder: (items: T[]) => void;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  itemClassName?: string;
+}
+
+// A list whose items can be dragged into a new order by their grip handle. Only the handle is
+// draggable so text in the items stays selectable, and each list ignores drags that started
+// in another one, which lets lists be nested inside each other's items.
+export const SortableList = <T,>({ items, onReorder, renderItem, itemClassName = 'bg-gray-50 border-gray-200' }: SortableListProps<T>) => {
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    e.stopPropagation();
+    setDraggedIndex(index);
+    e.dataTransfer.effectAllowed = 'move';
+    // Firefox only starts a drag that carries data
+    e.dataTransfer.setData('text/plain', String(index));
+    const row = itemRefs.current[index];
+    if (row) e.dataTransfer.setDragImage(row, 0, 0);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (draggedIndex === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setDragOverIndex(index);
+  };
+
+  const handleDrop = (e: React.DragEvent, dropIndex: number) => {
+    if (draggedIndex === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (draggedIndex !== dropIndex) {
+      const reordered = [...items];
+      const [dragged] = reordered.splice(draggedIndex, 1);
+      reordered.splice(dropIndex, 0, dragged);
+      onReorder(reordered);
+    }
+    setDraggedIndex(null);
+    setDragOverIndex(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedIndex(null);
+    setDragOverIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div
+          // Items are plain data without stable ids; they are re-rendered in their new order
+          key={index}
+          ref={el => { itemRefs.current[index] = el; }}
+          className={`flex items-start p-3 rounded-lg border transition-colors ${
+            draggedIndex === index
+              ? 'bg-blue-100 border-blue-300 opacity-50'
+              : dragOverIndex === index
+              ? 'bg-blue-50 border-blue-200'
+              : itemClassName
+          }`}
+          onDragOver={(e) => handleDragOver(e, index)}
+          onDragLeave={() => setDragOverIndex(null)}
+          onDrop={(e) => handleDrop(e, index)}
+        >
+          <div
+            draggable
+            onDragStart={(e) => handleDragStart(e, index)}
+            onDragEnd={handleDragEnd}
+            className="p-1 mr-2 text-gray-400 hover:text-gray-600 cursor-grab flex-shrink-0"
+            title="Drag to reorder"
+          >
+            <GripVertical className="h-4 w-4" />
+          </div>
+          <div className="flex-1 min-w-0">{renderItem(item, index)}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
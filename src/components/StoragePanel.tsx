@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Database, HardDrive, RefreshCw, Server } from 'lucide-react';
+import { ServerStorageStats, ServerUnavailableError, fetchServerStorageStats } from '../utils/serverStorage';
+import { BrowserStorageUsage, LOCAL_STORAGE_QUOTA_BYTES, STORAGE_WARNING_RATIO, measureBrowserStorage } from '../utils/storageUsage';
+
+// Below this the next archive or snapshot may not fit
+const LOW_DISK_SPACE_BYTES = 1024 * 1024 * 1024;
+
+const CATEGORY_LABELS: Record<string, string> = {
+  snapshots: 'Snapshots',
+  checksums: 'Checksums',
+  units: 'Units',
+  progress: 'Progress',
+  trash: 'Trash',
+  config: 'Settings',
+  history: 'Git history',
+  other: 'Other files'
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let i = 0;
+  while (value >= 1024 && i < units.length - 1) {
+    value /= 1024;
+    i++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[i]}`;
+};
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+const UsageBar: React.FC<{ used: number; total: number }> = ({ used, total }) => {
+  const ratio = total > 0 ? Math.min(1, used / total) : 0;
+  const color = ratio >= STORAGE_WARNING_RATIO ? 'bg-red-500' : ratio >= 0.5 ? 'bg-amber-500' : 'bg-blue-500';
+  return (
+    <div className="w-full bg-gray-200 rounded-full h-2">
+      <div className={`${color} h-2 rounded-full`} style={{ width: `${ratio * 100}%` }} />
+    </div>
+  );
+};
+
+export const StoragePanel: React.FC = () => {
+  const [browserUsage, setBrowserUsage] = useState<BrowserStorageUsage | null>(null);
+  const [serverStats, setServerStats] = useState<ServerStorageStats | null>(null);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setBrowserUsage(await measureBrowserStorage());
+    } catch (error) {
+      console.error('Failed to measure browser storage:', error);
+    }
+    try {
+      setServerStats(await fetchServerStorageStats());
+      setServerError(null);
+    } catch (error) {
+      setServerStats(null);
+      setServerError(error instanceof ServerUnavailableError
+        ? 'The server is not running, so the storage folder can\'t be checked.'
+        : `Failed to read storage folder stats: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const warnings: string[] = [];
+  if (browserUsage) {
+    const localRatio = browserUsage.localStorageBytes / LOCAL_STORAGE_QUOTA_BYTES;
+    if (browserUsage.backend === 'localStorage' && localRatio >= STORAGE_WARNING_RATIO) {
+      warnings.push(`Browser storage is about ${formatPercent(localRatio)} full. Save to the storage folder and remove units you no longer need before a save fails.`);
+    }
+    const { estimate } = browserUsage;
+    if (estimate && estimate.quota > 0 && estimate.usage / estimate.quota >= STORAGE_WARNING_RATIO) {
+      warnings.push(`This site uses ${formatPercent(estimate.usage / estimate.quota)} of the storage the browser allows it.`);
+    }
+  }
+  if (serverStats?.disk && serverStats.disk.free < LOW_DISK_SPACE_BYTES) {
+    warnings.push(`Only ${formatBytes(serverStats.disk.free)} of disk space is left for the storage folder.`);
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <HardDrive className="h-5 w-5 mr-2" />
+          Storage
+        </h2>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="flex items-center space-x-2 px-3 py-1.5 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      <div className="space-y-6">
+        {warnings.map(warning => (
+          <div key={warning} className="flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{warning}</span>
+          </div>
+        ))}
+
+        {/* Browser */}
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900 flex items-center">
+            <Database className="h-4 w-4 mr-2" />
+            This browser
+          </h3>
+          {!browserUsage ? (
+            <p className="text-sm text-gray-500">Measuring...</p>
+          ) : (
+            <>
+              <div>
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>localStorage</span>
+                  <span>{formatBytes(browserUsage.localStorageBytes)} of about {formatBytes(LOCAL_STORAGE_QUOTA_BYTES)}</span>
+                </div>
+                <UsageBar used={browserUsage.localStorageBytes} total={LOCAL_STORAGE_QUOTA_BYTES} />
+              </div>
+              {browserUsage.estimate && (
+                <div>
+                  <div className="flex justify-between text-sm text-gray-600 mb-1">
+                    <span>All site data (IndexedDB included)</span>
+                    <span>{formatBytes(browserUsage.estimate.usage)} of {formatBytes(browserUsage.estimate.quota)}</span>
+                  </div>
+                  <UsageBar used={browserUsage.estimate.usage} total={browserUsage.estimate.quota} />
+                </div>
+              )}
+              <p className="text-sm text-gray-500">
+                Units and progress are kept in {browserUsage.backend === 'localStorage' ? 'localStorage' : 'IndexedDB'}.
+              </p>
+
+              {browserUsage.units.length === 0 ? (
+                <p className="text-sm text-gray-500">No units stored yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Unit</th>
+                        <th className="py-2 pr-4 font-medium text-right">Definition</th>
+                        <th className="py-2 pr-4 font-medium text-right">Answers</th>
+                        <th className="py-2 pr-4 font-medium text-right">Feedback</th>
+                        <th className="py-2 pr-4 font-medium text-right">Other</th>
+                        <th className="py-2 font-medium text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {browserUsage.units.map(unit => (
+                        <tr key={unit.unitId} className="border-b last:border-0 text-gray-700">
+                          <td className="py-2 pr-4">{unit.title}</td>
+                          <td className="py-2 pr-4 text-right">{formatBytes(unit.definitionBytes)}</td>
+                          <td className="py-2 pr-4 text-right">
+                            {formatBytes(unit.answerBytes)}
+                            <span className="text-gray-400"> ({unit.answerCount})</span>
+                          </td>
+                          <td className="py-2 pr-4 text-right">{formatBytes(unit.feedbackBytes)}</td>
+                          <td className="py-2 pr-4 text-right">{formatBytes(unit.otherBytes)}</td>
+                          <td className="py-2 text-right font-medium">{formatBytes(unit.totalBytes)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {browserUsage.largestAnswers.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Largest answers</p>
+                  <ul className="text-sm text-gray-600 space-y-1">
+                    {browserUsage.largestAnswers.map(answer => (
+                      <li key={`${answer.unitId}/${answer.taskId}`} className="flex justify-between">
+                        <span>{answer.unitId} / {answer.taskId}</span>
+                        <span>{formatBytes(answer.answerBytes)} answer, {formatBytes(answer.feedbackBytes)} feedback</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Server storage folder */}
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900 flex items-center">
+            <Server className="h-4 w-4 mr-2" />
+            Storage folder
+          </h3>
+          {serverError ? (
+            <p className="text-sm text-gray-500">{serverError}</p>
+          ) : !serverStats ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {serverStats.fileCount} files, {formatBytes(serverStats.totalSize)} in total, {serverStats.snapshotCount} snapshots.
+              </p>
+              {serverStats.disk && (
+                <div>
+                  <div className="flex justify-between text-sm text-gray-600 mb-1">
+                    <span>Disk</span>
+                    <span>{formatBytes(serverStats.disk.free)} free of {formatBytes(serverStats.disk.total)}</span>
+                  </div>
+                  <UsageBar used={serverStats.disk.total - serverStats.disk.free} total={serverStats.disk.total} />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {Object.entries(serverStats.categories).map(([category, { files, size }]) => (
+                  <div key={category} className="p-2 bg-gray-50 rounded-lg text-sm">
+                    <p className="text-gray-500">{CATEGORY_LABELS[category] || category}</p>
+                    <p className="font-medium text-gray-900">{formatBytes(size)}</p>
+                    <p className="text-xs text-gray-400">{files} files</p>
+                  </div>
+                ))}
+              </div>
+
+              {serverStats.largestSnapshots.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Largest snapshots</p>
+                  <ul className="text-sm text-gray-600 space-y-1">
+                    {serverStats.largestSnapshots.map(snapshot => (
+                      <li key={snapshot.name} className="flex justify-between">
+                        <span className="truncate mr-4">{snapshot.name}</span>
+                        <span className="flex-shrink-0">{formatBytes(snapshot.size)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {serverStats.orphanedFiles.length > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                  <p className="text-sm font-medium text-amber-800 mb-1">
+                    {serverStats.orphanedFiles.length} orphaned files ({formatBytes(serverStats.orphanedFiles.reduce((sum, file) => sum + file.size, 0))})
+                  </p>
+                  <ul className="text-sm text-amber-700 space-y-1">
+                    {serverStats.orphanedFiles.map(file => (
+                      <li key={file.path}>
+                        <span className="font-mono">{file.path}</span> ({formatBytes(file.size)}): {file.reason}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-amber-700 mt-2">Nothing uses these files; they can be deleted from the storage folder.</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowLeft, ArrowRight, CheckCircle, MessageCircle, Save, ChevronDown, ChevronRight, Clock, BookOpen, Maximize2, Minimize2, HelpCircle, Send, Target, FileText, CheckSquare, Compass, Undo, Redo, Volume2, VolumeX, List, History } from 'lucide-react';
-import { LearningOutcome, TaskItem, StudentAnswer, Unit, TaskStatus } from '../types/Unit';
+import { ArrowLeft, ArrowRight, CheckCircle, MessageCircle, Save, ChevronDown, ChevronRight, Clock, BookOpen, Maximize2, Minimize2, HelpCircle, Send, Target, FileText, CheckSquare, Compass, Undo, Redo, Volume2, VolumeX, List, History, RefreshCw } from 'lucide-react';
+import { LearningOutcome, TaskItem, StudentAnswer, Unit, TaskStatus, AnswerVersion } from '../types/Unit';
 import { deriveTaskStatus, isEditable } from '../utils/taskStatus';
 import { askStudentQuestion, StudentQuestionRequest, StudentQuestionResponse } from '../utils/feedbackService';
 import { WorkingTimeIndicator } from './WorkingTimeIndicator';
@@ -8,6 +8,8 @@ import { DEFAULT_EXAMPLE_QUESTIONS } from '../constants/defaultQuestions';
 import { TiptapEditor, TiptapEditorRef } from './TiptapEditor';
 import { migrateQuillToTiptap, isQuillContent } from '../utils/contentMigration';
 import { renderMarkdown } from '../utils/markdownRenderer';
+import { AnswerVersionHistory } from './AnswerVersionHistory';
+import { diffHtml } from '../utils/answerDiff';
 
 interface TaskViewProps {
   learningOutcome: LearningOutcome;
@@ -72,9 +74,19 @@ export const TaskView: React.FC<TaskViewProps> = ({
   const [showNotYetAchievedPanel, setShowNotYetAchievedPanel] = useState(false);
   const [reviewFeedbackInput, setReviewFeedbackInput] = useState('');
 
+  // The stored answer changed in another tab or on another device while this view had unsaved edits
+  const [remoteChange, setRemoteChange] = useState<StudentAnswer | null>(null);
+  const [showRemoteDiff, setShowRemoteDiff] = useState(false);
+
   // Autosave timer ref
   const autosaveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const editorRef = useRef<TiptapEditorRef>(null);
+  // Answer content as this view last loaded or saved it, to tell our own saves apart from
+  // changes made elsewhere
+  const syncedContentRef = useRef(answer?.content || '');
+  const loadedTaskIdRef = useRef(task.id);
+  const editorStateRef = useRef({ content, hasUnsavedChanges });
+  editorStateRef.current = { content, hasUnsavedChanges };
 
   // Get unit task context
   const unitTaskContext = unit.unit_tasks?.find(unitTask => 
@@ -109,6 +121,22 @@ export const TaskView: React.FC<TaskViewProps> = ({
   // Update content when task changes
   useEffect(() => {
     const rawContent = answer?.content || '';
+    const editor = editorStateRef.current;
+    if (loadedTaskIdRef.current === task.id && editor.hasUnsavedChanges && rawContent !== editor.content) {
+      // Don't replace unsaved edits; ask instead if the answer text itself changed elsewhere
+      if (rawContent !== syncedContentRef.current) {
+        setRemoteChange(answer || null);
+        if (autosaveTimerRef.current) {
+          clearTimeout(autosaveTimerRef.current);
+          autosaveTimerRef.current = null;
+        }
+      }
+      return;
+    }
+    loadedTaskIdRef.current = task.id;
+    syncedContentRef.current = rawContent;
+    setRemoteChange(null);
+    setShowRemoteDiff(false);
     // Migrate Quill content if needed
     const migratedContent = isQuillContent(rawContent) ? migrateQuillToTiptap(rawContent) : rawContent;
     setContent(migratedContent);
@@ -156,7 +184,8 @@ export const TaskView: React.FC<TaskViewProps> = ({
   }, [undoStack, redoStack, content]);
 
   const performAutoSave = async () => {
-    if (!hasUnsavedChanges) return;
+    // Saving now would overwrite the other version before the student has chosen
+    if (!hasUnsavedChanges || remoteChange) return;
     
     setIsAutoSaving(true);
     try {
@@ -301,6 +330,106 @@ export const TaskView: React.FC<TaskViewProps> = ({
     setLastAutoSave(new Date());
   };
 
+  // Keeping this version saves it on top of the other one, which stays in the version history
+  const handleKeepMyVersion = () => {
+    setRemoteChange(null);
+    setShowRemoteDiff(false);
+    handleSave();
+  };
+
+  // The discarded edits stay on the undo stack in case the choice was a mistake
+  const handleUseOtherVersion = () => {
+    if (!remoteChange) return;
+    if (autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+    const otherContent = isQuillContent(remoteChange.content) ? migrateQuillToTiptap(remoteChange.content) : remoteChange.content;
+    setUndoStack(prev => [...prev, content]);
+    setRedoStack([]);
+    syncedContentRef.current = remoteChange.content;
+    setContent(otherContent);
+    setHasUnsavedChanges(false);
+    setRemoteChange(null);
+    setShowRemoteDiff(false);
+  };
+
+  const renderRemoteChangePrompt = () => remoteChange && (
+    <div className="mb-3 p-3 bg-amber-50 border border-amber-300 rounded-lg">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start">
+          <RefreshCw className="h-4 w-4 text-amber-700 mr-2 mt-0.5 flex-shrink-0" />
+          <div className="text-sm text-amber-900">
+            <p className="font-medium">This answer was changed elsewhere</p>
+            <p>
+              Another tab or device saved a different version
+              {remoteChange.lastModified ? ` at ${new Date(remoteChange.lastModified).toLocaleTimeString()}` : ''} while
+              you had unsaved edits here. Autosave is paused until you choose which version to keep.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowRemoteDiff(!showRemoteDiff)}
+          className="text-xs text-amber-800 hover:text-amber-900 underline whitespace-nowrap"
+        >
+          {showRemoteDiff ? 'Hide differences' : 'Show differences'}
+        </button>
+      </div>
+      {showRemoteDiff && (
+        <div className="mt-2 text-sm text-gray-800 whitespace-pre-wrap leading-relaxed max-h-48 overflow-y-auto p-2 bg-white rounded border border-amber-200">
+          {diffHtml(content, remoteChange.content).map((segment, index) => {
+            if (segment.type === 'insert') {
+              return <ins key={index} className="bg-green-100 text-green-800 no-underline">{segment.text}</ins>;
+            }
+            if (segment.type === 'delete') {
+              return <del key={index} className="bg-red-100 text-red-800 decoration-red-400">{segment.text}</del>;
+            }
+            return <span key={index}>{segment.text}</span>;
+          })}
+          <p className="mt-2 text-xs text-gray-500">Green is only in the other version, red only in yours.</p>
+        </div>
+      )}
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          onClick={handleUseOtherVersion}
+          className="px-3 py-1.5 text-sm border border-amber-300 text-amber-900 rounded-lg hover:bg-amber-100 transition-colors"
+        >
+          Use the other version
+        </button>
+        <button
+          onClick={handleKeepMyVersion}
+          className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+        >
+          Keep my version
+        </button>
+      </div>
+    </div>
+  );
+
+  // Flush unsaved edits first so the status change freezes what the student is looking at
+  const handleMarkComplete = () => {
+    if (hasUnsavedChanges) {
+      handleSave();
+    }
+    onMarkComplete();
+  };
+
+  // Restoring goes through the normal save path, so locked tasks stay locked and
+  // the restored content is recorded as a new version
+  const handleRestoreVersion = (version: AnswerVersion) => {
+    if (autosaveTimerRef.current) {
+      clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = null;
+    }
+
+    setUndoStack(prev => [...prev, content]);
+    setRedoStack([]);
+    setContent(version.content);
+    onAnswerUpdate(version.content);
+    setHasUnsavedChanges(false);
+    setLastAutoSave(new Date());
+  };
+
   const handleAskQuestion = async () => {
     if (!studentQuestion.trim()) return;
     
@@ -511,6 +640,11 @@ export const TaskView: React.FC<TaskViewProps> = ({
                   (from {change.previousStatus.replace('-', ' ')})
                 </span>
               )}
+              {change.answerVersion !== undefined && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-indigo-50 text-indigo-700 border border-indigo-200" title="Answer version frozen at this change">
+                  v{change.answerVersion}
+                </span>
+              )}
             </div>
             <span className="text-gray-500">
               {change.timestamp.toLocaleString()}
@@ -653,7 +787,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
                   {isRequestingFeedback ? 'Requesting...' : 'Request Feedback'}
                 </button>
                 <button
-                  onClick={onMarkComplete}
+                  onClick={handleMarkComplete}
                   className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
                   <CheckCircle className="h-4 w-4 mr-2" />
@@ -663,7 +797,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
             )}
             {taskStatus === 'completed' && (
               <button
-                onClick={onMarkComplete}
+                onClick={handleMarkComplete}
                 className="flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
               >
                 <Clock className="h-4 w-4 mr-2" />
@@ -699,7 +833,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
                   {isRequestingFeedback ? 'Requesting...' : 'Request Feedback'}
                 </button>
                 <button
-                  onClick={onMarkComplete}
+                  onClick={handleMarkComplete}
                   className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
                   <CheckCircle className="h-4 w-4 mr-2" />
@@ -737,6 +871,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
                 </button>
               </div>
             </div>
+            {renderRemoteChangePrompt()}
             <div className="flex-1 flex flex-col min-h-0">
               <TiptapEditor
                 ref={editorRef}
@@ -1110,7 +1245,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
                     {isRequestingFeedback ? 'Requesting...' : 'Request Feedback'}
                   </button>
                   <button
-                    onClick={onMarkComplete}
+                    onClick={handleMarkComplete}
                     className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                   >
                     <CheckCircle className="h-4 w-4 mr-2" />
@@ -1120,7 +1255,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
               )}
               {taskStatus === 'completed' && (
                 <button
-                  onClick={onMarkComplete}
+                  onClick={handleMarkComplete}
                   className="flex items-center px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
                 >
                   <Clock className="h-4 w-4 mr-2" />
@@ -1156,7 +1291,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
                     {isRequestingFeedback ? 'Requesting...' : 'Request Feedback'}
                   </button>
                   <button
-                    onClick={onMarkComplete}
+                    onClick={handleMarkComplete}
                     className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                   >
                     <CheckCircle className="h-4 w-4 mr-2" />
@@ -1167,6 +1302,7 @@ export const TaskView: React.FC<TaskViewProps> = ({
             </div>
           </div>
           
+          {renderRemoteChangePrompt()}
           <div className="h-64 overflow-hidden flex flex-col">
             <TiptapEditor
               ref={editorRef}
@@ -1408,6 +1544,14 @@ export const TaskView: React.FC<TaskViewProps> = ({
         </div>
       )}
 
+      {/* Version History Section */}
+      <AnswerVersionHistory
+        key={task.id}
+        answer={answer}
+        canRestore={taskStatus !== 'submitted-for-review' && taskStatus !== 'achieved'}
+        onRestore={handleRestoreVersion}
+      />
+
       {/* Navigation */}
       <div className="flex justify-between items-center pt-6">
         {hasPrevious ? (
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Trash2, ArchiveRestore, AlertCircle } from 'lucide-react';
+import { TrashedUnit, loadTrashRetentionDays, purgeDate } from '../utils/unitTrash';
+
+interface TrashBinProps {
+  trash: TrashedUnit[];
+  activeUnitIds: string[];
+  onRestore: (unitId: string) => Promise<void>;
+  onPurge: (unitId?: string) => Promise<void>;
+  onBack: () => void;
+}
+
+export const TrashBin: React.FC<TrashBinProps> = ({ trash, activeUnitIds, onRestore, onPurge, onBack }) => {
+  const [busyUnitId, setBusyUnitId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const retentionDays = loadTrashRetentionDays();
+  // Most recently removed first
+  const entries = [...trash].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+  const run = async (unitId: string, action: () => Promise<void>) => {
+    try {
+      setBusyUnitId(unitId);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the trash');
+    } finally {
+      setBusyUnitId(null);
+    }
+  };
+
+  const handleRestore = (entry: TrashedUnit) => {
+    if (activeUnitIds.includes(entry.unit.id) &&
+        !window.confirm(`A unit with the id "${entry.unit.id}" has been added since this one was removed. Restoring replaces it and its progress. Continue?`)) {
+      return;
+    }
+    run(entry.unit.id, () => onRestore(entry.unit.id));
+  };
+
+  const handlePurge = (entry: TrashedUnit) => {
+    if (window.confirm(`Delete "${entry.unit.title}" and all of its progress for good? This cannot be undone.`)) {
+      run(entry.unit.id, () => onPurge(entry.unit.id));
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm(`Delete all ${trash.length} units in the trash and their progress for good? This cannot be undone.`)) {
+      run('*', () => onPurge());
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={onBack}
+            className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Units
+          </button>
+          {trash.length > 0 && (
+            <button
+              onClick={handleEmptyTrash}
+              disabled={busyUnitId !== null}
+              className="flex items-center px-3 py-1.5 text-sm text-red-700 border border-red-200 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4 mr-1.5" />
+              Empty Trash
+            </button>
+          )}
+        </div>
+
+        <div className="text-center">
+          <Trash2 className="h-12 w-12 text-gray-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Trash</h1>
+          <p className="text-gray-600">
+            Removed units are kept here with their progress for {retentionDays} day{retentionDays === 1 ? '' : 's'}, then deleted.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+          <div className="flex items-center">
+            <AlertCircle className="h-5 w-5 text-red-600 mr-2" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border p-12 text-center text-gray-600">
+          The trash is empty.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border divide-y">
+          {entries.map(entry => {
+            const answerCount = entry.progress?.answers.filter(a => a.content?.trim()).length || 0;
+            return (
+              <div key={entry.unit.id} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <h3 className="font-medium text-gray-900 truncate">{entry.unit.title}</h3>
+                  <p className="text-sm text-gray-600">
+                    {answerCount} answer{answerCount === 1 ? '' : 's'} · {entry.summary.completedTasks}/{entry.summary.totalTasks} tasks completed
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Removed {entry.deletedAt.toLocaleString('en-GB')} · deleted for good on {purgeDate(entry, retentionDays).toLocaleDateString('en-GB')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    disabled={busyUnitId !== null}
+                    className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <ArchiveRestore className="h-4 w-4 mr-1.5" />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePurge(entry)}
+                    disabled={busyUnitId !== null}
+                    className="p-2 text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50"
+                    title="Delete for good"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React, { useEffect, useRef } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss, durationMs = 10000 }) => {
+  // Parents usually pass a new callback on every render, which mustn't restart the timer
+  const onDismissRef = useRef(onDismiss);
+  onDismissRef.current = onDismiss;
+
+  // Restarts when a new message replaces the previous one
+  useEffect(() => {
+    const timer = setTimeout(() => onDismissRef.current(), durationMs);
+    return () => clearTimeout(timer);
+  }, [message, durationMs]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg" role="status">
+      <span className="text-sm mr-4">{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center text-sm font-medium text-blue-300 hover:text-blue-200 transition-colors"
+      >
+        <Undo2 className="h-4 w-4 mr-1" />
+        Undo
+      </button>
+      <button
+        onClick={onDismiss}
+        className="ml-3 p-1 text-gray-400 hover:text-white transition-colors"
+        title="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, RefreshCw, CheckCircle, GitCompare, AlertCircle } from 'lucide-react';
+import { Unit, UnitSummary } from '../types/Unit';
+import { CatalogueEntry, ServerUnavailableError, fetchCatalogue, fetchCatalogueUnit } from '../utils/serverStorage';
+import { parseUnit } from '../utils/unitSchema';
+
+interface UnitCatalogueProps {
+  installedUnits: UnitSummary[];
+  onAddUnit: (unit: Unit, catalogueVersion: string) => void;
+}
+
+type EntryStatus = 'available' | 'installed' | 'changed';
+
+// Catalogue versions are content hashes: they tell that the catalogue's copy changed, not
+// whether it is newer. Units added from a file carry none, so this is only known for units
+// added from the catalogue.
+const getEntryStatus = (entry: CatalogueEntry, installed: UnitSummary | undefined): EntryStatus => {
+  if (!installed) return 'available';
+  return installed.catalogueVersion && installed.catalogueVersion !== entry.version ? 'changed' : 'installed';
+};
+
+// The catalogue tab of "Add New Unit": units bundled with the app or published by an admin on
+// the server, added with one click
+export const UnitCatalogue: React.FC<UnitCatalogueProps> = ({ installedUnits, onAddUnit }) => {
+  const [entries, setEntries] = useState<CatalogueEntry[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [addingId, setAddingId] = useState<string | null>(null);
+
+  const loadCatalogue = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await fetchCatalogue());
+    } catch (err) {
+      setError(err instanceof ServerUnavailableError
+        ? 'The catalogue is served by the app server, which is not running. You can still upload unit files.'
+        : err instanceof Error ? err.message : 'Failed to load the catalogue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCatalogue();
+  }, []);
+
+  const handleAdd = async (entry: CatalogueEntry) => {
+    setAddingId(entry.id);
+    try {
+      const result = await fetchCatalogueUnit(entry.id);
+      if (!result) throw new Error(`"${entry.title}" is no longer in the catalogue`);
+      onAddUnit(parseUnit(result.unit), result.entry.version);
+    } catch (err) {
+      alert(`Failed to add the unit: ${err instanceof Error ? err.message : 'unknown error'}`);
+      setAddingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-8 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-3"></div>
+        <p className="text-gray-600">Loading catalogue...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="py-8 text-center space-y-4">
+        <AlertCircle className="h-10 w-10 text-red-600 mx-auto" />
+        <p className="text-sm text-red-600">{error}</p>
+        <button
+          onClick={loadCatalogue}
+          className="inline-flex items-center px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!entries || entries.length === 0) {
+    return <p className="py-8 text-center text-gray-600">The catalogue is empty.</p>;
+  }
+
+  return (
+    <div className="divide-y border rounded-lg">
+      {entries.map(entry => {
+        const status = getEntryStatus(entry, installedUnits.find(u => u.id === entry.id));
+        return (
+          <div key={entry.id} className="p-4 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <h3 className="font-medium text-gray-900">{entry.title}</h3>
+              <p className="text-sm text-gray-600">
+                {entry.learningOutcomeCount} learning outcome{entry.learningOutcomeCount === 1 ? '' : 's'} · {entry.taskCount} task{entry.taskCount === 1 ? '' : 's'}
+                {entry.credits !== null && ` · ${entry.credits} credits`}
+                {entry.guidedLearningHours !== null && ` · ${entry.guidedLearningHours} guided learning hours`}
+              </p>
+              <p className="text-xs text-gray-500">
+                <span className="font-mono">{entry.id}</span> · {entry.source === 'admin' ? 'Published by an admin' : 'Bundled with the app'} · updated {new Date(entry.updatedAt).toLocaleDateString('en-GB')}
+              </p>
+            </div>
+            {status === 'installed' ? (
+              <span className="flex items-center text-sm text-green-700 flex-shrink-0">
+                <CheckCircle className="h-4 w-4 mr-1.5" />
+                Added
+              </span>
+            ) : (
+              <button
+                onClick={() => handleAdd(entry)}
+                disabled={addingId !== null}
+                className={`flex items-center px-3 py-1.5 text-sm text-white rounded-lg transition-colors disabled:opacity-50 flex-shrink-0 ${
+                  status === 'changed' ? 'bg-amber-600 hover:bg-amber-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+                title={status === 'changed' ? 'The catalogue\'s copy of this unit differs from the one you added. Review the differences before replacing yours.' : undefined}
+              >
+                {status === 'changed' ? <GitCompare className="h-4 w-4 mr-1.5" /> : <Plus className="h-4 w-4 mr-1.5" />}
+                {addingId === entry.id ? 'Adding...' : status === 'changed' ? 'Catalogue Version Differs' : 'Add'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
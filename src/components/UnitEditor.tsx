@@ -0,0 +1,833 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Save, Eye, Pencil, Plus, Trash2, X, AlertCircle, AlertTriangle, CheckCircle, BookOpen, Target, ListChecks } from 'lucide-react';
+import { AcceptanceCriteria, IndicativeContent, LearningOutcome, TaskItem, Unit, UnitTask } from '../types/Unit';
+import { UnitSchemaError, validateUnitData } from '../utils/unitSchema';
+import { SortableList } from './SortableList';
+import { UnitOverview } from './UnitOverview';
+import { TaskView } from './TaskView';
+
+interface UnitEditorProps {
+  // Omitted when creating a unit from scratch
+  unit?: Unit;
+  isNew: boolean;
+  existingUnitIds: string[];
+  onSave: (unit: Unit) => void;
+  onCancel: () => void;
+  // Set when reviewing a unit read from an assignment brief: what the import couldn't place
+  importWarnings?: string[];
+}
+
+const TASK_TYPES: TaskItem['type'][] = ['standard', 'merit', 'distinction'];
+
+const CONTENT_TYPE_LABELS: Record<NonNullable<IndicativeContent['type']>, string> = {
+  heading: 'Heading',
+  bullet: 'Bullet',
+  sub_bullet: 'Sub-bullet'
+};
+
+const INPUT_CLASS = 'w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const replaceAt = <T,>(items: T[], index: number, item: T) => items.map((current, i) => (i === index ? item : current));
+const removeAt = <T,>(items: T[], index: number) => items.filter((_, i) => i !== index);
+
+// Suggested ids follow the numbering of the bundled units: LO2 holds tasks 2.1, 2.2, ...
+const outcomeNumber = (outcomeId: string) => outcomeId.match(/\d+/)?.[0] || '';
+
+const newOutcomeTask = (outcome: LearningOutcome): TaskItem => {
+  const number = outcomeNumber(outcome.id);
+  return {
+    id: number ? `${number}.${outcome.outcome_tasks.length + 1}` : '',
+    description: '',
+    type: 'standard',
+    acceptance_criteria: []
+  };
+};
+
+const newLearningOutcome = (index: number): LearningOutcome => {
+  const outcome: LearningOutcome = { id: `LO${index + 1}`, description: '', outcome_tasks: [], indicative_content: [] };
+  return { ...outcome, outcome_tasks: [newOutcomeTask(outcome)] };
+};
+
+const newCriterion = (task: TaskItem): AcceptanceCriteria => ({
+  id: task.acceptance_criteria.length === 0 ? `AC ${task.id}` : `AC ${task.id}-${task.acceptance_criteria.length + 1}`,
+  criteria: ''
+});
+
+const newUnitTask = (index: number): UnitTask => ({ id: `Task ${index + 1}`, description: '', learning_outcomes: [], outcome_tasks: [] });
+
+const emptyUnit = (): Unit => ({
+  id: '',
+  title: '',
+  instructions: '',
+  scenario: '',
+  task: '',
+  learning_outcomes: [newLearningOutcome(0)]
+});
+
+// The draft keeps empty optional fields so their inputs stay in place; they are left out of the saved unit
+const toUnit = (draft: Unit): Unit => {
+  const { task, unit_tasks, credits, guided_learning_hours, ...rest } = draft;
+  return {
+    ...rest,
+    ...(task?.trim() ? { task } : {}),
+    ...(unit_tasks && unit_tasks.length > 0 ? { unit_tasks } : {}),
+    ...(credits !== undefined ? { credits } : {}),
+    ...(guided_learning_hours !== undefined ? { guided_learning_hours } : {})
+  };
+};
+
+// The server stores units as storage/units/<id>.json and rejects ids that could leave that folder
+const checkUnitId = (id: string, isNew: boolean, existingUnitIds: string[]): UnitSchemaError[] => {
+  if (/[/\\\0]/.test(id) || id.includes('..')) return [{ path: 'id', message: 'must not contain /, \\ or ..' }];
+  if (isNew && existingUnitIds.includes(id)) return [{ path: 'id', message: 'is already used by another unit' }];
+  return [];
+};
+
+const renameInUnitTasks = (unitTasks: UnitTask[] | undefined, field: 'learning_outcomes' | 'outcome_tasks', from: string, to: string | null) =>
+  unitTasks?.map(unitTask => ({
+    ...unitTask,
+    [field]: unitTask[field].flatMap(id => (id !== from ? [id] : to === null ? [] : [to]))
+  }));
+
+const parseOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const UnitEditor: React.FC<UnitEditorProps> = ({ unit, isNew, existingUnitIds, onSave, onCancel, importWarnings }) => {
+  const [initialDraft] = useState<Unit>(() => (unit ? { ...unit, task: unit.task ?? '' } : emptyUnit()));
+  const [draft, setDraft] = useState<Unit>(initialDraft);
+  const [mode, setMode] = useState<'edit' | 'preview'>('edit');
+  const [previewTaskIndex, setPreviewTaskIndex] = useState<number | null>(null);
+
+  const result = useMemo(() => toUnit(draft), [draft]);
+  const errors = useMemo(
+    () => [...checkUnitId(draft.id, isNew, existingUnitIds), ...validateUnitData(result)],
+    [draft.id, isNew, existingUnitIds, result]
+  );
+  const errorsFor = (path: string) => errors.filter(error => error.path === path).map(error => error.message);
+  const inputClass = (path: string) =>
+    `${INPUT_CLASS} ${errorsFor(path).length > 0 ? 'border-red-400 bg-red-50' : 'border-gray-300'}`;
+
+  const renderErrors = (path: string) => {
+    const messages = errorsFor(path);
+    return messages.length > 0 ? <p className="text-xs text-red-600 mt-1">{messages.join('; ')}</p> : null;
+  };
+
+  const focusField = (path: string) => {
+    setMode('edit');
+    // The field may only exist once the edit tab has rendered
+    setTimeout(() => document.getElementById(`field-${path}`)?.focus(), 0);
+  };
+
+  // --- Draft updates ---
+
+  const update = (patch: Partial<Unit>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateOutcome = (outcomeIndex: number, recipe: (outcome: LearningOutcome) => LearningOutcome) =>
+    setDraft(prev => ({
+      ...prev,
+      learning_outcomes: replaceAt(prev.learning_outcomes, outcomeIndex, recipe(prev.learning_outcomes[outcomeIndex]))
+    }));
+
+  const updateTask = (outcomeIndex: number, taskIndex: number, recipe: (task: TaskItem) => TaskItem) =>
+    updateOutcome(outcomeIndex, outcome => ({
+      ...outcome,
+      outcome_tasks: replaceAt(outcome.outcome_tasks, taskIndex, recipe(outcome.outcome_tasks[taskIndex]))
+    }));
+
+  const updateUnitTask = (unitTaskIndex: number, patch: Partial<UnitTask>) =>
+    setDraft(prev => {
+      const unitTasks = prev.unit_tasks || [];
+      return { ...prev, unit_tasks: replaceAt(unitTasks, unitTaskIndex, { ...unitTasks[unitTaskIndex], ...patch }) };
+    });
+
+  // Renames follow through to unit_tasks, unless the old or new id is shared with another
+  // outcome, where following it would merge or split references
+  const renameOutcome = (outcomeIndex: number, id: string) =>
+    setDraft(prev => {
+      const from = prev.learning_outcomes[outcomeIndex].id;
+      const others = prev.learning_outcomes.filter((_, i) => i !== outcomeIndex).map(outcome => outcome.id);
+      const follow = from && id && !others.includes(from) && !others.includes(id);
+      return {
+        ...prev,
+        learning_outcomes: replaceAt(prev.learning_outcomes, outcomeIndex, { ...prev.learning_outcomes[outcomeIndex], id }),
+        unit_tasks: follow ? renameInUnitTasks(prev.unit_tasks, 'learning_outcomes', from, id) : prev.unit_tasks
+      };
+    });
+
+  const removeOutcome = (outcomeIndex: number) =>
+    setDraft(prev => {
+      const { id } = prev.learning_outcomes[outcomeIndex];
+      const learningOutcomes = removeAt(prev.learning_outcomes, outcomeIndex);
+      const stillUsed = learningOutcomes.some(outcome => outcome.id === id);
+      return {
+        ...prev,
+        learning_outcomes: learningOutcomes,
+        unit_tasks: stillUsed ? prev.unit_tasks : renameInUnitTasks(prev.unit_tasks, 'learning_outcomes', id, null)
+      };
+    });
+
+  const taskIdsExcept = (outcomes: LearningOutcome[], outcomeIndex: number, taskIndex: number) =>
+    outcomes.flatMap((outcome, i) => outcome.outcome_tasks.filter((_, j) => i !== outcomeIndex || j !== taskIndex).map(task => task.id));
+
+  const renameTask = (outcomeIndex: number, taskIndex: number, id: string) =>
+    setDraft(prev => {
+      const outcome = prev.learning_outcomes[outcomeIndex];
+      const from = outcome.outcome_tasks[taskIndex].id;
+      const others = taskIdsExcept(prev.learning_outcomes, outcomeIndex, taskIndex);
+      const follow = from && id && !others.includes(from) && !others.includes(id);
+      return {
+        ...prev,
+        learning_outcomes: replaceAt(prev.learning_outcomes, outcomeIndex, {
+          ...outcome,
+          outcome_tasks: replaceAt(outcome.outcome_tasks, taskIndex, { ...outcome.outcome_tasks[taskIndex], id })
+        }),
+        unit_tasks: follow ? renameInUnitTasks(prev.unit_tasks, 'outcome_tasks', from, id) : prev.unit_tasks
+      };
+    });
+
+  const removeTask = (outcomeIndex: number, taskIndex: number) =>
+    setDraft(prev => {
+      const outcome = prev.learning_outcomes[outcomeIndex];
+      const { id } = outcome.outcome_tasks[taskIndex];
+      const stillUsed = taskIdsExcept(prev.learning_outcomes, outcomeIndex, taskIndex).includes(id);
+      return {
+        ...prev,
+        learning_outcomes: replaceAt(prev.learning_outcomes, outcomeIndex, {
+          ...outcome,
+          outcome_tasks: removeAt(outcome.outcome_tasks, taskIndex)
+        }),
+        unit_tasks: stillUsed ? prev.unit_tasks : renameInUnitTasks(prev.unit_tasks, 'outcome_tasks', id, null)
+      };
+    });
+
+  const toggleInList = (list: string[], id: string, checked: boolean) =>
+    (checked ? (list.includes(id) ? list : [...list, id]) : list.filter(item => item !== id));
+
+  const handleSave = () => {
+    if (errors.length > 0) return;
+    onSave(result);
+  };
+
+  const handleCancel = () => {
+    if (importWarnings) {
+      if (!window.confirm('Discard the imported unit?')) return;
+    } else if (draft !== initialDraft && !window.confirm('Discard your changes to this unit?')) {
+      return;
+    }
+    onCancel();
+  };
+
+  // --- Rendering ---
+
+  const renderCriterion = (outcomeIndex: number, taskIndex: number) => (criterion: AcceptanceCriteria, criterionIndex: number) => {
+    const path = `learning_outcomes[${outcomeIndex}].outcome_tasks[${taskIndex}].acceptance_criteria[${criterionIndex}]`;
+    const setCriterion = (patch: Partial<AcceptanceCriteria>) =>
+      updateTask(outcomeIndex, taskIndex, task => ({
+        ...task,
+        acceptance_criteria: replaceAt(task.acceptance_criteria, criterionIndex, { ...task.acceptance_criteria[criterionIndex], ...patch })
+      }));
+    return (
+      <div className="flex items-start space-x-2">
+        <div className="w-32 flex-shrink-0">
+          <input
+            id={`field-${path}.id`}
+            value={criterion.id}
+            onChange={(e) => setCriterion({ id: e.target.value })}
+            placeholder="AC 1.1"
+            className={inputClass(`${path}.id`)}
+          />
+          {renderErrors(`${path}.id`)}
+        </div>
+        <div className="flex-1">
+          <textarea
+            id={`field-${path}.criteria`}
+            value={criterion.criteria}
+            onChange={(e) => setCriterion({ criteria: e.target.value })}
+            rows={2}
+            placeholder="What the answer must show"
+            className={inputClass(`${path}.criteria`)}
+          />
+          {renderErrors(`${path}.criteria`)}
+        </div>
+        <button
+          onClick={() => updateTask(outcomeIndex, taskIndex, task => ({ ...task, acceptance_criteria: removeAt(task.acceptance_criteria, criterionIndex) }))}
+          className="p-2 text-red-600 hover:text-red-800 transition-colors"
+          title="Remove acceptance criterion"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  };
+
+  const renderTask = (outcomeIndex: number) => (task: TaskItem, taskIndex: number) => {
+    const path = `learning_outcomes[${outcomeIndex}].outcome_tasks[${taskIndex}]`;
+    return (
+      <div className="space-y-3">
+        <div className="flex items-start space-x-2">
+          <div className="w-32 flex-shrink-0">
+            <input
+              id={`field-${path}.id`}
+              value={task.id}
+              onChange={(e) => renameTask(outcomeIndex, taskIndex, e.target.value)}
+              placeholder="1.1"
+              className={inputClass(`${path}.id`)}
+            />
+            {renderErrors(`${path}.id`)}
+          </div>
+          <div className="w-40 flex-shrink-0">
+            <select
+              id={`field-${path}.type`}
+              value={task.type}
+              onChange={(e) => updateTask(outcomeIndex, taskIndex, current => ({ ...current, type: e.target.value as TaskItem['type'] }))}
+              className={inputClass(`${path}.type`)}
+            >
+              {TASK_TYPES.map(type => (
+                <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+              ))}
+            </select>
+            {renderErrors(`${path}.type`)}
+          </div>
+          <div className="flex-1" />
+          <button
+            onClick={() => removeTask(outcomeIndex, taskIndex)}
+            className="p-2 text-red-600 hover:text-red-800 transition-colors"
+            title="Remove task"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+        <div>
+          <textarea
+            id={`field-${path}.description`}
+            value={task.description}
+            onChange={(e) => updateTask(outcomeIndex, taskIndex, current => ({ ...current, description: e.target.value }))}
+            rows={3}
+            placeholder="Task description shown to the student"
+            className={inputClass(`${path}.description`)}
+          />
+          {renderErrors(`${path}.description`)}
+        </div>
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Acceptance criteria</p>
+          <SortableList
+            items={task.acceptance_criteria}
+            onReorder={(criteria) => updateTask(outcomeIndex, taskIndex, current => ({ ...current, acceptance_criteria: criteria }))}
+            renderItem={renderCriterion(outcomeIndex, taskIndex)}
+            itemClassName="bg-white border-gray-200"
+          />
+          <button
+            onClick={() => updateTask(outcomeIndex, taskIndex, current => ({ ...current, acceptance_criteria: [...current.acceptance_criteria, newCriterion(current)] }))}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add acceptance criterion
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderContent = (outcomeIndex: number) => (content: IndicativeContent, contentIndex: number) => {
+    const path = `learning_outcomes[${outcomeIndex}].indicative_content[${contentIndex}]`;
+    const setContent = (patch: Partial<IndicativeContent>) =>
+      updateOutcome(outcomeIndex, outcome => ({
+        ...outcome,
+        indicative_content: replaceAt(outcome.indicative_content, contentIndex, { ...outcome.indicative_content[contentIndex], ...patch })
+      }));
+    return (
+      <div className={`flex items-start space-x-2 ${content.type === 'sub_bullet' ? 'ml-6' : ''}`}>
+        <select
+          value={content.type || 'bullet'}
+          onChange={(e) => setContent({ type: e.target.value as IndicativeContent['type'] })}
+          className={`${inputClass(`${path}.type`)} w-36 flex-shrink-0`}
+        >
+          {Object.entries(CONTENT_TYPE_LABELS).map(([type, label]) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+        <div className="flex-1">
+          <input
+            id={`field-${path}.description`}
+            value={content.description}
+            onChange={(e) => setContent({ description: e.target.value })}
+            className={`${inputClass(`${path}.description`)} ${content.type === 'heading' ? 'font-semibold' : ''}`}
+          />
+          {renderErrors(`${path}.description`)}
+        </div>
+        <button
+          onClick={() => updateOutcome(outcomeIndex, outcome => ({ ...outcome, indicative_content: removeAt(outcome.indicative_content, contentIndex) }))}
+          className="p-2 text-red-600 hover:text-red-800 transition-colors"
+          title="Remove line"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  };
+
+  const renderOutcome = (outcome: LearningOutcome, outcomeIndex: number) => {
+    const path = `learning_outcomes[${outcomeIndex}]`;
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start space-x-2">
+          <div className="w-32 flex-shrink-0">
+            <input
+              id={`field-${path}.id`}
+              value={outcome.id}
+              onChange={(e) => renameOutcome(outcomeIndex, e.target.value)}
+              placeholder="LO1"
+              className={inputClass(`${path}.id`)}
+            />
+            {renderErrors(`${path}.id`)}
+          </div>
+          <div className="flex-1">
+            <textarea
+              id={`field-${path}.description`}
+              value={outcome.description}
+              onChange={(e) => updateOutcome(outcomeIndex, current => ({ ...current, description: e.target.value }))}
+              rows={2}
+              placeholder="What the student will understand or be able to do"
+              className={inputClass(`${path}.description`)}
+            />
+            {renderErrors(`${path}.description`)}
+          </div>
+          <button
+            onClick={() => removeOutcome(outcomeIndex)}
+            className="p-2 text-red-600 hover:text-red-800 transition-colors"
+            title="Remove learning outcome"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Indicative content</p>
+          <SortableList
+            items={outcome.indicative_content}
+            onReorder={(content) => updateOutcome(outcomeIndex, current => ({ ...current, indicative_content: content }))}
+            renderItem={renderContent(outcomeIndex)}
+            itemClassName="bg-white border-gray-200"
+          />
+          <button
+            onClick={() => updateOutcome(outcomeIndex, current => ({ ...current, indicative_content: [...current.indicative_content, { description: '', type: 'bullet' }] }))}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add line
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Tasks</p>
+          {renderErrors(`${path}.outcome_tasks`)}
+          <SortableList
+            items={outcome.outcome_tasks}
+            onReorder={(tasks) => updateOutcome(outcomeIndex, current => ({ ...current, outcome_tasks: tasks }))}
+            renderItem={renderTask(outcomeIndex)}
+            itemClassName="bg-white border-gray-200"
+          />
+          <button
+            onClick={() => updateOutcome(outcomeIndex, current => ({ ...current, outcome_tasks: [...current.outcome_tasks, newOutcomeTask(current)] }))}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add task
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderUnitTask = (unitTask: UnitTask, unitTaskIndex: number) => {
+    const path = `unit_tasks[${unitTaskIndex}]`;
+    const selectedOutcomes = draft.learning_outcomes.filter(outcome => unitTask.learning_outcomes.includes(outcome.id));
+    const availableTaskIds = [...new Set(selectedOutcomes.flatMap(outcome => outcome.outcome_tasks.map(task => task.id)))].filter(Boolean);
+    const strayTaskIds = unitTask.outcome_tasks.filter(id => !availableTaskIds.includes(id));
+    const strayOutcomeIds = unitTask.learning_outcomes.filter(id => !draft.learning_outcomes.some(outcome => outcome.id === id));
+    const listErrors = errors.filter(error => error.path.startsWith(`${path}.learning_outcomes[`) || error.path.startsWith(`${path}.outcome_tasks[`));
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-start space-x-2">
+          <div className="w-40 flex-shrink-0">
+            <input
+              id={`field-${path}.id`}
+              value={unitTask.id}
+              onChange={(e) => updateUnitTask(unitTaskIndex, { id: e.target.value })}
+              placeholder="Task 1"
+              className={inputClass(`${path}.id`)}
+            />
+            {renderErrors(`${path}.id`)}
+          </div>
+          <div className="flex-1" />
+          <button
+            onClick={() => setDraft(prev => ({ ...prev, unit_tasks: removeAt(prev.unit_tasks || [], unitTaskIndex) }))}
+            className="p-2 text-red-600 hover:text-red-800 transition-colors"
+            title="Remove unit task"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+        <div>
+          <textarea
+            id={`field-${path}.description`}
+            value={unitTask.description}
+            onChange={(e) => updateUnitTask(unitTaskIndex, { description: e.target.value })}
+            rows={3}
+            placeholder="The brief for this part of the assignment"
+            className={inputClass(`${path}.description`)}
+          />
+          {renderErrors(`${path}.description`)}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Learning outcomes</p>
+          <div className="flex flex-wrap gap-3">
+            {draft.learning_outcomes.filter(outcome => outcome.id).map((outcome, index) => (
+              <label key={`${outcome.id}-${index}`} className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={unitTask.learning_outcomes.includes(outcome.id)}
+                  onChange={(e) => updateUnitTask(unitTaskIndex, { learning_outcomes: toggleInList(unitTask.learning_outcomes, outcome.id, e.target.checked) })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>{outcome.id}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-1">Outcome tasks</p>
+          {availableTaskIds.length === 0 ? (
+            <p className="text-sm text-gray-500">Select a learning outcome to choose its tasks.</p>
+          ) : (
+            <div className="flex flex-wrap gap-3">
+              {availableTaskIds.map(taskId => (
+                <label key={taskId} className="flex items-center space-x-1 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={unitTask.outcome_tasks.includes(taskId)}
+                    onChange={(e) => updateUnitTask(unitTaskIndex, { outcome_tasks: toggleInList(unitTask.outcome_tasks, taskId, e.target.checked) })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{taskId}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+        {(strayOutcomeIds.length > 0 || strayTaskIds.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {strayOutcomeIds.map(id => (
+              <button
+                key={`lo-${id}`}
+                onClick={() => updateUnitTask(unitTaskIndex, { learning_outcomes: unitTask.learning_outcomes.filter(item => item !== id) })}
+                className="flex items-center px-2 py-1 text-xs bg-red-100 text-red-800 rounded-full hover:bg-red-200 transition-colors"
+                title="Remove this reference"
+              >
+                {id}
+                <X className="h-3 w-3 ml-1" />
+              </button>
+            ))}
+            {strayTaskIds.map(id => (
+              <button
+                key={`task-${id}`}
+                onClick={() => updateUnitTask(unitTaskIndex, { outcome_tasks: unitTask.outcome_tasks.filter(item => item !== id) })}
+                className="flex items-center px-2 py-1 text-xs bg-red-100 text-red-800 rounded-full hover:bg-red-200 transition-colors"
+                title="Remove this reference"
+              >
+                {id}
+                <X className="h-3 w-3 ml-1" />
+              </button>
+            ))}
+          </div>
+        )}
+        {listErrors.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {listErrors.map(error => (
+              <li key={`${error.path}-${error.message}`}>{error.message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const renderPreview = () => {
+    const previewTasks = result.learning_outcomes.flatMap(outcome => outcome.outcome_tasks.map(task => ({ outcome, task })));
+    const current = previewTaskIndex !== null ? previewTasks[previewTaskIndex] : undefined;
+
+    return (
+      <div className="space-y-6">
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex flex-wrap items-center justify-between gap-3 text-sm text-amber-800">
+          <span>Preview of the unit as students will see it. Answers typed here are not saved.</span>
+          <select
+            value={previewTaskIndex ?? ''}
+            onChange={(e) => setPreviewTaskIndex(e.target.value === '' ? null : Number(e.target.value))}
+            className="px-3 py-1.5 border border-amber-300 rounded-lg bg-white text-gray-800"
+          >
+            <option value="">Unit overview</option>
+            {previewTasks.map(({ outcome, task }, index) => (
+              <option key={index} value={index}>{outcome.id} / {task.id || '(no id)'}</option>
+            ))}
+          </select>
+        </div>
+
+        {current ? (
+          <TaskView
+            key={previewTaskIndex}
+            learningOutcome={current.outcome}
+            task={current.task}
+            unitId={result.id}
+            unit={result}
+            answer={undefined}
+            onAnswerUpdate={() => {}}
+            onRequestFeedback={async () => {}}
+            onMarkComplete={() => {}}
+            onSubmitForReview={() => {}}
+            onRecordOutcome={() => {}}
+            onNavigateBack={() => setPreviewTaskIndex(null)}
+            onNavigateNext={() => setPreviewTaskIndex(index => Math.min((index ?? 0) + 1, previewTasks.length - 1))}
+            onNavigatePrevious={() => setPreviewTaskIndex(index => Math.max((index ?? 0) - 1, 0))}
+            hasNext={previewTaskIndex !== null && previewTaskIndex < previewTasks.length - 1}
+            hasPrevious={previewTaskIndex !== null && previewTaskIndex > 0}
+            totalTasks={new Set(previewTasks.map(({ task }) => task.id)).size}
+            completedTasks={0}
+            currentTaskNumber={(previewTaskIndex ?? 0) + 1}
+          />
+        ) : (
+          <UnitOverview
+            unit={result}
+            preview
+            onStartLearning={() => setPreviewTaskIndex(previewTasks.length > 0 ? 0 : null)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  const unitTasks = draft.unit_tasks || [];
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <button
+            onClick={handleCancel}
+            className="flex items-center text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Units
+          </button>
+          <div className="flex items-center space-x-2">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              <button
+                onClick={() => setMode('edit')}
+                className={`flex items-center px-4 py-2 text-sm font-medium transition-colors ${mode === 'edit' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+              >
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </button>
+              <button
+                onClick={() => setMode('preview')}
+                className={`flex items-center px-4 py-2 text-sm font-medium transition-colors ${mode === 'preview' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Preview
+              </button>
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={errors.length > 0}
+              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title={errors.length > 0 ? 'Fix the problems listed below first' : undefined}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              {isNew ? 'Add Unit' : 'Save Unit'}
+            </button>
+          </div>
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900">
+          {importWarnings ? 'Review Imported Unit' : isNew ? 'Create Unit' : `Edit ${initialDraft.title || initialDraft.id}`}
+        </h1>
+        {!isNew && (
+          <p className="text-sm text-gray-600 mt-1">
+            Answers are stored by task id. Renaming or removing a task detaches the answers given to it.
+          </p>
+        )}
+        {importWarnings && (
+          <p className="text-sm text-gray-600 mt-1">
+            Read from an assignment brief. Check the learning outcomes, task types and acceptance criteria before adding the unit.
+          </p>
+        )}
+      </div>
+
+      {importWarnings && importWarnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4">
+          <p className="flex items-center text-sm font-medium text-yellow-800 mb-2">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            {importWarnings.length} part{importWarnings.length === 1 ? '' : 's'} of the brief could not be placed
+          </p>
+          <ul className="text-sm text-yellow-800 space-y-1 max-h-48 overflow-y-auto">
+            {importWarnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Validation */}
+      {errors.length > 0 ? (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+          <p className="flex items-center text-sm font-medium text-red-800 mb-2">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            {errors.length} problem{errors.length === 1 ? '' : 's'} to fix before saving
+          </p>
+          <ul className="text-sm text-red-700 space-y-1 max-h-48 overflow-y-auto">
+            {errors.map((error, index) => (
+              <li key={index}>
+                <button onClick={() => focusField(error.path)} className="text-left hover:underline">
+                  <code className="bg-red-100 px-1 rounded">{error.path || 'unit'}</code> {error.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <div className="bg-green-50 border border-green-200 rounded-xl p-4 flex items-center text-sm text-green-800">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          The unit is valid and ready to save.
+        </div>
+      )}
+
+      {mode === 'preview' ? renderPreview() : (
+        <>
+          {/* Unit details */}
+          <div className="bg-white rounded-xl shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <BookOpen className="h-5 w-5 mr-2" />
+              Unit Details
+            </h2>
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="field-id" className="block text-sm font-medium text-gray-700 mb-2">Id</label>
+                  <input
+                    id="field-id"
+                    value={draft.id}
+                    onChange={(e) => update({ id: e.target.value })}
+                    disabled={!isNew}
+                    placeholder="unit-10"
+                    className={`${inputClass('id')} disabled:bg-gray-100 disabled:text-gray-500`}
+                  />
+                  {renderErrors('id')}
+                  {!isNew && <p className="text-xs text-gray-500 mt-1">Progress is stored under the id, so it can't be changed.</p>}
+                </div>
+                <div>
+                  <label htmlFor="field-title" className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+                  <input
+                    id="field-title"
+                    value={draft.title}
+                    onChange={(e) => update({ title: e.target.value })}
+                    className={inputClass('title')}
+                  />
+                  {renderErrors('title')}
+                </div>
+                <div>
+                  <label htmlFor="field-credits" className="block text-sm font-medium text-gray-700 mb-2">Credits</label>
+                  <input
+                    id="field-credits"
+                    type="number"
+                    min={0}
+                    value={draft.credits ?? ''}
+                    onChange={(e) => update({ credits: parseOptionalNumber(e.target.value) })}
+                    className={inputClass('credits')}
+                  />
+                  {renderErrors('credits')}
+                </div>
+                <div>
+                  <label htmlFor="field-guided_learning_hours" className="block text-sm font-medium text-gray-700 mb-2">Guided learning hours</label>
+                  <input
+                    id="field-guided_learning_hours"
+                    type="number"
+                    min={0}
+                    value={draft.guided_learning_hours ?? ''}
+                    onChange={(e) => update({ guided_learning_hours: parseOptionalNumber(e.target.value) })}
+                    className={inputClass('guided_learning_hours')}
+                  />
+                  {renderErrors('guided_learning_hours')}
+                </div>
+              </div>
+              {([
+                { field: 'instructions', label: 'Instructions', rows: 5 },
+                { field: 'scenario', label: 'Scenario', rows: 5 },
+                { field: 'task', label: 'Task (for units without unit tasks)', rows: 3 }
+              ] as const).map(({ field, label, rows }) => (
+                <div key={field}>
+                  <label htmlFor={`field-${field}`} className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                  <textarea
+                    id={`field-${field}`}
+                    value={draft[field] ?? ''}
+                    onChange={(e) => update({ [field]: e.target.value })}
+                    rows={rows}
+                    className={inputClass(field)}
+                  />
+                  {renderErrors(field)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Learning outcomes */}
+          <div className="bg-white rounded-xl shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <Target className="h-5 w-5 mr-2" />
+              Learning Outcomes
+            </h2>
+            <div className="space-y-4">
+              {renderErrors('learning_outcomes')}
+              <SortableList
+                items={draft.learning_outcomes}
+                onReorder={(learningOutcomes) => update({ learning_outcomes: learningOutcomes })}
+                renderItem={renderOutcome}
+              />
+              <button
+                onClick={() => setDraft(prev => ({ ...prev, learning_outcomes: [...prev.learning_outcomes, newLearningOutcome(prev.learning_outcomes.length)] }))}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Learning Outcome
+              </button>
+            </div>
+          </div>
+
+          {/* Unit tasks */}
+          <div className="bg-white rounded-xl shadow-sm border p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <ListChecks className="h-5 w-5 mr-2" />
+              Unit Tasks
+            </h2>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Multi-part assignments group outcome tasks into unit tasks, each with its own brief. Leave this empty
+                and fill in the task field above for a single-task unit.
+              </p>
+              <SortableList
+                items={unitTasks}
+                onReorder={(reordered) => update({ unit_tasks: reordered })}
+                renderItem={renderUnitTask}
+              />
+              <button
+                onClick={() => setDraft(prev => ({ ...prev, unit_tasks: [...(prev.unit_tasks || []), newUnitTask((prev.unit_tasks || []).length)] }))}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Unit Task
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,21 @@
-import React from 'react';
-import { BookOpen, Plus, Calendar, CheckCircle, Clock, Trash2, Save, Download, Settings, BarChart3 } from 'lucide-react';
+import React, { useRef } from 'react';
+import { BookOpen, Plus, Calendar, CheckCircle, Clock, Trash2, Save, Download, Settings, BarChart3, FileDown, FileUp, FilePlus, Pencil } from 'lucide-react';
 import { UnitSummary } from '../types/Unit';
-import { downloadProgressAsJson, saveProgressToStorageFolder } from '../utils/storageExport';
+import { ExportedUnit, downloadProgressAsJson, downloadUnitExport, parseUnitExport, saveProgressToStorageFolder } from '../utils/storageExport';
 
 interface UnitListProps {
   units: UnitSummary[];
   onSelectUnit: (unitId: string) => void;
   onAddUnit: () => void;
+  onCreateUnit: () => void;
+  onEditUnit: (unitId: string) => void;
   onLoadFromStorage: () => void;
   onOpenSettings: () => void;
   onViewOverallProgress: () => void;
   onRemoveUnit: (unitId: string) => void;
+  onImportUnit: (exported: ExportedUnit) => Promise<void>;
+  onOpenTrash: () => void;
+  trashCount: number;
   getUnit: (unitId: string) => any;
 }
 
@@ -18,12 +23,19 @@ export const UnitList: React.FC<UnitListProps> = ({
   units,
   onSelectUnit,
   onAddUnit,
+  onCreateUnit,
+  onEditUnit,
   onLoadFromStorage,
   onOpenSettings,
   onViewOverallProgress,
   onRemoveUnit,
+  onImportUnit,
+  onOpenTrash,
+  trashCount,
   getUnit
 }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   const getProgressPercentage = (unit: UnitSummary) => {
     return unit.totalTasks > 0 ? Math.round((unit.completedTasks / unit.totalTasks) * 100) : 0;
   };
@@ -37,19 +49,49 @@ export const UnitList: React.FC<UnitListProps> = ({
 
   const handleRemoveUnit = (e: React.MouseEvent, unitId: string) => {
     e.stopPropagation();
-    if (window.confirm('Are you sure you want to remove this unit? This will delete all progress data.')) {
+    if (window.confirm('Move this unit to the trash? Its progress is kept and you can restore it from the trash.')) {
       onRemoveUnit(unitId);
     }
   };
 
+  const handleEditUnit = (e: React.MouseEvent, unitId: string) => {
+    e.stopPropagation();
+    onEditUnit(unitId);
+  };
+
+  const handleExportUnit = async (e: React.MouseEvent, unitId: string) => {
+    e.stopPropagation();
+    try {
+      await downloadUnitExport(unitId);
+    } catch (error) {
+      console.error('Unit export failed:', error);
+      alert(`Failed to export the unit: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const exported = parseUnitExport(await file.text());
+      const existing = units.find(u => u.id === exported.unitData.id);
+      if (existing && !window.confirm(`Replace "${existing.title}" and its progress with the imported copy? Other units are not affected.`)) {
+        return;
+      }
+      await onImportUnit(exported);
+      alert(`Imported "${exported.unitData.title}"`);
+    } catch (error) {
+      console.error('Unit import failed:', error);
+      alert(`Failed to import the unit: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
   const handleSaveToStorage = async () => {
     try {
       const result = await saveProgressToStorageFolder();
-      if (result.chunks) {
-        alert(`Progress saved successfully in ${result.chunks.length + 1} files due to large size:\n- ${result.fileName} (metadata)\n- ${result.chunks.length} unit files`);
-      } else {
-        alert(`Progress saved successfully to storage/${result.fileName}`);
-      }
+      alert(`Progress saved successfully to storage/${result.fileName}`);
     } catch (error) {
       console.error('Save failed:', error);
       alert(`Failed to save to storage folder: ${error.message}`);
@@ -85,6 +127,13 @@ export const UnitList: React.FC<UnitListProps> = ({
             <Plus className="h-5 w-5 mr-2" />
             Add New Unit
           </button>
+          <button
+            onClick={onCreateUnit}
+            className="flex items-center px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-lg"
+          >
+            <FilePlus className="h-5 w-5 mr-2" />
+            Create Unit
+          </button>
           <button
             onClick={onLoadFromStorage}
             className="flex items-center px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors shadow-lg"
@@ -92,6 +141,20 @@ export const UnitList: React.FC<UnitListProps> = ({
             <Download className="h-5 w-5 mr-2" />
             Load from Storage
           </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-lg"
+          >
+            <FileUp className="h-5 w-5 mr-2" />
+            Import Unit
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
           {units.length > 0 && (
             <button
               onClick={handleSaveToStorage}
@@ -110,6 +173,15 @@ export const UnitList: React.FC<UnitListProps> = ({
               Overall Progress
             </button>
           )}
+          {trashCount > 0 && (
+            <button
+              onClick={onOpenTrash}
+              className="flex items-center px-6 py-3 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-lg"
+            >
+              <Trash2 className="h-5 w-5 mr-2" />
+              Trash ({trashCount})
+            </button>
+          )}
           <button
             onClick={onOpenSettings}
             className="flex items-center px-6 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors shadow-lg"
@@ -155,6 +227,20 @@ export const UnitList: React.FC<UnitListProps> = ({
                         {unit.title}
                       </h3>
                     </div>
+                    <button
+                      onClick={(e) => handleEditUnit(e, unit.id)}
+                      className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-blue-600 transition-all duration-200"
+                      title="Edit unit"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={(e) => handleExportUnit(e, unit.id)}
+                      className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-blue-600 transition-all duration-200"
+                      title="Export unit with progress"
+                    >
+                      <FileDown className="h-4 w-4" />
+                    </button>
                     <button
                       onClick={(e) => handleRemoveUnit(e, unit.id)}
                       className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-600 transition-all duration-200"
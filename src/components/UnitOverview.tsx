@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
 import { Unit } from '../types/Unit';
-import { BookOpen, Target, Users, ChevronDown, ChevronRight, Clock, MapPin, CheckSquare, Lightbulb, FileText, Play, List } from 'lucide-react';
+import { BookOpen, Target, Users, ChevronDown, ChevronRight, Clock, MapPin, CheckSquare, Lightbulb, FileText, Play, List, FileDown } from 'lucide-react';
 import { replaceTablesWithPlaceholder } from '../utils/markdownRenderer';
+import { downloadUnitExport } from '../utils/storageExport';
 
 interface UnitOverviewProps {
   unit: Unit;
   onStartLearning: () => void;
+  // Shown inside the unit editor, where the unit isn't stored yet
+  preview?: boolean;
 }
 
 function SmartScenarioInline({ text }: { text?: string }) {
@@ -34,10 +37,19 @@ function SmartScenarioInline({ text }: { text?: string }) {
 }
 
 
-export const UnitOverview: React.FC<UnitOverviewProps> = ({ unit, onStartLearning }) => {
+export const UnitOverview: React.FC<UnitOverviewProps> = ({ unit, onStartLearning, preview = false }) => {
   const [showInstructions, setShowInstructions] = useState(false);
   const [showUnitTasks, setShowUnitTasks] = useState(false);
 
+  const handleExport = async () => {
+    try {
+      await downloadUnitExport(unit.id);
+    } catch (error) {
+      console.error('Unit export failed:', error);
+      alert(`Failed to export the unit: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
   // Calculate unique tasks across all learning outcomes
   const getUniqueTaskCount = () => {
     const allTaskIds = new Set<string>();
@@ -204,7 +216,7 @@ export const UnitOverview: React.FC<UnitOverviewProps> = ({ unit, onStartLearnin
       </div>
 
       {/* Start Button */}
-      <div className="flex justify-center pt-6">
+      <div className="flex justify-center items-center space-x-4 pt-6">
         <button
           onClick={onStartLearning}
           className="px-8 py-4 bg-blue-600 text-white text-lg font-semibold rounded-xl hover:bg-blue-700 transition-colors shadow-lg"
@@ -212,6 +224,16 @@ export const UnitOverview: React.FC<UnitOverviewProps> = ({ unit, onStartLearnin
           <Play className="h-6 w-6 mr-3 inline" />
           Start Learning
         </button>
+        {!preview && (
+          <button
+            onClick={handleExport}
+            className="px-6 py-4 bg-white text-gray-700 border border-gray-300 text-lg font-semibold rounded-xl hover:bg-gray-50 transition-colors shadow-lg"
+            title="Download this unit with its progress as a single file"
+          >
+            <FileDown className="h-6 w-6 mr-3 inline" />
+            Export Unit
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, ArrowRight, GitCompare, AlertTriangle, AlertCircle, Unlink } from 'lucide-react';
+import { Progress, Unit } from '../types/Unit';
+import { storage, progressKey } from '../utils/storageBackend';
+import { deriveTaskStatus } from '../utils/taskStatus';
+import {
+  CriteriaDiff,
+  TaskMapping,
+  diffUnits,
+  findMappingConflicts,
+  findTasksNeedingReReview,
+  findUnlinkedAnswers,
+  migrateProgress,
+  suggestTaskMapping
+} from '../utils/unitUpgrade';
+
+interface UnitUpgradeProps {
+  oldUnit: Unit;
+  newUnit: Unit;
+  onApply: (unit: Unit, progress: Progress | null) => Promise<void>;
+  onCancel: () => void;
+}
+
+const describeCriteria = (criteria: CriteriaDiff) => [
+  ...criteria.added.map(id => `${id} added`),
+  ...criteria.removed.map(id => `${id} removed`),
+  ...criteria.changed.map(id => `${id} reworded`),
+  ...criteria.renamed.map(({ from, to }) => `${from} renumbered to ${to}`)
+].join(', ');
+
+const IdList: React.FC<{ label: string; ids: string[]; className: string }> = ({ label, ids, className }) =>
+  ids.length === 0 ? null : (
+    <p className="text-sm">
+      <span className="text-gray-600">{label}: </span>
+      {ids.map(id => (
+        <span key={id} className={`inline-block mr-1.5 mb-1 px-2 py-0.5 rounded font-mono text-xs ${className}`}>{id}</span>
+      ))}
+    </p>
+  );
+
+// Shown when a unit is uploaded or saved under an id that already exists. Lists what changed
+// between the two versions and lets the user say which new task each old task's answer belongs
+// to before the progress is migrated.
+export const UnitUpgrade: React.FC<UnitUpgradeProps> = ({ oldUnit, newUnit, onApply, onCancel }) => {
+  const diff = useMemo(() => diffUnits(oldUnit, newUnit), [oldUnit, newUnit]);
+  const [mapping, setMapping] = useState<TaskMapping>(() => suggestTaskMapping(oldUnit, newUnit, diff));
+  const [progress, setProgress] = useState<Progress | null>(null);
+  const [loadingProgress, setLoadingProgress] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    storage.get<Progress>(progressKey(oldUnit.id))
+      .then(stored => setProgress(stored))
+      .catch(err => console.error('Error loading progress for the upgrade:', err))
+      .finally(() => setLoadingProgress(false));
+  }, [oldUnit.id]);
+
+  const newTaskIds = useMemo(() => [...new Set(newUnit.learning_outcomes.flatMap(lo => lo.outcome_tasks.map(task => task.id)))], [newUnit]);
+  // Only tasks that lost their id need a decision; the rest keep their answers where they are
+  const movedTaskIds = Object.keys(mapping).filter(id => !newTaskIds.includes(id));
+  const targetOptions = newTaskIds.filter(id => !(id in mapping));
+
+  const conflicts = findMappingConflicts(mapping);
+  const reReview = findTasksNeedingReReview(oldUnit, newUnit, progress, mapping);
+  const unlinked = findUnlinkedAnswers(progress, mapping);
+  const answerFor = (taskId: string) => progress?.answers.find(answer => answer.taskId === taskId);
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      await onApply(newUnit, progress ? migrateProgress(progress, mapping, newUnit) : null);
+    } catch (error) {
+      alert(`Failed to upgrade the unit: ${error instanceof Error ? error.message : 'unknown error'}`);
+      setApplying(false);
+    }
+  };
+
+  const outcomeChangeCount = diff.outcomes.added.length + diff.outcomes.removed.length + diff.outcomes.renamed.length + diff.outcomes.changed.length;
+  const taskChangeCount = diff.tasks.added.length + diff.tasks.removed.length + diff.tasks.renamed.length + diff.tasks.changed.length;
+  const changeCount = outcomeChangeCount + taskChangeCount;
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <button
+          onClick={onCancel}
+          className="flex items-center text-gray-600 hover:text-gray-900 transition-colors mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </button>
+        <div className="text-center">
+          <GitCompare className="h-12 w-12 text-blue-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Upgrade {oldUnit.title}</h1>
+          <p className="text-gray-600">
+            A unit with the id <span className="font-mono">{oldUnit.id}</span> already exists. Review the changes and
+            where existing answers go before replacing it.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <GitCompare className="h-5 w-5 mr-2" />
+          Changes
+        </h2>
+        {changeCount === 0 ? (
+          <p className="text-sm text-gray-600">No learning outcomes, tasks or acceptance criteria changed.</p>
+        ) : (
+          <div className="space-y-4">
+            {outcomeChangeCount > 0 && (
+              <div className="space-y-1">
+                <h3 className="font-medium text-gray-900">Learning outcomes</h3>
+                <IdList label="Added" ids={diff.outcomes.added} className="bg-green-100 text-green-800" />
+                <IdList label="Removed" ids={diff.outcomes.removed} className="bg-red-100 text-red-800" />
+                <IdList label="Renumbered" ids={diff.outcomes.renamed.map(({ from, to }) => `${from} → ${to}`)} className="bg-blue-100 text-blue-800" />
+                <IdList label="Reworded" ids={diff.outcomes.changed} className="bg-yellow-100 text-yellow-800" />
+              </div>
+            )}
+            {taskChangeCount > 0 && (
+              <div className="space-y-1">
+                <h3 className="font-medium text-gray-900">Tasks</h3>
+                <IdList label="Added" ids={diff.tasks.added} className="bg-green-100 text-green-800" />
+                <IdList label="Removed" ids={diff.tasks.removed} className="bg-red-100 text-red-800" />
+                <IdList label="Renumbered" ids={diff.tasks.renamed.map(({ from, to }) => `${from} → ${to}`)} className="bg-blue-100 text-blue-800" />
+                {diff.tasks.changed.length > 0 && (
+                  <ul className="text-sm text-gray-700 space-y-1 mt-2">
+                    {diff.tasks.changed.map(change => (
+                      <li key={change.newId}>
+                        <span className="font-mono">{change.newId}</span>:{' '}
+                        {[
+                          change.descriptionChanged && 'description reworded',
+                          change.typeChanged && 'type changed',
+                          describeCriteria(change.criteria) && `criteria ${describeCriteria(change.criteria)}`
+                        ].filter(Boolean).join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {movedTaskIds.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <ArrowRight className="h-5 w-5 mr-2" />
+            Task Mapping
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            These tasks no longer exist under their old id. Choose the new task that takes over each one's answer,
+            versions and status history.
+          </p>
+          <div className="divide-y border rounded-lg">
+            {movedTaskIds.map(oldId => {
+              const answer = answerFor(oldId);
+              return (
+                <div key={oldId} className="p-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <span className="font-mono text-sm text-gray-900">{oldId}</span>
+                    <p className="text-xs text-gray-500">
+                      {answer ? `Answer v${answer.version} · ${deriveTaskStatus(answer)}` : 'No answer'}
+                    </p>
+                  </div>
+                  <select
+                    value={mapping[oldId] ?? ''}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [oldId]: e.target.value || null }))}
+                    className={`px-3 py-1.5 text-sm border rounded-lg ${conflicts.includes(mapping[oldId] ?? '') ? 'border-red-400' : 'border-gray-300'}`}
+                  >
+                    <option value="">Leave unlinked</option>
+                    {targetOptions.map(id => (
+                      <option key={id} value={id}>{id}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+          {conflicts.length > 0 && (
+            <p className="mt-3 text-sm text-red-700 flex items-center">
+              <AlertCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+              More than one old task is mapped to {conflicts.join(', ')}; each new task can take over one answer.
+            </p>
+          )}
+        </div>
+      )}
+
+      {(reReview.length > 0 || unlinked.length > 0) && (
+        <div className="bg-white rounded-xl shadow-sm border p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <AlertTriangle className="h-5 w-5 mr-2" />
+            Needs Attention
+          </h2>
+          <div className="space-y-4">
+            {reReview.length > 0 && (
+              <div>
+                <p className="text-sm text-gray-700 mb-2">
+                  These achieved tasks have changed acceptance criteria and may need to be reviewed again:
+                </p>
+                <ul className="text-sm space-y-1">
+                  {reReview.map(task => (
+                    <li key={task.oldId} className="p-2 bg-yellow-50 border border-yellow-200 rounded">
+                      <span className="font-mono">{task.oldId === task.newId ? task.newId : `${task.oldId} → ${task.newId}`}</span>
+                      <span className="text-gray-600"> · criteria {describeCriteria(task.criteria)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {unlinked.length > 0 && (
+              <p className="text-sm text-gray-700 flex items-start">
+                <Unlink className="h-4 w-4 mr-1.5 mt-0.5 flex-shrink-0" />
+                {unlinked.length} answer{unlinked.length === 1 ? '' : 's'} ({unlinked.map(answer => answer.taskId).join(', ')}) will
+                be kept with the unit's progress but no longer shown under any task.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={loadingProgress || applying || conflicts.length > 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {applying ? 'Upgrading...' : 'Upgrade Unit'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,85 +1,106 @@
 import React, { useState, useRef } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react';
-import { Unit } from '../types/Unit';
+import { Upload, FileText, AlertCircle, CheckCircle, ArrowLeft, Library } from 'lucide-react';
+import { Unit, UnitSummary } from '../types/Unit';
+import { UnitCatalogue } from './UnitCatalogue';
+import { ExportedUnit, readUnitPackFile, splitIntoUnitExports } from '../utils/storageExport';
+import { UNITPACK_EXTENSION } from '../utils/unitPack';
+import { InvalidUnitError, UnitSchemaError, parseUnit, validateUnitData } from '../utils/unitSchema';
+import { BRIEF_EXTENSIONS, importBriefFile, isBriefFile } from '../utils/briefImport';
 
 interface UnitUploadProps {
-  onUnitUploaded: (unit: Unit) => void;
+  // catalogueVersion is set for units added from the catalogue
+  onUnitUploaded: (unit: Unit, catalogueVersion?: string) => void;
+  // Units from a .unitpack archive arrive with their progress
+  onUnitsImported: (units: ExportedUnit[]) => Promise<void>;
+  // Assignment briefs become a draft unit for review before it is added
+  onBriefImported: (draft: Unit, warnings: string[]) => void;
   onBack: () => void;
+  installedUnits: UnitSummary[];
 }
 
-export const UnitUpload: React.FC<UnitUploadProps> = ({ onUnitUploaded, onBack }) => {
+export const UnitUpload: React.FC<UnitUploadProps> = ({ onUnitUploaded, onUnitsImported, onBriefImported, onBack, installedUnits }) => {
+  const [source, setSource] = useState<'file' | 'catalogue'>('file');
   const [dragActive, setDragActive] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<UnitSchemaError[]>([]);
   const [success, setSuccess] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('Unit uploaded successfully!');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateUnit = (data: any): Unit => {
-    // Basic validation
-    if (!data.id || typeof data.id !== 'string') {
-      throw new Error('Unit must have a valid id');
-    }
-    if (!data.title || typeof data.title !== 'string') {
-      throw new Error('Unit must have a valid title');
-    }
-    
-    // Check for either task or unit_tasks
-    if (!data.task && (!data.unit_tasks || !Array.isArray(data.unit_tasks))) {
-      throw new Error('Unit must have either a task field or unit_tasks array');
-    }
-    
-    if (!data.learning_outcomes || !Array.isArray(data.learning_outcomes)) {
-      throw new Error('Unit must have learning_outcomes array');
-    }
-    if (data.learning_outcomes.length === 0) {
-      throw new Error('Unit must have at least one learning outcome');
-    }
-    
-    // Validate unit_tasks if present
-    if (data.unit_tasks && Array.isArray(data.unit_tasks)) {
-      data.unit_tasks.forEach((unitTask: any, index: number) => {
-        if (!unitTask.id || !unitTask.description || !unitTask.learning_outcomes || !unitTask.outcome_tasks) {
-          throw new Error(`Unit task ${index + 1} is missing required fields (id, description, learning_outcomes, outcome_tasks)`);
-        }
-        if (!Array.isArray(unitTask.learning_outcomes) || !Array.isArray(unitTask.outcome_tasks)) {
-          throw new Error(`Unit task ${index + 1} learning_outcomes and outcome_tasks must be arrays`);
-        }
-      });
-    }
+  const showError = (err: unknown, fallback: string) => {
+    setError(err instanceof Error ? err.message : fallback);
+    setValidationErrors(err instanceof InvalidUnitError ? err.errors : []);
+  };
 
-    // Validate learning outcomes structure
-    data.learning_outcomes.forEach((lo: any, index: number) => {
-      if (!lo.id || !lo.description || !lo.outcome_tasks || !Array.isArray(lo.outcome_tasks)) {
-        throw new Error(`Learning outcome ${index + 1} is missing required fields`);
-      }
-      if (lo.outcome_tasks.length === 0) {
-        throw new Error(`Learning outcome ${index + 1} must have at least one task`);
+  // Adds every unit in an archive with its progress. Settings in the archive are left alone;
+  // "Load from Storage" can restore those.
+  const handleUnitPack = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    setValidationErrors([]);
+    setSuccess(false);
+
+    try {
+      const { snapshot } = await readUnitPackFile(file);
+      const units = splitIntoUnitExports(snapshot);
+      if (units.length === 0) {
+        throw new Error('The archive contains no units');
       }
-      
-      lo.outcome_tasks.forEach((task: any, taskIndex: number) => {
-        if (!task.id || !task.description || !task.type || !task.acceptance_criteria) {
-          throw new Error(`Task ${taskIndex + 1} in learning outcome ${index + 1} is missing required fields`);
+      units.forEach(exported => {
+        const errors = validateUnitData(exported.unitData);
+        if (errors.length > 0) {
+          throw new InvalidUnitError(errors, `Unit "${exported.unitSummary.id}" in the archive has ${errors.length} problem${errors.length === 1 ? '' : 's'}`);
         }
       });
-    });
+      await onUnitsImported(units);
+      setSuccessMessage(`${units.length} unit${units.length === 1 ? '' : 's'} imported with progress!`);
+      setSuccess(true);
+      setTimeout(onBack, 1000);
+    } catch (err) {
+      showError(err, 'Failed to process archive');
+    } finally {
+      setUploading(false);
+    }
+  };
 
-    return data as Unit;
+  const handleBrief = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    setValidationErrors([]);
+    setSuccess(false);
+
+    try {
+      const { unit, warnings } = await importBriefFile(file);
+      onBriefImported(unit, warnings);
+    } catch (err) {
+      showError(err, 'Failed to read the brief');
+      setUploading(false);
+    }
   };
 
   const handleFile = async (file: File) => {
+    if (file.name.endsWith(UNITPACK_EXTENSION)) {
+      return handleUnitPack(file);
+    }
+    if (isBriefFile(file.name)) {
+      return handleBrief(file);
+    }
     if (!file.name.endsWith('.json')) {
-      setError('Please upload a JSON file');
+      setError(`Please upload a JSON, ${UNITPACK_EXTENSION}, Markdown or Word file`);
+      setValidationErrors([]);
       return;
     }
 
     setUploading(true);
     setError(null);
+    setValidationErrors([]);
     setSuccess(false);
 
     try {
       const text = await file.text();
       const data = JSON.parse(text);
-      const validatedUnit = validateUnit(data);
+      const validatedUnit = parseUnit(data);
       
       setSuccess(true);
       setTimeout(() => {
@@ -89,7 +110,7 @@ export const UnitUpload: React.FC<UnitUploadProps> = ({ onUnitUploaded, onBack }
       if (err instanceof SyntaxError) {
         setError('Invalid JSON file format');
       } else {
-        setError(err instanceof Error ? err.message : 'Failed to process unit file');
+        showError(err, 'Failed to process unit file');
       }
     } finally {
       setUploading(false);
@@ -143,103 +164,155 @@ export const UnitUpload: React.FC<UnitUploadProps> = ({ onUnitUploaded, onBack }
         <div className="text-center">
           <Upload className="h-12 w-12 text-blue-600 mx-auto mb-4" />
           <h1 className="text-2xl font-bold text-gray-900 mb-2">Upload New Unit</h1>
-          <p className="text-gray-600">Upload a JSON file containing your learning unit data</p>
+          <p className="text-gray-600">Upload a JSON file containing your learning unit data, or pick one from the catalogue</p>
+        </div>
+
+        <div className="flex justify-center mt-4">
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => setSource('file')}
+              className={`flex items-center px-4 py-2 text-sm font-medium transition-colors ${source === 'file' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Upload File
+            </button>
+            <button
+              onClick={() => setSource('catalogue')}
+              className={`flex items-center px-4 py-2 text-sm font-medium transition-colors ${source === 'catalogue' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+            >
+              <Library className="h-4 w-4 mr-2" />
+              Browse Catalogue
+            </button>
+          </div>
         </div>
       </div>
 
-      {/* Upload Area */}
-      <div className="bg-white rounded-xl shadow-sm border p-6">
-        <div
-          className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-            dragActive
-              ? 'border-blue-500 bg-blue-50'
-              : success
-              ? 'border-green-500 bg-green-50'
-              : error
-              ? 'border-red-500 bg-red-50'
-              : 'border-gray-300 hover:border-gray-400'
-          }`}
-          onDragEnter={handleDrag}
-          onDragLeave={handleDrag}
-          onDragOver={handleDrag}
-          onDrop={handleDrop}
-        >
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".json"
-            onChange={handleFileInput}
-            className="hidden"
-          />
-
-          {uploading ? (
-            <div className="space-y-4">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
-              <p className="text-gray-600">Processing unit file...</p>
-            </div>
-          ) : success ? (
-            <div className="space-y-4">
-              <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
-              <p className="text-green-600 font-medium">Unit uploaded successfully!</p>
-              <p className="text-sm text-gray-600">Redirecting to unit list...</p>
-            </div>
-          ) : error ? (
-            <div className="space-y-4">
-              <AlertCircle className="h-12 w-12 text-red-600 mx-auto" />
-              <p className="text-red-600 font-medium">Upload Failed</p>
-              <p className="text-sm text-red-600">{error}</p>
-              <button
-                onClick={openFileDialog}
-                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-              >
-                Try Again
-              </button>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              <FileText className="h-12 w-12 text-gray-400 mx-auto" />
-              <div>
-                <p className="text-lg font-medium text-gray-900 mb-2">
-                  Drop your JSON file here, or{' '}
+      {source === 'catalogue' ? (
+        <div className="bg-white rounded-xl shadow-sm border p-6">
+          <UnitCatalogue installedUnits={installedUnits} onAddUnit={onUnitUploaded} />
+        </div>
+      ) : (
+        <>
+          {/* Upload Area */}
+          <div className="bg-white rounded-xl shadow-sm border p-6">
+            <div
+              className={`relative border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                dragActive
+                  ? 'border-blue-500 bg-blue-50'
+                  : success
+                  ? 'border-green-500 bg-green-50'
+                  : error
+                  ? 'border-red-500 bg-red-50'
+                  : 'border-gray-300 hover:border-gray-400'
+              }`}
+              onDragEnter={handleDrag}
+              onDragLeave={handleDrag}
+              onDragOver={handleDrag}
+              onDrop={handleDrop}
+            >
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={[`.json`, UNITPACK_EXTENSION, ...BRIEF_EXTENSIONS].join(',')}
+                onChange={handleFileInput}
+                className="hidden"
+              />
+
+              {uploading ? (
+                <div className="space-y-4">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+                  <p className="text-gray-600">Processing unit file...</p>
+                </div>
+              ) : success ? (
+                <div className="space-y-4">
+                  <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+                  <p className="text-green-600 font-medium">{successMessage}</p>
+                  <p className="text-sm text-gray-600">Redirecting to unit list...</p>
+                </div>
+              ) : error ? (
+                <div className="space-y-4">
+                  <AlertCircle className="h-12 w-12 text-red-600 mx-auto" />
+                  <p className="text-red-600 font-medium">Upload Failed</p>
+                  <p className="text-sm text-red-600">{error}</p>
+                  {validationErrors.length > 0 && (
+                    <ul className="text-left text-sm text-red-700 bg-white border border-red-200 rounded-lg p-3 space-y-1 max-h-64 overflow-y-auto">
+                      {validationErrors.map((validationError, index) => (
+                        <li key={index}>
+                          <code className="bg-red-100 px-1 rounded">{validationError.path || 'unit'}</code> {validationError.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                   <button
                     onClick={openFileDialog}
-                    className="text-blue-600 hover:text-blue-700 underline"
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
                   >
-                    browse
+                    Try Again
                   </button>
-                </p>
-                <p className="text-sm text-gray-600">
-                  Supports JSON files with valid unit structure
-                </p>
-              </div>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <FileText className="h-12 w-12 text-gray-400 mx-auto" />
+                  <div>
+                    <p className="text-lg font-medium text-gray-900 mb-2">
+                      Drop your JSON file here, or{' '}
+                      <button
+                        onClick={openFileDialog}
+                        className="text-blue-600 hover:text-blue-700 underline"
+                      >
+                        browse
+                      </button>
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      Supports JSON files with valid unit structure, {UNITPACK_EXTENSION} archives, and assignment briefs
+                      as Markdown or Word (.docx) files to turn into a unit
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
-          )}
-        </div>
-      </div>
+          </div>
 
-      {/* File Format Info */}
-      <div className="bg-blue-50 rounded-xl border border-blue-200 p-6">
-        <h3 className="text-lg font-semibold text-blue-900 mb-3">Expected File Format</h3>
-        <div className="text-sm text-blue-800 space-y-2">
-          <p>Your JSON file should contain:</p>
-          <ul className="list-disc list-inside space-y-1 ml-4">
-            <li><code className="bg-blue-100 px-1 rounded">id</code> - Unique identifier for the unit</li>
-            <li><code className="bg-blue-100 px-1 rounded">title</code> - Unit title</li>
-            <li><code className="bg-blue-100 px-1 rounded">instructions</code> - Learning instructions</li>
-            <li><code className="bg-blue-100 px-1 rounded">scenario</code> - Learning scenario</li>
-            <li><code className="bg-blue-100 px-1 rounded">task</code> - (Optional) Main task description for single-task units</li>
-            <li><code className="bg-blue-100 px-1 rounded">unit_tasks</code> - (Optional) Array of unit tasks for multi-task units</li>
-            <li><code className="bg-blue-100 px-1 rounded">learning_outcomes</code> - Array of learning outcomes with tasks</li>
-            <li><code className="bg-blue-100 px-1 rounded">credits</code> - (Optional) Number of credits for this unit</li>
-            <li><code className="bg-blue-100 px-1 rounded">guided_learning_hours</code> - (Optional) Guided learning hours</li>
-          </ul>
-          <p className="mt-3">
-            <span className="font-medium">Note:</span> Units can have either a single <code className="bg-blue-100 px-1 rounded">task</code> field 
-            or multiple <code className="bg-blue-100 px-1 rounded">unit_tasks</code>. Each unit task should include id, description, 
-            learning_outcomes array, and outcome_tasks array.
-          </p>
-        </div>
-      </div>
+          {/* File Format Info */}
+          <div className="bg-blue-50 rounded-xl border border-blue-200 p-6">
+            <h3 className="text-lg font-semibold text-blue-900 mb-3">Expected File Format</h3>
+            <div className="text-sm text-blue-800 space-y-2">
+              <p>Your JSON file should contain:</p>
+              <ul className="list-disc list-inside space-y-1 ml-4">
+                <li><code className="bg-blue-100 px-1 rounded">id</code> - Unique identifier for the unit</li>
+                <li><code className="bg-blue-100 px-1 rounded">title</code> - Unit title</li>
+                <li><code className="bg-blue-100 px-1 rounded">instructions</code> - Learning instructions</li>
+                <li><code className="bg-blue-100 px-1 rounded">scenario</code> - Learning scenario</li>
+                <li><code className="bg-blue-100 px-1 rounded">task</code> - (Optional) Main task description for single-task units</li>
+                <li><code className="bg-blue-100 px-1 rounded">unit_tasks</code> - (Optional) Array of unit tasks for multi-task units</li>
+                <li><code className="bg-blue-100 px-1 rounded">learning_outcomes</code> - Array of learning outcomes with tasks</li>
+                <li><code className="bg-blue-100 px-1 rounded">credits</code> - (Optional) Number of credits for this unit</li>
+                <li><code className="bg-blue-100 px-1 rounded">guided_learning_hours</code> - (Optional) Guided learning hours</li>
+              </ul>
+              <p className="mt-3">
+                <span className="font-medium">Note:</span> Units can have either a single <code className="bg-blue-100 px-1 rounded">task</code> field 
+                or multiple <code className="bg-blue-100 px-1 rounded">unit_tasks</code>. Each unit task should include id, description, 
+                learning_outcomes array, and outcome_tasks array.
+              </p>
+              <p>
+                The full format is described by the{' '}
+                <a href="/unit.schema.json" target="_blank" rel="noopener noreferrer" className="font-medium underline hover:text-blue-900">
+                  unit JSON Schema
+                </a>
+                , which editors such as VS Code can use to check unit files as you write them.
+              </p>
+              <p>
+                <span className="font-medium">Assignment briefs:</span> a Markdown or Word brief is read into a draft unit you can
+                review and correct before adding it. Use a title heading, <code className="bg-blue-100 px-1 rounded">Instructions</code>,{' '}
+                <code className="bg-blue-100 px-1 rounded">Scenario</code> and <code className="bg-blue-100 px-1 rounded">Task</code> headings,
+                one heading per learning outcome (<code className="bg-blue-100 px-1 rounded">LO1 ...</code>), tasks starting with their
+                number (<code className="bg-blue-100 px-1 rounded">1.1</code>, <code className="bg-blue-100 px-1 rounded">1M1</code>,{' '}
+                <code className="bg-blue-100 px-1 rounded">1D1</code>) and their acceptance criteria as bullets below them.
+              </p>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { exportAllProgress, saveProgressToStorageFolder, getLastBackupTime } from '../utils/storageExport';
+import { ServerUnavailableError } from '../utils/serverStorage';
+import { AutoBackupSettings } from '../types/Settings';
+
+export type BackupTrigger = 'interval' | 'idle' | 'event' | 'manual';
+
+export const AUTO_BACKUP_STORAGE_KEY = 'learning-assistant-auto-backup';
+
+// Off until the user opts in: snapshot retention is off by default too, and every backup
+// would otherwise stay in the storage folder forever
+export const DEFAULT_AUTO_BACKUP_SETTINGS: AutoBackupSettings = {
+  enabled: false,
+  intervalMinutes: 30
+};
+
+export const MIN_INTERVAL_MINUTES = 5;
+
+const TICK_MS = 60 * 1000;
+const IDLE_MS = 2 * 60 * 1000;
+// Unit-level events often come in bursts (e.g. several outcomes recorded in a row)
+const EVENT_DEBOUNCE_MS = 5 * 1000;
+// Consecutive failures before the header shows a warning instead of only logging
+export const BACKUP_FAILURE_WARNING_THRESHOLD = 3;
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+export const loadAutoBackupSettings = (): AutoBackupSettings => {
+  try {
+    const saved = localStorage.getItem(AUTO_BACKUP_STORAGE_KEY);
+    if (!saved) return DEFAULT_AUTO_BACKUP_SETTINGS;
+    const settings: AutoBackupSettings = { ...DEFAULT_AUTO_BACKUP_SETTINGS, ...JSON.parse(saved) };
+    return { ...settings, intervalMinutes: Math.max(MIN_INTERVAL_MINUTES, settings.intervalMinutes) };
+  } catch {
+    return DEFAULT_AUTO_BACKUP_SETTINGS;
+  }
+};
+
+// Saves snapshots to the storage folder on an interval, after the user goes idle and shortly
+// after unit-level events. Snapshots identical to the previous backup are skipped. Without the
+// server there is no storage folder, which makes backups unavailable rather than failing.
+export const useAutoBackup = (ready: boolean) => {
+  const [lastBackup, setLastBackup] = useState<Date | null>(getLastBackupTime);
+  const [backingUp, setBackingUp] = useState(false);
+  const [failures, setFailures] = useState(0);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [unavailable, setUnavailable] = useState(false);
+
+  const runningRef = useRef(false);
+  const lastAttemptRef = useRef<number>(getLastBackupTime()?.getTime() || 0);
+  const lastContentRef = useRef<string | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  const idleHandledRef = useRef(true);
+  const eventTimerRef = useRef<number | null>(null);
+
+  const runBackup = useCallback(async (trigger: BackupTrigger) => {
+    if (runningRef.current) return;
+    if (trigger !== 'manual' && !loadAutoBackupSettings().enabled) return;
+
+    runningRef.current = true;
+    lastAttemptRef.current = Date.now();
+    setBackingUp(true);
+    try {
+      const exportData = await exportAllProgress();
+      const content = JSON.stringify(exportData.units);
+      if (exportData.totalUnits === 0 || (trigger !== 'manual' && content === lastContentRef.current)) return;
+
+      await saveProgressToStorageFolder(exportData);
+      lastContentRef.current = content;
+      setLastBackup(getLastBackupTime());
+      setFailures(0);
+      setLastError(null);
+      setUnavailable(false);
+      console.log(`Automatic backup saved (${trigger})`);
+    } catch (error) {
+      if (error instanceof ServerUnavailableError) {
+        console.warn(`Automatic backup skipped (${trigger}): the server is not running`);
+        setUnavailable(true);
+        return;
+      }
+      console.error(`Automatic backup failed (${trigger}):`, error);
+      setUnavailable(false);
+      setFailures(count => count + 1);
+      setLastError(error instanceof Error ? error.message : 'Backup failed');
+    } finally {
+      runningRef.current = false;
+      setBackingUp(false);
+    }
+  }, []);
+
+  // Interval and idle checks share one timer
+  useEffect(() => {
+    if (!ready) return;
+
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+      idleHandledRef.current = false;
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const timer = window.setInterval(() => {
+      // Manual saves from the unit list count as backups too
+      const saved = getLastBackupTime();
+      if (saved) {
+        setLastBackup(saved);
+        lastAttemptRef.current = Math.max(lastAttemptRef.current, saved.getTime());
+      }
+
+      const now = Date.now();
+      const { intervalMinutes } = loadAutoBackupSettings();
+      if (now - lastAttemptRef.current >= intervalMinutes * 60 * 1000) {
+        runBackup('interval');
+      } else if (!idleHandledRef.current && now - lastActivityRef.current >= IDLE_MS) {
+        idleHandledRef.current = true;
+        runBackup('idle');
+      }
+    }, TICK_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      window.clearInterval(timer);
+    };
+  }, [ready, runBackup]);
+
+  useEffect(() => () => {
+    if (eventTimerRef.current !== null) window.clearTimeout(eventTimerRef.current);
+  }, []);
+
+  // Called after unit-level events such as submitting a unit or recording an outcome
+  const requestBackup = useCallback(() => {
+    if (eventTimerRef.current !== null) window.clearTimeout(eventTimerRef.current);
+    eventTimerRef.current = window.setTimeout(() => {
+      eventTimerRef.current = null;
+      runBackup('event');
+    }, EVENT_DEBOUNCE_MS);
+  }, [runBackup]);
+
+  const backupNow = useCallback(() => runBackup('manual'), [runBackup]);
+
+  return {
+    lastBackup,
+    backingUp,
+    failures,
+    lastError,
+    unavailable,
+    showFailureWarning: failures >= BACKUP_FAILURE_WARNING_THRESHOLD,
+    requestBackup,
+    backupNow
+  };
+};
@@ -1,76 +1,195 @@
-import { useState, useEffect } from 'react';
-import { Progress, StudentAnswer, VelocityMetrics, TaskStatusChange, TaskStatus } from '../types/Unit';
+import { useState, useEffect, useRef } from 'react';
+import { Progress, VelocityMetrics, TaskStatusChange, TaskStatus } from '../types/Unit';
 import { deriveTaskStatus, VALID_TRANSITIONS } from '../utils/taskStatus';
+import { appendAnswerVersion, appendStatusChange, deserializeAnswerVersions } from '../utils/answerVersions';
+import {
+  syncProgressCache,
+  enqueueServerWrite,
+  fetchServerProgress,
+  saveServerProgress,
+  patchServerAnswer,
+  ServerUnavailableError
+} from '../utils/serverStorage';
+import { storage, progressKey } from '../utils/storageBackend';
+import { publishSyncEvent, subscribeToSyncEvents, SyncOrigin } from '../utils/liveSync';
+import { mergeRemoteProgress } from '../utils/progressMerge';
+
+// True when only answers (and the activity timestamp) differ, so the change can be sent
+// as per-answer PATCHes instead of a full PUT
+const onlyAnswersChanged = (previous: Progress, next: Progress) =>
+  previous.unitId === next.unitId &&
+  previous.currentLO === next.currentLO &&
+  previous.currentTask === next.currentTask &&
+  previous.completedTasks === next.completedTasks &&
+  previous.startDate === next.startDate &&
+  next.answers.length >= previous.answers.length;
+
+// Stored progress has ISO strings where the app expects Dates
+const normalizeProgress = (parsed: Progress, unitId: string): Progress => ({
+  ...parsed,
+  unitId: unitId,
+  startDate: new Date(parsed.startDate),
+  lastActivity: new Date(parsed.lastActivity),
+  answers: parsed.answers.map((answer: any) => ({
+    ...answer,
+    submissionDate: new Date(answer.submissionDate),
+    lastModified: new Date(answer.lastModified),
+    statusHistory: answer.statusHistory?.map((change: any) => ({
+      ...change,
+      timestamp: new Date(change.timestamp)
+    })) || [],
+    versions: deserializeAnswerVersions(answer.versions)
+  }))
+});
 
 export const useProgress = (unitId: string) => {
-  const STORAGE_KEY = `learning-assistant-progress-${unitId}`;
-  
-  const getInitialProgress = (): Progress => {
-    console.log('getInitialProgress called for unitId:', unitId);
-    if (!unitId) {
-      return {
-        unitId: '',
-        currentLO: 'LO1',
-        currentTask: '1.1',
-        completedTasks: [],
-        answers: [],
-        startDate: new Date(),
-        lastActivity: new Date()
-      };
+  const createEmptyProgress = (): Progress => ({
+    unitId: unitId,
+    currentLO: 'LO1',
+    currentTask: '1.1',
+    completedTasks: [],
+    answers: [],
+    startDate: new Date(),
+    lastActivity: new Date()
+  });
+
+  const loadProgress = async (): Promise<Progress> => {
+    console.log('loadProgress called for unitId:', unitId);
+    if (!unitId) return createEmptyProgress();
+
+    try {
+      const parsed = await storage.get<Progress>(progressKey(unitId));
+      console.log('Saved progress data:', parsed);
+      if (parsed) return normalizeProgress(parsed, unitId);
+    } catch (error) {
+      console.error('Error loading saved progress:', error);
     }
-    
-    const saved = localStorage.getItem(STORAGE_KEY);
-    console.log('Saved progress data:', saved);
-    if (saved) {
+
+    return createEmptyProgress();
+  };
+
+  const [progress, setProgress] = useState<Progress>(createEmptyProgress);
+  // Unit whose stored progress has been loaded into state; nothing is saved before that,
+  // so the empty placeholder can't overwrite real data while the async load is pending
+  const loadedUnitRef = useRef<string | null>(null);
+  // Last progress known to match the server; null until the server copy has been checked
+  const serverSyncedRef = useRef<Progress | null>(null);
+  // Progress that is already in storage (loaded, or taken from another tab or device), so
+  // saving it again would only echo it back
+  const storedRef = useRef<Progress | null>(null);
+  const progressRef = useRef(progress);
+  progressRef.current = progress;
+
+  // Re-load progress when unitId changes or when explicitly refreshed
+  useEffect(() => {
+    loadedUnitRef.current = null;
+    serverSyncedRef.current = null;
+    if (!unitId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const stored = await loadProgress();
+      if (cancelled) return;
+      loadedUnitRef.current = unitId;
+      storedRef.current = stored;
+      setProgress(stored);
+
       try {
-        const parsed = JSON.parse(saved);
-        console.log('Parsed progress:', parsed);
-        return {
-          ...parsed,
-          unitId: unitId,
-          startDate: new Date(parsed.startDate),
-          lastActivity: new Date(parsed.lastActivity),
-          answers: parsed.answers.map((answer: any) => ({
-            ...answer,
-            submissionDate: new Date(answer.submissionDate),
-            lastModified: new Date(answer.lastModified),
-            statusHistory: answer.statusHistory?.map((change: any) => ({
-              ...change,
-              timestamp: new Date(change.timestamp)
-            })) || []
-          }))
-        };
+        const result = await syncProgressCache(unitId);
+        if (cancelled) return;
+        // Local storage now matches the server either way; reload it so later diffs have a baseline
+        const loaded = await loadProgress();
+        if (cancelled) return;
+        serverSyncedRef.current = loaded;
+        storedRef.current = loaded;
+        setProgress(loaded);
+        if (result === 'server') console.log('Loaded newer progress from server for', unitId);
       } catch (error) {
-        console.error('Error parsing saved progress:', error);
+        if (!(error instanceof ServerUnavailableError)) {
+          console.error('Error syncing progress with server:', error);
+        }
       }
-    }
-    
-    return {
-      unitId: unitId,
-      currentLO: 'LO1',
-      currentTask: '1.1',
-      completedTasks: [],
-      answers: [],
-      startDate: new Date(),
-      lastActivity: new Date()
     };
-  };
-
-  const [progress, setProgress] = useState<Progress>(getInitialProgress);
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [unitId]);
 
-  // Re-load progress when unitId changes or when explicitly refreshed
+  // Pick up changes made to this unit's progress in another tab or on another device
   useEffect(() => {
     if (!unitId) return;
-    setProgress(getInitialProgress());
+
+    let cancelled = false;
+    const applyRemoteProgress = async (origin: SyncOrigin) => {
+      if (loadedUnitRef.current !== unitId) return;
+      let remote: Progress | null = null;
+      if (origin === 'server') {
+        const serverProgress = await fetchServerProgress(unitId);
+        remote = serverProgress && normalizeProgress(serverProgress, unitId);
+      } else {
+        const cached = await storage.get<Progress>(progressKey(unitId));
+        remote = cached && normalizeProgress(cached, unitId);
+      }
+      if (cancelled || !remote || loadedUnitRef.current !== unitId) return;
+
+      const { merged, hasLocalChanges } = mergeRemoteProgress(progressRef.current, remote);
+      // The other side saved to the server too. Answers that are newer here still differ
+      // from that baseline, so the save effect pushes them.
+      if (serverSyncedRef.current) serverSyncedRef.current = hasLocalChanges ? remote : merged;
+      if (!hasLocalChanges) {
+        if (origin === 'server') await storage.put(progressKey(unitId), remote);
+        storedRef.current = merged;
+      }
+      setProgress(merged);
+    };
+
+    const unsubscribe = subscribeToSyncEvents((event, origin) => {
+      if (event.type === 'reconnected' || (event.type === 'progress-changed' && event.unitId === unitId)) {
+        applyRemoteProgress(event.type === 'reconnected' ? 'server' : origin).catch(error => {
+          if (!(error instanceof ServerUnavailableError)) {
+            console.error('Error applying progress changed elsewhere:', error);
+          }
+        });
+      }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, [unitId]);
 
   // Force refresh function that can be called externally
-  const refreshProgress = () => {
-    setProgress(getInitialProgress());
+  const refreshProgress = async () => {
+    const stored = await loadProgress();
+    if (loadedUnitRef.current === stored.unitId) setProgress(stored);
   };
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+    if (!progress.unitId || loadedUnitRef.current !== progress.unitId) return;
+    if (progress === storedRef.current) return;
+    storage.put(progressKey(progress.unitId), progress)
+      .then(() => publishSyncEvent({ type: 'progress-changed', unitId: progress.unitId }))
+      .catch(error => console.error('Error saving progress:', error));
+
+    const previous = serverSyncedRef.current;
+    if (!previous || previous === progress) return;
+    serverSyncedRef.current = progress;
+
+    if (onlyAnswersChanged(previous, progress)) {
+      const changedAnswers = progress.answers.filter(a => !previous.answers.includes(a));
+      enqueueServerWrite(async () => {
+        for (const answer of changedAnswers) {
+          const patched = await patchServerAnswer(progress.unitId, answer);
+          if (!patched) {
+            await saveServerProgress(progress);
+            return;
+          }
+        }
+      });
+    } else {
+      enqueueServerWrite(() => saveServerProgress(progress));
+    }
   }, [progress]);
 
   const getTaskStatus = (taskId: string): TaskStatus => {
@@ -99,7 +218,7 @@ export const useProgress = (unitId: string) => {
         a.taskId === taskId
           ? {
               ...a,
-              statusHistory: [...(a.statusHistory || []), statusChange],
+              ...appendStatusChange(a, statusChange),
               lastModified: new Date()
             }
           : a
@@ -126,7 +245,7 @@ export const useProgress = (unitId: string) => {
         a.taskId === taskId
           ? {
               ...a,
-              statusHistory: [...(a.statusHistory || []), statusChange],
+              ...appendStatusChange(a, statusChange),
               lastModified: new Date(),
               ...(reviewFeedback !== undefined ? { reviewFeedback } : {}),
               ...(outcome === 'achieved' ? { isGoodEnough: true } : {})
@@ -154,6 +273,7 @@ export const useProgress = (unitId: string) => {
 
     setProgress(prev => {
       const existingAnswer = prev.answers.find(a => a.taskId === taskId);
+      const now = new Date();
 
       const newAnswers = existingAnswer
         ? prev.answers.map(a =>
@@ -161,8 +281,9 @@ export const useProgress = (unitId: string) => {
               ? {
                   ...a,
                   content,
-                  lastModified: new Date(),
+                  lastModified: now,
                   version: a.version + 1,
+                  versions: appendAnswerVersion(a, a.version + 1, content, now),
                   statusHistory: statusChange
                     ? [...(a.statusHistory || []), statusChange]
                     : (a.statusHistory || [])
@@ -172,9 +293,10 @@ export const useProgress = (unitId: string) => {
         : [...prev.answers, {
             taskId,
             content,
-            submissionDate: new Date(),
-            lastModified: new Date(),
+            submissionDate: now,
+            lastModified: now,
             version: 1,
+            versions: [{ version: 1, content, timestamp: now }],
             isGoodEnough: false,
             feedbackRequested: false,
             statusHistory: statusChange ? [statusChange] : []
@@ -1,52 +1,142 @@
-import { useState, useEffect } from 'react';
-import { Unit, UnitSummary } from '../types/Unit';
+import { useState, useEffect, useRef } from 'react';
+import { Progress, Unit, UnitSummary } from '../types/Unit';
+import {
+  fetchServerUnits,
+  saveServerUnit,
+  deleteServerUnit,
+  fetchServerTrash,
+  purgeServerTrash,
+  syncProgressCache,
+  enqueueServerWrite,
+  isNewerThan,
+  pushCachedProgress,
+  replaceCacheWithServerData,
+  ServerUnavailableError
+} from '../utils/serverStorage';
+import { storage, STORAGE_KEYS, progressKey } from '../utils/storageBackend';
+import { ExportedUnit, migrateStoredData } from '../utils/storageExport';
+import { publishSyncEvent, subscribeToSyncEvents, SyncOrigin } from '../utils/liveSync';
+import { TrashedUnit, loadTrash, saveTrash, mergeTrash, partitionExpired } from '../utils/unitTrash';
 
-const UNITS_STORAGE_KEY = 'learning-assistant-units';
-const UNIT_LIST_STORAGE_KEY = 'learning-assistant-unit-list';
+// Stored summaries have ISO strings where the app expects Dates
+const toUnitSummary = (summary: UnitSummary): UnitSummary => ({
+  ...summary,
+  lastActivity: summary.lastActivity ? new Date(summary.lastActivity) : undefined,
+  dateAdded: new Date(summary.dateAdded)
+});
 
 export const useUnitManager = () => {
   const [units, setUnits] = useState<Record<string, Unit>>({});
   const [unitList, setUnitList] = useState<UnitSummary[]>([]);
+  const [trash, setTrash] = useState<TrashedUnit[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Set once the server copy has been merged in; null while running on localStorage only
+  const serverSyncedRef = useRef<{ units: Record<string, Unit>; unitList: UnitSummary[] } | null>(null);
+  // Units already in storage (loaded, or taken from another tab or device), so saving them
+  // again would only echo them back
+  const storedRef = useRef<{ units: Record<string, Unit>; unitList: UnitSummary[] } | null>(null);
 
-  // Load units and unit list from localStorage
+  // Load units and unit list from local storage, then reconcile with the server
   useEffect(() => {
     const loadData = async () => {
       try {
         setLoading(true);
         setError(null);
 
-        // Load existing units from localStorage
-        const savedUnits = localStorage.getItem(UNITS_STORAGE_KEY);
-        const savedUnitList = localStorage.getItem(UNIT_LIST_STORAGE_KEY);
+        // Upgrade data written by older versions of the app before reading it
+        await migrateStoredData();
+
+        // Load existing units from local storage
+        const [savedUnits, savedUnitList] = await Promise.all([
+          storage.get<Record<string, Unit>>(STORAGE_KEYS.units),
+          storage.get<UnitSummary[]>(STORAGE_KEYS.unitList)
+        ]);
 
         let loadedUnits: Record<string, Unit> = {};
         let loadedUnitList: UnitSummary[] = [];
 
         if (savedUnits && savedUnitList) {
-          loadedUnits = JSON.parse(savedUnits);
-          loadedUnitList = JSON.parse(savedUnitList).map((unit: any) => ({
-            ...unit,
-            lastActivity: unit.lastActivity ? new Date(unit.lastActivity) : undefined,
-            dateAdded: new Date(unit.dateAdded)
-          }));
-          
-          // Add default values for missing fields in existing units
-          Object.keys(loadedUnits).forEach(unitId => {
-            const unit = loadedUnits[unitId];
-            if (unit.credits === undefined) {
-              unit.credits = 0;
-            }
-            if (unit.guided_learning_hours === undefined) {
-              unit.guided_learning_hours = 0;
-            }
-          });
+          loadedUnits = savedUnits;
+          loadedUnitList = savedUnitList.map(toUnitSummary);
         }
 
         console.log('Loaded units from storage:', loadedUnits);
         console.log('Loaded unit list from storage:', loadedUnitList);
 
+        // Merge in the server copy. Units only known locally (added while offline) are
+        // pushed up by the sync effect below.
+        let syncedUnits: Record<string, Unit> = {};
+        let syncedUnitList: UnitSummary[] = [];
+        let serverAvailable = false;
+        let serverTrash: TrashedUnit[] = [];
+        try {
+          const serverEntries = await fetchServerUnits();
+          serverAvailable = true;
+          serverTrash = await fetchServerTrash();
+
+          // A unit removed on another device while this browser was closed is in the server's
+          // trash, not its unit list. Unless it was used here since, it is dropped rather than
+          // taken for a unit added offline, so neither it nor its progress is pushed back; the
+          // trash merge below lists it in the trash instead.
+          const removedElsewhere = loadedUnitList.filter(summary =>
+            !serverEntries.some(entry => entry.unit.id === summary.id) &&
+            serverTrash.some(entry =>
+              entry.unit.id === summary.id && isNewerThan(entry.deletedAt, summary.lastActivity ?? summary.dateAdded)
+            )
+          );
+          for (const summary of removedElsewhere) {
+            delete loadedUnits[summary.id];
+            await storage.delete(progressKey(summary.id));
+          }
+          loadedUnitList = loadedUnitList.filter(summary => !removedElsewhere.includes(summary));
+          if (removedElsewhere.length > 0) {
+            console.log('Units removed on another device:', removedElsewhere.map(summary => summary.id));
+            await Promise.all([
+              storage.put(STORAGE_KEYS.units, loadedUnits),
+              storage.put(STORAGE_KEYS.unitList, loadedUnitList)
+            ]);
+          }
+
+          serverEntries.forEach(({ unit, summary }) => {
+            const serverSummary = toUnitSummary(summary);
+            const localSummary = loadedUnitList.find(u => u.id === unit.id);
+            syncedUnits[unit.id] = unit;
+            syncedUnitList.push(serverSummary);
+            if (!localSummary || !isNewerThan(localSummary.lastActivity, serverSummary.lastActivity)) {
+              loadedUnits[unit.id] = unit;
+              loadedUnitList = localSummary
+                ? loadedUnitList.map(u => u.id === unit.id ? serverSummary : u)
+                : [...loadedUnitList, serverSummary];
+            }
+          });
+          await Promise.all(loadedUnitList.map(summary => syncProgressCache(summary.id)));
+        } catch (err) {
+          if (err instanceof ServerUnavailableError) {
+            console.warn('Server storage not available - using browser storage only');
+          } else {
+            console.error('Error syncing units with server:', err);
+          }
+          syncedUnits = {};
+          syncedUnitList = [];
+        }
+
+        // Units left in the trash past the retention period are deleted for good, on the server too
+        const localTrash = await loadTrash();
+        const { kept, expired } = partitionExpired(mergeTrash(localTrash, serverTrash));
+        if (kept.length !== localTrash.length || expired.length > 0) {
+          await saveTrash(kept);
+        }
+        if (expired.length > 0) {
+          console.log('Purged units from the trash:', expired.map(entry => entry.unit.id));
+          if (serverAvailable) {
+            expired.forEach(entry => enqueueServerWrite(() => purgeServerTrash(entry.unit.id)));
+          }
+        }
+        setTrash(kept);
+
+        serverSyncedRef.current = serverAvailable ? { units: syncedUnits, unitList: syncedUnitList } : null;
+        storedRef.current = { units: loadedUnits, unitList: loadedUnitList };
         setUnits(loadedUnits);
         setUnitList(loadedUnitList);
       } catch (err) {
@@ -60,15 +150,92 @@ export const useUnitManager = () => {
     loadData();
   }, []); // Keep dependency array empty to only run on mount
 
-  // Save to localStorage whenever units or unitList changes
+  // Pick up units added, changed or removed in another tab or on another device
   useEffect(() => {
-    if (!loading) {
-      localStorage.setItem(UNITS_STORAGE_KEY, JSON.stringify(units));
-      localStorage.setItem(UNIT_LIST_STORAGE_KEY, JSON.stringify(unitList));
-    }
+    if (loading) return;
+
+    const applyRemoteUnits = async (origin: SyncOrigin) => {
+      let remoteUnits: Record<string, Unit>;
+      let remoteUnitList: UnitSummary[];
+      if (origin === 'server') {
+        const serverEntries = await fetchServerUnits();
+        remoteUnits = Object.fromEntries(serverEntries.map(({ unit }) => [unit.id, unit]));
+        remoteUnitList = serverEntries.map(({ summary }) => toUnitSummary(summary));
+        await Promise.all([
+          storage.put(STORAGE_KEYS.units, remoteUnits),
+          storage.put(STORAGE_KEYS.unitList, remoteUnitList)
+        ]);
+      } else {
+        remoteUnits = (await storage.get<Record<string, Unit>>(STORAGE_KEYS.units)) || {};
+        remoteUnitList = ((await storage.get<UnitSummary[]>(STORAGE_KEYS.unitList)) || []).map(toUnitSummary);
+      }
+
+      const remote = { units: remoteUnits, unitList: remoteUnitList };
+      // A unit removed on another device is in the server's trash but not yet in ours
+      const localTrash = await loadTrash();
+      const nextTrash = origin === 'server' ? mergeTrash(localTrash, await fetchServerTrash()) : localTrash;
+      if (nextTrash.length !== localTrash.length) await saveTrash(nextTrash);
+      setTrash(nextTrash);
+      storedRef.current = remote;
+      if (serverSyncedRef.current) serverSyncedRef.current = remote;
+      setUnits(remoteUnits);
+      setUnitList(remoteUnitList);
+    };
+
+    // Reconnects aren't handled here: the server list would drop units added while offline
+    return subscribeToSyncEvents((event, origin) => {
+      if (event.type === 'units-changed') {
+        applyRemoteUnits(origin).catch(err => {
+          if (!(err instanceof ServerUnavailableError)) {
+            console.error('Error applying units changed elsewhere:', err);
+          }
+        });
+      } else if (event.type === 'restored') {
+        // Units, progress and any open editors all change, so start again from the server copy
+        replaceCacheWithServerData()
+          .then(() => window.location.reload())
+          .catch(err => console.error('Error loading restored storage:', err));
+      }
+    });
+  }, [loading]);
+
+  // Save to local storage whenever units or unitList changes
+  useEffect(() => {
+    if (loading) return;
+    const stored = storedRef.current;
+    if (stored && stored.units === units && stored.unitList === unitList) return;
+    Promise.all([
+      storage.put(STORAGE_KEYS.units, units),
+      storage.put(STORAGE_KEYS.unitList, unitList)
+    ])
+      .then(() => publishSyncEvent({ type: 'units-changed' }))
+      .catch(err => console.error('Error saving units:', err));
   }, [units, unitList, loading]);
 
-  const addUnit = (unit: Unit) => {
+  // Push changed units to the server and delete the ones removed locally
+  useEffect(() => {
+    const synced = serverSyncedRef.current;
+    if (loading || !synced) return;
+
+    unitList.forEach(summary => {
+      const unit = units[summary.id];
+      if (!unit) return;
+      const previousSummary = synced.unitList.find(u => u.id === summary.id);
+      if (synced.units[summary.id] !== unit || previousSummary !== summary) {
+        enqueueServerWrite(() => saveServerUnit(unit, summary));
+      }
+    });
+    synced.unitList
+      .filter(previous => !unitList.some(u => u.id === previous.id))
+      .forEach(previous => enqueueServerWrite(() => deleteServerUnit(previous.id)));
+
+    serverSyncedRef.current = { units, unitList };
+  }, [units, unitList, loading]);
+
+  // Adding a unit whose id is already listed replaces its definition but keeps its place in the
+  // list, its completed count (capped to the new total) and the catalogue version it came from,
+  // unless they are given
+  const addUnit = (unit: Unit, { completedTasks, catalogueVersion }: { completedTasks?: number; catalogueVersion?: string } = {}) => {
     // Count unique tasks across all learning outcomes using the same logic as dashboard
     const getUniqueTaskCount = (unitData: Unit) => {
       const allTaskIds = new Set<string>();
@@ -93,15 +260,23 @@ export const useUnitManager = () => {
       id: unitWithDefaults.id,
       title: unitWithDefaults.title,
       totalTasks,
-      completedTasks: 0,
-      dateAdded: new Date()
+      completedTasks: completedTasks ?? 0,
+      dateAdded: new Date(),
+      catalogueVersion
     };
 
     setUnits(prev => ({ ...prev, [unitWithDefaults.id]: unitWithDefaults }));
     setUnitList(prev => {
       const existing = prev.find(u => u.id === unitWithDefaults.id);
       if (existing) {
-        return prev.map(u => u.id === unitWithDefaults.id ? unitSummary : u);
+        const replacement: UnitSummary = {
+          ...unitSummary,
+          completedTasks: completedTasks ?? Math.min(existing.completedTasks, totalTasks),
+          dateAdded: existing.dateAdded,
+          lastActivity: existing.lastActivity,
+          catalogueVersion: catalogueVersion ?? existing.catalogueVersion
+        };
+        return prev.map(u => u.id === unitWithDefaults.id ? replacement : u);
       }
       return [...prev, unitSummary];
     });
@@ -139,7 +314,19 @@ export const useUnitManager = () => {
     }
   }, [loading, units, unitList.length]);
 
-  const removeUnit = (unitId: string) => {
+  // Moves the unit and its progress to the trash, from where restoreUnit brings both back
+  const removeUnit = async (unitId: string) => {
+    const unit = units[unitId];
+    const summary = unitList.find(u => u.id === unitId);
+    if (!unit || !summary) return;
+
+    const progress = await storage.get<Progress>(progressKey(unitId));
+    const entry: TrashedUnit = { unit, summary, progress, deletedAt: new Date() };
+    // Read the stored trash rather than state, which another tab may have changed
+    const nextTrash = [...(await loadTrash()).filter(e => e.unit.id !== unitId), entry];
+    await saveTrash(nextTrash);
+    setTrash(nextTrash);
+
     setUnits(prev => {
       const newUnits = { ...prev };
       delete newUnits[unitId];
@@ -147,9 +334,74 @@ export const useUnitManager = () => {
     });
     setUnitList(prev => prev.filter(u => u.id !== unitId));
     
-    // Also remove progress data for this unit
-    const progressKey = `learning-assistant-progress-${unitId}`;
-    localStorage.removeItem(progressKey);
+    // The progress is kept in the trash entry
+    storage.delete(progressKey(unitId)).catch(err => console.error('Error removing progress:', err));
+  };
+
+  // Restoring replaces a unit with the same id that was added after the removal
+  const restoreUnit = async (unitId: string) => {
+    const currentTrash = await loadTrash();
+    const entry = currentTrash.find(e => e.unit.id === unitId);
+    if (!entry) return;
+
+    if (entry.progress) {
+      await storage.put(progressKey(unitId), entry.progress);
+      pushCachedProgress(unitId);
+    }
+    const nextTrash = currentTrash.filter(e => e !== entry);
+    await saveTrash(nextTrash);
+    setTrash(nextTrash);
+    // The sync effect puts the unit back on the server; its trash copy is no longer needed
+    if (serverSyncedRef.current) enqueueServerWrite(() => purgeServerTrash(unitId));
+
+    setUnits(prev => ({ ...prev, [unitId]: entry.unit }));
+    setUnitList(prev => [...prev.filter(u => u.id !== unitId), entry.summary]);
+  };
+
+  // Adds a unit exported from another workspace, replacing a unit with the same id together
+  // with its progress. Other units are left alone.
+  const importUnit = async (exported: ExportedUnit) => {
+    const unitId = exported.unitData.id;
+    if (exported.progress) {
+      await storage.put(progressKey(unitId), exported.progress);
+      pushCachedProgress(unitId);
+    } else {
+      await storage.delete(progressKey(unitId));
+    }
+
+    const summary = toUnitSummary({
+      ...exported.unitSummary,
+      completedTasks: exported.progress?.completedTasks?.length ?? exported.unitSummary.completedTasks
+    });
+    setUnits(prev => ({ ...prev, [unitId]: exported.unitData }));
+    setUnitList(prev => prev.some(u => u.id === unitId)
+      ? prev.map(u => u.id === unitId ? summary : u)
+      : [...prev, summary]);
+  };
+
+  // Replaces a unit with a newer version of itself, storing its progress as migrated by
+  // migrateProgress (see utils/unitUpgrade)
+  const upgradeUnit = async (unit: Unit, progress: Progress | null, catalogueVersion?: string) => {
+    if (progress) {
+      await storage.put(progressKey(unit.id), progress);
+      pushCachedProgress(unit.id);
+    }
+    addUnit(unit, { completedTasks: progress?.completedTasks.length, catalogueVersion });
+  };
+
+  // Deletes trashed units for good; all of them when no id is given
+  const purgeFromTrash = async (unitId?: string) => {
+    const currentTrash = await loadTrash();
+    const nextTrash = unitId ? currentTrash.filter(e => e.unit.id !== unitId) : [];
+    await saveTrash(nextTrash);
+    setTrash(nextTrash);
+    if (serverSyncedRef.current) {
+      currentTrash
+        .filter(e => !nextTrash.includes(e))
+        .forEach(e => enqueueServerWrite(() => purgeServerTrash(e.unit.id)));
+    }
+    // Nothing else in the units list changes, so tell other tabs directly
+    publishSyncEvent({ type: 'units-changed' });
   };
 
   const getUnit = (unitId: string): Unit | null => {
@@ -172,6 +424,11 @@ export const useUnitManager = () => {
     addUnit,
     removeUnit,
     getUnit,
-    updateUnitProgress
+    updateUnitProgress,
+    trash,
+    restoreUnit,
+    importUnit,
+    upgradeUnit,
+    purgeFromTrash
   };
 };
\ No newline at end of file
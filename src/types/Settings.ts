@@ -0,0 +1,34 @@
+export interface WorkingPeriod {
+  id: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface WorkingHours {
+  [key: string]: WorkingPeriod[];
+}
+
+// Which "Save to storage" snapshots the server keeps; see enforceRetentionPolicy in server.js
+export interface SnapshotRetentionPolicy {
+  enabled: boolean;
+  keepLast: number;
+  keepDailyDays: number;
+  keepWeeklyWeeks: number;
+}
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+}
+
+// The document stored by GET/PUT /api/settings; validateSettings in server.js checks the shape
+export interface SettingsData {
+  version: number;
+  feedbackServiceUrl: string;
+  exampleQuestions: string[];
+  workingHours: WorkingHours;
+  snapshotRetention?: SnapshotRetentionPolicy;
+  autoBackup?: AutoBackupSettings;
+  // Days a removed unit stays in the trash before it is deleted for good
+  trashRetentionDays?: number;
+}
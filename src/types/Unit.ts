@@ -60,12 +60,20 @@ export interface StudentAnswer {
   feedback?: string;
   reviewFeedback?: string;
   statusHistory?: TaskStatusChange[];
+  versions?: AnswerVersion[];
+}
+
+export interface AnswerVersion {
+  version: number;
+  content: string;
+  timestamp: Date;
 }
 
 export interface TaskStatusChange {
   timestamp: Date;
   status: TaskStatus;
   previousStatus?: TaskStatus;
+  answerVersion?: number; // Frozen answer version (see StudentAnswer.versions) at the moment of the change
 }
 
 export interface Progress {
@@ -93,4 +101,5 @@ export interface UnitSummary {
   completedTasks: number;
   lastActivity?: Date;
   dateAdded: Date;
+  catalogueVersion?: string; // Version of the catalogue entry the unit was last added from
 }
\ No newline at end of file
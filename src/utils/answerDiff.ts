@@ -0,0 +1,165 @@
+// Word-level diff utilities for comparing Tiptap HTML answers
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'"
+};
+
+export const htmlToPlainText = (html: string): string => {
+  if (!html) return '';
+
+  return html
+    // Block-level boundaries become line breaks so paragraphs and cells stay separated
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|tr|pre)>/gi, '\n')
+    .replace(/<\/(td|th)>/gi, '\t')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&[a-z#0-9]+;/gi, entity => ENTITIES[entity] ?? entity)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+
+// Beyond this many inserted plus deleted tokens the changed middle is shown as one deletion and
+// one insertion instead. The search keeps O(D²) numbers for an edit distance D, so the cap keeps
+// memory and time bounded when an answer was largely rewritten.
+const MAX_EDIT_DISTANCE = 1000;
+
+// Myers O(ND) diff over word tokens. Returns null when the edit distance exceeds the cap.
+const myersDiff = (a: string[], b: string[]): DiffSegment[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = n + m;
+  const v = new Array<number>(2 * offset + 2).fill(0);
+  // trace[d] holds v for diagonals -d..d as they were before step d, which is all the walk
+  // back below reads
+  const trace: number[][] = [];
+  let found = false;
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break outer;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk the trace backwards to recover the edit script
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[0];
+    if (last && last.type === type) {
+      last.text = text + last.text;
+    } else {
+      segments.unshift({ type, text });
+    }
+  };
+
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = (k: number) => trace[d][k + d] ?? 0;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd(k - 1) < vd(k + 1)) ? k + 1 : k - 1;
+    const prevX = vd(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      push('equal', a[x - 1]);
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        push('insert', b[y - 1]);
+      } else {
+        push('delete', a[x - 1]);
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return segments;
+};
+
+const diffTokens = (a: string[], b: string[]): DiffSegment[] => {
+  // A shared start and end need no search, and most edits between versions are local
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldMiddle = a.slice(start, endA);
+  const newMiddle = b.slice(start, endB);
+  const middle = myersDiff(oldMiddle, newMiddle) ?? [
+    { type: 'delete' as const, text: oldMiddle.join('') },
+    { type: 'insert' as const, text: newMiddle.join('') }
+  ];
+
+  const segments: DiffSegment[] = [];
+  [
+    { type: 'equal' as const, text: a.slice(0, start).join('') },
+    ...middle,
+    { type: 'equal' as const, text: a.slice(endA).join('') }
+  ].forEach(segment => {
+    if (!segment.text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      segments.push({ ...segment });
+    }
+  });
+  return segments;
+};
+
+export const diffText = (oldText: string, newText: string): DiffSegment[] => {
+  return diffTokens(tokenize(oldText), tokenize(newText));
+};
+
+export const diffHtml = (oldHtml: string, newHtml: string): DiffSegment[] => {
+  return diffText(htmlToPlainText(oldHtml), htmlToPlainText(newHtml));
+};
+
+export const summarizeDiff = (segments: DiffSegment[]) => {
+  const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+  return segments.reduce(
+    (summary, segment) => {
+      if (segment.type === 'insert') summary.added += countWords(segment.text);
+      if (segment.type === 'delete') summary.removed += countWords(segment.text);
+      return summary;
+    },
+    { added: 0, removed: 0 }
+  );
+};
@@ -0,0 +1,90 @@
+import { AnswerVersion, StudentAnswer, TaskStatusChange } from '../types/Unit';
+import { SNAPSHOT_STATUSES } from './taskStatus';
+
+// Returns every saved version of an answer, oldest first.
+// Answers saved before snapshots existed only have their current content, so that is
+// surfaced as a single version rather than an empty timeline.
+export const getAnswerVersions = (answer: StudentAnswer | undefined): AnswerVersion[] => {
+  if (!answer) return [];
+  if (answer.versions && answer.versions.length > 0) return answer.versions;
+  if (!answer.content) return [];
+  return [{ version: answer.version, content: answer.content, timestamp: answer.lastModified }];
+};
+
+export const getAnswerVersion = (answer: StudentAnswer | undefined, version: number): AnswerVersion | undefined => {
+  return getAnswerVersions(answer).find(v => v.version === version);
+};
+
+// Autosave records a version on every save, so only the most recent ones are kept
+export const MAX_ANSWER_VERSIONS = 50;
+
+// Drops the oldest versions beyond MAX_ANSWER_VERSIONS. Versions a status change points at
+// stay, since a reviewer may need to see what was submitted.
+const pruneAnswerVersions = (versions: AnswerVersion[], answer: StudentAnswer | undefined): AnswerVersion[] => {
+  if (versions.length <= MAX_ANSWER_VERSIONS) return versions;
+  const pinned = new Set((answer?.statusHistory || []).map(change => change.answerVersion));
+  let excess = versions.length - MAX_ANSWER_VERSIONS;
+  return versions.filter((v, index) => {
+    if (excess === 0 || pinned.has(v.version) || index === versions.length - 1) return true;
+    excess--;
+    return false;
+  });
+};
+
+// Appends a snapshot for a newly saved version. Identical consecutive saves are not
+// duplicated so autosave doesn't flood the timeline.
+export const appendAnswerVersion = (
+  answer: StudentAnswer | undefined,
+  version: number,
+  content: string,
+  timestamp: Date
+): AnswerVersion[] => {
+  const existing = getAnswerVersions(answer);
+  const latest = existing[existing.length - 1];
+  if (latest && latest.content === content) return existing;
+  return pruneAnswerVersions([...existing, { version, content, timestamp }], answer);
+};
+
+// Makes sure the answer's current content exists as a version and returns its number,
+// so a status change can point at exactly what the answer looked like at that moment.
+export const freezeAnswerVersion = (answer: StudentAnswer, timestamp: Date): { versions: AnswerVersion[]; version: number } => {
+  const versions = getAnswerVersions(answer);
+  const latest = versions[versions.length - 1];
+  if (latest && latest.content === (answer.content || '')) {
+    return { versions, version: latest.version };
+  }
+  const version = Math.max(answer.version || 0, latest ? latest.version + 1 : 1);
+  return {
+    versions: [...versions, { version, content: answer.content || '', timestamp }],
+    version
+  };
+};
+
+// Appends a status change to an answer's history, freezing the answer content when the
+// new status is one a reviewer may later need to look back at.
+export const appendStatusChange = (
+  answer: StudentAnswer,
+  statusChange: TaskStatusChange
+): Pick<StudentAnswer, 'statusHistory' | 'versions'> => {
+  if (!SNAPSHOT_STATUSES.includes(statusChange.status)) {
+    return {
+      statusHistory: [...(answer.statusHistory || []), statusChange],
+      versions: answer.versions
+    };
+  }
+
+  const { versions, version } = freezeAnswerVersion(answer, new Date(statusChange.timestamp));
+  return {
+    statusHistory: [...(answer.statusHistory || []), { ...statusChange, answerVersion: version }],
+    versions
+  };
+};
+
+type SerializedAnswerVersion = Omit<AnswerVersion, 'timestamp'> & { timestamp: string | Date };
+
+export const deserializeAnswerVersions = (versions: SerializedAnswerVersion[] | undefined): AnswerVersion[] | undefined => {
+  return versions?.map(v => ({
+    ...v,
+    timestamp: new Date(v.timestamp)
+  }));
+};
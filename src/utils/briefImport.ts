@@ -0,0 +1,255 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { AcceptanceCriteria, IndicativeContent, LearningOutcome, TaskItem, Unit } from '../types/Unit';
+
+// Turns an assignment brief (Markdown, or a Word document read as Markdown) into a draft unit for
+// the unit editor to review. Everything runs in the browser. The brief is read line by line:
+//
+//   # Unit 9 Human Resources               the unit title
+//   Credits: 15 / Guided learning hours: 90
+//   ## Instructions, ## Scenario, ## Task   the text up to the next heading
+//   ## LO1 Understand the role of HR       a learning outcome ("Learning outcome 1: ..." works too)
+//   ### Indicative content                 bullets that follow are its indicative content
+//   1.1 Explain the role of HR             an outcome task; 1M1/M1 are merit, 1D1/D1 distinction,
+//                                          as is anything under a "Merit"/"Distinction" heading
+//   - AC 1.1 Learners explain ...          bullets after a task are its acceptance criteria
+//
+// Lines that fit nowhere are reported back rather than guessed at.
+
+export interface BriefImportResult {
+  unit: Unit;
+  warnings: string[];
+}
+
+const SECTION_FIELDS = { instructions: /^instructions?$/i, scenario: /^scenario$/i, task: /^(the )?task$/i } as const;
+type SectionField = keyof typeof SECTION_FIELDS;
+
+const OUTCOME_HEADING = /^(?:LO\s*|learning\s+outcome\s*)(\d+)\s*[:.\-–)]?\s*(.*)$/i;
+const TASK_LINE = /^(\d+\.\d+|\d*[MD]\d+|[PMD]\d+)\b[\s:.)–-]*(.+)$/;
+const CRITERION_ID = /^(AC\s*\d[\w.]*?)\.?\s*[:\-–]?\s+(.+)$/i;
+const OUTCOME_REFERENCES = /\((LO\d+(?:\s*(?:,|and|&)\s*LO\d+)+)\)/i;
+
+interface BriefLine {
+  headingLevel: number;
+  // Nesting depth of a bullet, -1 for paragraphs
+  bulletDepth: number;
+  text: string;
+}
+
+const stripInlineMarkdown = (text: string) =>
+  text.replace(/(\*\*|__)(.*?)\1/g, '$2').replace(/(\*|_)(\S.*?)\1/g, '$2').replace(/`([^`]*)`/g, '$1').trim();
+
+const parseLine = (raw: string): BriefLine | null => {
+  const line = raw.replace(/\t/g, '  ').replace(/^\s*>\s?/, '');
+  if (!line.trim()) return null;
+  const heading = line.match(/^\s*(#{1,6})\s+(.*)$/);
+  if (heading) return { headingLevel: heading[1].length, bulletDepth: -1, text: stripInlineMarkdown(heading[2].replace(/#+\s*$/, '')) };
+  const bullet = line.match(/^(\s*)(?:[-*+•]|\d+[.)](?!\d))\s+(.*)$/);
+  if (bullet) return { headingLevel: 0, bulletDepth: Math.floor(bullet[1].length / 2), text: stripInlineMarkdown(bullet[2]) };
+  return { headingLevel: 0, bulletDepth: -1, text: stripInlineMarkdown(line) };
+};
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'imported-unit';
+
+const taskTypeFromId = (id: string): TaskItem['type'] | null =>
+  (/^\d*M\d+$/.test(id) ? 'merit' : /^\d*D\d+$/.test(id) ? 'distinction' : /^P\d+$/.test(id) || /^\d+\.\d+$/.test(id) ? 'standard' : null);
+
+export const parseMarkdownBrief = (markdown: string): BriefImportResult => {
+  const warnings: string[] = [];
+  const unit: Unit = { id: '', title: '', instructions: '', scenario: '', task: '', learning_outcomes: [] };
+  const sections: Record<SectionField, string[]> = { instructions: [], scenario: [], task: [] };
+
+  let section: SectionField | null = null;
+  let outcome: LearningOutcome | null = null;
+  let task: TaskItem | null = null;
+  let inIndicativeContent = false;
+  let gradeHeading: TaskItem['type'] | null = null;
+
+  const addCriterion = (text: string) => {
+    if (!task) return;
+    const match = text.match(CRITERION_ID);
+    const criterion: AcceptanceCriteria = match
+      ? { id: match[1].replace(/\s+/g, ' ').toUpperCase().replace(/^AC(?=\d)/, 'AC '), criteria: match[2] }
+      : { id: task.acceptance_criteria.length === 0 ? `AC ${task.id}` : `AC ${task.id}-${task.acceptance_criteria.length + 1}`, criteria: text };
+    task.acceptance_criteria.push(criterion);
+  };
+
+  const startTask = (outcomeForTask: LearningOutcome, id: string, description: string) => {
+    const idType = taskTypeFromId(id);
+    const marker = description.match(/\b(merit|distinction)\b/i)?.[1].toLowerCase() as TaskItem['type'] | undefined;
+    task = {
+      id,
+      description: `${id} ${description.replace(/^\((merit|distinction)\)\s*/i, '')}`,
+      // 1M1 and 1D1 say it themselves; 1.1 and P1 can be promoted by a marker or heading
+      type: idType && idType !== 'standard' ? idType : marker ?? gradeHeading ?? 'standard',
+      acceptance_criteria: []
+    };
+    outcomeForTask.outcome_tasks.push(task);
+    inIndicativeContent = false;
+  };
+
+  markdown.split(/\r?\n/).forEach((raw, index) => {
+    const line = parseLine(raw);
+    if (!line) return;
+    const { text } = line;
+    const lineLabel = `Line ${index + 1}`;
+
+    if (line.headingLevel > 0) {
+      const headingTask = outcome && !inIndicativeContent ? text.match(TASK_LINE) : null;
+      if (outcome && headingTask) {
+        startTask(outcome, headingTask[1], headingTask[2]);
+        return;
+      }
+      // Criteria listed under their own heading still belong to the task above it
+      if (/^(acceptance|assessment)\s+criteria$/i.test(text) && task) return;
+      task = null;
+      inIndicativeContent = false;
+      const outcomeMatch = text.match(OUTCOME_HEADING);
+      const sectionField = (Object.keys(SECTION_FIELDS) as SectionField[]).find(field => SECTION_FIELDS[field].test(text));
+      if (outcomeMatch) {
+        section = null;
+        gradeHeading = null;
+        outcome = { id: `LO${outcomeMatch[1]}`, description: outcomeMatch[2], outcome_tasks: [], indicative_content: [] };
+        unit.learning_outcomes.push(outcome);
+      } else if (sectionField) {
+        section = sectionField;
+        outcome = null;
+      } else if (/^(indicative\s+)?content$/i.test(text) && outcome) {
+        inIndicativeContent = true;
+      } else if (/^(merit|distinction)\b/i.test(text)) {
+        gradeHeading = /^merit/i.test(text) ? 'merit' : 'distinction';
+      } else if (/^(pass|standard)\b/i.test(text)) {
+        gradeHeading = 'standard';
+      } else if (/^(outcome\s+)?tasks$/i.test(text) && outcome) {
+        // Tasks are recognised by their numbers, so this heading only marks them
+      } else if (!unit.title) {
+        unit.title = text;
+      } else if (section) {
+        sections[section].push(text);
+      } else {
+        warnings.push(`${lineLabel}: skipped the heading "${text}"`);
+      }
+      return;
+    }
+
+    const metadata = text.match(/^(credits|guided learning hours|GLH)\s*[:=-]\s*(\d+)/i);
+    if (metadata && !outcome) {
+      if (/^credits/i.test(metadata[1])) unit.credits = Number(metadata[2]);
+      else unit.guided_learning_hours = Number(metadata[2]);
+      return;
+    }
+
+    // "1.1 ..." stays a task inside a numbered list, but not inside indicative content
+    const taskMatch = inIndicativeContent && line.bulletDepth >= 0 ? null : text.match(TASK_LINE);
+    if (taskMatch && outcome) {
+      startTask(outcome, taskMatch[1], taskMatch[2]);
+      return;
+    }
+    if (taskMatch && !section) {
+      warnings.push(`${lineLabel}: task ${taskMatch[1]} comes before any learning outcome heading and was skipped`);
+      return;
+    }
+
+    if (/^(acceptance|assessment) criteria:?$/i.test(text)) return;
+
+    if (line.bulletDepth >= 0 && task) {
+      addCriterion(text);
+    } else if (outcome && (inIndicativeContent || line.bulletDepth >= 0)) {
+      const type: IndicativeContent['type'] = line.bulletDepth < 0 ? 'heading' : line.bulletDepth > 0 ? 'sub_bullet' : 'bullet';
+      outcome.indicative_content.push({ description: text, type });
+    } else if (section) {
+      sections[section].push(text);
+    } else if (outcome && !outcome.description) {
+      outcome.description = text;
+    } else if (task) {
+      // A paragraph after a task line continues its description
+      task.description = `${task.description} ${text}`;
+    } else {
+      warnings.push(`${lineLabel}: skipped "${text.length > 60 ? `${text.slice(0, 57)}...` : text}"`);
+    }
+  });
+
+  unit.instructions = sections.instructions.join('\n\n');
+  unit.scenario = sections.scenario.join('\n\n');
+  unit.task = sections.task.join('\n\n');
+  unit.id = slugify(unit.title);
+
+  unit.learning_outcomes.forEach(lo => lo.outcome_tasks.forEach(outcomeTask => {
+    // Without a criteria list, a task's criterion is the task itself, as in the bundled units
+    if (outcomeTask.acceptance_criteria.length === 0) {
+      outcomeTask.acceptance_criteria.push({ id: `AC ${outcomeTask.id}`, criteria: outcomeTask.description.slice(outcomeTask.id.length).trim() });
+    }
+  }));
+
+  // A task marked "(LO1, LO2)" belongs to each of those learning outcomes and shares one answer
+  unit.learning_outcomes.forEach(lo => lo.outcome_tasks.forEach(outcomeTask => {
+    const references = outcomeTask.description.match(OUTCOME_REFERENCES)?.[1].match(/LO\d+/gi) || [];
+    references.map(id => id.toUpperCase()).forEach(id => {
+      const target = unit.learning_outcomes.find(other => other.id === id);
+      if (target && !target.outcome_tasks.some(other => other.id === outcomeTask.id)) {
+        target.outcome_tasks.push({ ...outcomeTask, acceptance_criteria: outcomeTask.acceptance_criteria.map(criterion => ({ ...criterion })) });
+      }
+    });
+  }));
+
+  if (!unit.title) warnings.push('No title heading found');
+  if (unit.learning_outcomes.length === 0) warnings.push('No learning outcome headings ("LO1 ..." or "Learning outcome 1: ...") found');
+  unit.learning_outcomes
+    .filter(lo => lo.outcome_tasks.length === 0)
+    .forEach(lo => warnings.push(`${lo.id} has no numbered tasks (1.1, 1M1, 1D1, ...)`));
+
+  return { unit, warnings };
+};
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Reads the paragraphs of word/document.xml as Markdown: heading styles become #-headings and
+// list paragraphs become bullets. Numbers Word generates for numbered lists are not in the
+// document text, so task numbers must be typed out in the brief.
+export const docxToMarkdown = (data: Uint8Array): string => {
+  let files;
+  try {
+    files = unzipSync(data, { filter: file => file.name === 'word/document.xml' });
+  } catch {
+    throw new Error('The file is not a valid Word document');
+  }
+  const documentXml = files['word/document.xml'];
+  if (!documentXml) throw new Error('The file is not a valid Word document');
+
+  const xml = new DOMParser().parseFromString(strFromU8(documentXml), 'application/xml');
+  const lines: string[] = [];
+  Array.from(xml.getElementsByTagNameNS(WORD_NS, 'p')).forEach(paragraph => {
+    let text = '';
+    paragraph.querySelectorAll('*').forEach(node => {
+      if (node.namespaceURI !== WORD_NS) return;
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab' || node.localName === 'br') text += ' ';
+    });
+    text = text.replace(/\s+/g, ' ').trim();
+    if (!text) return;
+
+    const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') || '';
+    const headingLevel = /^title$/i.test(style) ? 1 : Number(style.match(/^heading\s*(\d)$/i)?.[1] || 0);
+    const numbering = paragraph.getElementsByTagNameNS(WORD_NS, 'numPr')[0];
+    if (headingLevel > 0) {
+      lines.push(`${'#'.repeat(Math.min(headingLevel, 6))} ${text}`);
+    } else if (numbering) {
+      const level = Number(numbering.getElementsByTagNameNS(WORD_NS, 'ilvl')[0]?.getAttributeNS(WORD_NS, 'val') || 0);
+      lines.push(`${'  '.repeat(level)}- ${text}`);
+    } else {
+      lines.push(text);
+    }
+  });
+  return lines.join('\n');
+};
+
+export const BRIEF_EXTENSIONS = ['.md', '.markdown', '.docx'];
+
+export const isBriefFile = (fileName: string) => BRIEF_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+export const importBriefFile = async (file: File): Promise<BriefImportResult> => {
+  const markdown = file.name.toLowerCase().endsWith('.docx')
+    ? docxToMarkdown(new Uint8Array(await file.arrayBuffer()))
+    : await file.text();
+  return parseMarkdownBrief(markdown);
+};
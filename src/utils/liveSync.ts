@@ -0,0 +1,96 @@
+// Change notifications between open copies of the app. Other tabs in this browser hear about
+// changes through a BroadcastChannel; other browsers and devices using the same server hear
+// through the server's /api/events stream. Writes to the server carry CLIENT_ID so a tab can
+// skip events caused by its own writes.
+
+export type SyncEvent =
+  | { type: 'progress-changed'; unitId: string }
+  | { type: 'units-changed' }
+  // The server's storage history was restored to an earlier commit; everything was replaced
+  | { type: 'restored' }
+  // The server stream came back after a drop, so anything may have changed in the meantime
+  | { type: 'reconnected' };
+
+// 'tab' events come from this browser, so local storage already holds the change;
+// 'server' events mean the server copy has to be fetched
+export type SyncOrigin = 'tab' | 'server';
+
+type SyncListener = (event: SyncEvent, origin: SyncOrigin) => void;
+
+const CHANNEL_NAME = 'learning-assistant-sync';
+const EVENTS_URL = '/api/events';
+// EventSource retries dropped connections itself but gives up on error responses,
+// e.g. while the dev proxy can't reach the server
+const RECONNECT_DELAY_MS = 30 * 1000;
+
+export const CLIENT_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const listeners = new Set<SyncListener>();
+let channel: BroadcastChannel | null = null;
+let eventSource: EventSource | null = null;
+let reconnectTimer: number | null = null;
+
+const notify = (event: SyncEvent, origin: SyncOrigin) => {
+  listeners.forEach(listener => listener(event, origin));
+};
+
+const getChannel = () => {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (message: MessageEvent<SyncEvent>) => notify(message.data, 'tab');
+  }
+  return channel;
+};
+
+const openEventStream = () => {
+  reconnectTimer = null;
+  if (typeof EventSource === 'undefined' || listeners.size === 0) return;
+
+  const source = new EventSource(EVENTS_URL);
+  let dropped = false;
+  source.onopen = () => {
+    if (dropped) notify({ type: 'reconnected' }, 'server');
+    dropped = false;
+  };
+  source.onerror = () => {
+    dropped = true;
+    if (source.readyState === EventSource.CLOSED) {
+      source.close();
+      eventSource = null;
+      reconnectTimer = window.setTimeout(openEventStream, RECONNECT_DELAY_MS);
+    }
+  };
+  source.onmessage = (message: MessageEvent<string>) => {
+    try {
+      const { source: writer, ...event } = JSON.parse(message.data);
+      if (writer !== CLIENT_ID) notify(event as SyncEvent, 'server');
+    } catch (error) {
+      console.warn('Ignoring malformed sync event:', error);
+    }
+  };
+  eventSource = source;
+};
+
+const closeEventStream = () => {
+  if (reconnectTimer !== null) window.clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  eventSource?.close();
+  eventSource = null;
+};
+
+// Returns an unsubscribe function. The server stream stays open while anything is subscribed.
+export const subscribeToSyncEvents = (listener: SyncListener) => {
+  listeners.add(listener);
+  getChannel();
+  if (!eventSource && reconnectTimer === null) openEventStream();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) closeEventStream();
+  };
+};
+
+// Tells other tabs in this browser about a change already written to local storage. Other
+// devices are told by the server when the change reaches it.
+export const publishSyncEvent = (event: SyncEvent) => {
+  getChannel()?.postMessage(event);
+};
@@ -0,0 +1,125 @@
+import { StudentAnswer } from '../types/Unit';
+import { migrateQuillToTiptap, isQuillContent } from './contentMigration';
+import type { ExportedProgress } from './storageExport';
+
+// Ordered schema migrations for exported snapshots and stored data. Every step upgrades
+// data from `version - 1` to `version` and only receives data that is older than it, so
+// steps can assume the previous ones have already run. Add new steps at the end and bump
+// nothing else: CURRENT_SCHEMA_VERSION follows the last step.
+
+// The shape shared by ExportedProgress and what is kept in storage. Unit and progress data
+// stay loosely typed: migrations exist precisely because old data doesn't match today's types.
+export type MigratableData = Pick<ExportedProgress, 'units'> & { schemaVersion?: number };
+
+export interface MigrationStep {
+  version: number;
+  name: string;
+  description: string;
+  // Returns the upgraded data and a list of human-readable changes (empty if nothing changed)
+  migrate: (data: MigratableData) => { data: MigratableData; changes: string[] };
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  steps: { version: number; name: string; changes: string[] }[];
+}
+
+const mapUnits = (
+  data: MigratableData,
+  update: (unitId: string, entry: MigratableData['units'][string]) => MigratableData['units'][string]
+): MigratableData => ({
+  ...data,
+  units: Object.fromEntries(Object.entries(data.units).map(([unitId, entry]) => [unitId, update(unitId, entry)]))
+});
+
+export const MIGRATION_STEPS: MigrationStep[] = [
+  {
+    version: 1,
+    name: 'status-history',
+    description: 'Give every answer a statusHistory array',
+    migrate: data => {
+      const changes: string[] = [];
+      const migrated = mapUnits(data, (unitId, entry) => {
+        if (!entry.progress) return entry;
+        const answers = (entry.progress.answers || []).map((answer: StudentAnswer) => {
+          if (Array.isArray(answer.statusHistory)) return answer;
+          changes.push(`${unitId} task ${answer.taskId}: added empty status history`);
+          return { ...answer, statusHistory: [] };
+        });
+        return { ...entry, progress: { ...entry.progress, answers } };
+      });
+      return { data: migrated, changes };
+    }
+  },
+  {
+    version: 2,
+    name: 'unit-credits',
+    description: 'Default missing credits and guided learning hours to 0',
+    migrate: data => {
+      const changes: string[] = [];
+      const migrated = mapUnits(data, (unitId, entry) => {
+        if (!entry.unitData) return entry;
+        const unitData = { ...entry.unitData };
+        if (unitData.credits === undefined) {
+          unitData.credits = 0;
+          changes.push(`${unitId}: set credits to 0`);
+        }
+        if (unitData.guided_learning_hours === undefined) {
+          unitData.guided_learning_hours = 0;
+          changes.push(`${unitId}: set guided learning hours to 0`);
+        }
+        return { ...entry, unitData };
+      });
+      return { data: migrated, changes };
+    }
+  },
+  {
+    version: 3,
+    name: 'quill-to-tiptap',
+    description: 'Convert answers written in the old Quill editor to Tiptap HTML',
+    migrate: data => {
+      const changes: string[] = [];
+      const migrated = mapUnits(data, (unitId, entry) => {
+        if (!entry.progress) return entry;
+        const answers = (entry.progress.answers || []).map((answer: StudentAnswer) => {
+          if (!isQuillContent(answer.content)) return answer;
+          changes.push(`${unitId} task ${answer.taskId}: converted Quill content`);
+          return { ...answer, content: migrateQuillToTiptap(answer.content) };
+        });
+        return { ...entry, progress: { ...entry.progress, answers } };
+      });
+      return { data: migrated, changes };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATION_STEPS[MIGRATION_STEPS.length - 1].version;
+
+// Data written before schema versions existed has no schemaVersion and is treated as 0
+export const runMigrations = <T extends MigratableData>(input: T): { data: T; report: MigrationReport } => {
+  const fromVersion = input.schemaVersion ?? 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `This data uses schema version ${fromVersion}, but this app only understands up to version ${CURRENT_SCHEMA_VERSION}. Please update the app.`
+    );
+  }
+
+  let data: MigratableData = input;
+  const report: MigrationReport = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, steps: [] };
+  MIGRATION_STEPS
+    .filter(step => step.version > fromVersion)
+    .forEach(step => {
+      const result = step.migrate(data);
+      data = { ...result.data, schemaVersion: step.version };
+      report.steps.push({ version: step.version, name: step.name, changes: result.changes });
+    });
+
+  if (report.steps.length > 0) {
+    console.log(`Migrated data from schema v${fromVersion} to v${CURRENT_SCHEMA_VERSION}:`, report);
+  }
+  return { data: { ...data, schemaVersion: CURRENT_SCHEMA_VERSION } as T, report };
+};
+
+export const countMigrationChanges = (report: MigrationReport) =>
+  report.steps.reduce((sum, step) => sum + step.changes.length, 0);
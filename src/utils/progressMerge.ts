@@ -0,0 +1,142 @@
+import { Progress, StudentAnswer } from '../types/Unit';
+
+// How a unit from an imported snapshot is combined with the same unit already in the app:
+// - replace:      the snapshot's copy overwrites the local one
+// - merge:        answers missing locally are added, local answers win on conflicts
+// - merge-newest: answers missing on either side are kept, conflicts go to the newer edit
+export type UnitImportMode = 'replace' | 'merge' | 'merge-newest';
+
+export const UNIT_IMPORT_MODES: { mode: UnitImportMode; label: string; description: string }[] = [
+  { mode: 'replace', label: 'Replace', description: 'Use the backup for this unit' },
+  { mode: 'merge', label: 'Merge', description: 'Add missing answers, keep mine on conflicts' },
+  { mode: 'merge-newest', label: 'Merge, newest wins', description: 'Keep whichever answer was edited last' }
+];
+
+// Progress as it comes out of storage or a snapshot file; dates may still be ISO strings
+type StoredProgress = Progress;
+
+export interface AnswerConflict {
+  taskId: string;
+  local: StudentAnswer;
+  imported: StudentAnswer;
+}
+
+const toTime = (value: Date | string | undefined) => (value ? new Date(value).getTime() : 0);
+
+const getLastStatus = (answer: StudentAnswer) => {
+  const history = answer.statusHistory || [];
+  return history.length > 0 ? history[history.length - 1].status : undefined;
+};
+
+// Two copies of an answer conflict when both sides hold edits the other doesn't have
+const answersDiffer = (a: StudentAnswer, b: StudentAnswer) =>
+  a.content !== b.content ||
+  a.version !== b.version ||
+  (a.statusHistory?.length || 0) !== (b.statusHistory?.length || 0) ||
+  getLastStatus(a) !== getLastStatus(b);
+
+export const findAnswerConflicts = (
+  local: StoredProgress | null | undefined,
+  imported: StoredProgress | null | undefined
+): AnswerConflict[] => {
+  if (!local || !imported) return [];
+  const conflicts: AnswerConflict[] = [];
+  (imported.answers || []).forEach(importedAnswer => {
+    const localAnswer = (local.answers || []).find(a => a.taskId === importedAnswer.taskId);
+    if (localAnswer && answersDiffer(localAnswer, importedAnswer)) {
+      conflicts.push({ taskId: importedAnswer.taskId, local: localAnswer, imported: importedAnswer });
+    }
+  });
+  return conflicts;
+};
+
+export const resolveConflict = (conflict: AnswerConflict, mode: UnitImportMode): 'local' | 'imported' => {
+  if (mode === 'replace') return 'imported';
+  if (mode === 'merge') return 'local';
+
+  const localTime = toTime(conflict.local.lastModified);
+  const importedTime = toTime(conflict.imported.lastModified);
+  if (localTime !== importedTime) return importedTime > localTime ? 'imported' : 'local';
+  return (conflict.imported.version || 0) > (conflict.local.version || 0) ? 'imported' : 'local';
+};
+
+// Combines local and imported progress for one unit. Completion follows whichever side each
+// answer was taken from, so a task isn't marked complete against the other side's answer.
+export const mergeProgress = (
+  local: StoredProgress | null | undefined,
+  imported: StoredProgress | null | undefined,
+  mode: UnitImportMode
+): StoredProgress | null => {
+  if (mode === 'replace' || !local) return imported || null;
+  if (!imported) return local;
+
+  const localAnswers = local.answers || [];
+  const importedAnswers = imported.answers || [];
+  const localCompleted = new Set(local.completedTasks || []);
+  const importedCompleted = new Set(imported.completedTasks || []);
+
+  const completedTasks = new Set<string>();
+  const answers: StudentAnswer[] = localAnswers.map(localAnswer => {
+    const importedAnswer = importedAnswers.find(a => a.taskId === localAnswer.taskId);
+    const winner = importedAnswer && answersDiffer(localAnswer, importedAnswer)
+      ? resolveConflict({ taskId: localAnswer.taskId, local: localAnswer, imported: importedAnswer }, mode)
+      : 'local';
+    const completed = winner === 'local' ? localCompleted : importedCompleted;
+    if (completed.has(localAnswer.taskId)) completedTasks.add(localAnswer.taskId);
+    return winner === 'local' ? localAnswer : importedAnswer!;
+  });
+
+  importedAnswers
+    .filter(importedAnswer => !localAnswers.some(a => a.taskId === importedAnswer.taskId))
+    .forEach(importedAnswer => {
+      answers.push(importedAnswer);
+      if (importedCompleted.has(importedAnswer.taskId)) completedTasks.add(importedAnswer.taskId);
+    });
+
+  // Completed tasks without an answer on either side are kept as they were locally
+  localCompleted.forEach(taskId => {
+    if (!answers.some(a => a.taskId === taskId)) completedTasks.add(taskId);
+  });
+
+  return {
+    ...local,
+    answers,
+    completedTasks: [...completedTasks],
+    startDate: toTime(imported.startDate) && toTime(imported.startDate) < toTime(local.startDate)
+      ? imported.startDate
+      : local.startDate,
+    lastActivity: toTime(imported.lastActivity) > toTime(local.lastActivity) ? imported.lastActivity : local.lastActivity
+  };
+};
+
+const answerTime = (answer: StudentAnswer | undefined) => (answer ? new Date(answer.lastModified).getTime() : 0);
+
+// Merges progress written by another tab or device into ours. Each answer is taken from the
+// side that changed it last, so an edit made here that hasn't reached the other side survives.
+// The current learning outcome and task stay per tab.
+export const mergeRemoteProgress = (local: Progress, remote: Progress) => {
+  const localNewer = local.answers.filter(answer =>
+    answerTime(answer) > answerTime(remote.answers.find(a => a.taskId === answer.taskId))
+  );
+  const localNewerIds = new Set(localNewer.map(answer => answer.taskId));
+
+  const merged: Progress = {
+    ...remote,
+    currentLO: local.currentLO,
+    currentTask: local.currentTask,
+    answers: [
+      ...remote.answers.map(answer => localNewer.find(a => a.taskId === answer.taskId) || answer),
+      ...localNewer.filter(answer => !remote.answers.some(a => a.taskId === answer.taskId))
+    ],
+    // Completion follows the answer it belongs to
+    completedTasks: localNewer.length === 0 ? remote.completedTasks : [
+      ...remote.completedTasks.filter(taskId => !localNewerIds.has(taskId)),
+      ...local.completedTasks.filter(taskId => localNewerIds.has(taskId))
+    ],
+    lastActivity: new Date(Math.max(new Date(local.lastActivity).getTime(), new Date(remote.lastActivity).getTime()))
+  };
+  const hasRemoteChanges = remote.answers.some(answer =>
+    answerTime(answer) > answerTime(local.answers.find(a => a.taskId === answer.taskId))
+  );
+  return { merged, hasLocalChanges: localNewer.length > 0, hasRemoteChanges };
+};
@@ -0,0 +1,264 @@
+import { Progress, StudentAnswer, Unit, UnitSummary } from '../types/Unit';
+import { SettingsData } from '../types/Settings';
+import { storage, STORAGE_KEYS, progressKey } from './storageBackend';
+import { CLIENT_ID } from './liveSync';
+import { mergeRemoteProgress } from './progressMerge';
+import type { TrashedUnit } from './unitTrash';
+
+// Client for the server's /api/units and /api/progress resources. When the server is
+// reachable it is the source of truth and local storage acts as a cache, so data survives a
+// browser profile wipe and can be shared between machines.
+
+export interface ServerUnitEntry {
+  unit: Unit;
+  summary: UnitSummary;
+}
+
+interface ApiResponse<T> {
+  success?: boolean;
+  data?: T;
+  error?: string;
+  details?: string;
+}
+
+export class ServerUnavailableError extends Error {
+  constructor(message = 'Server storage is not available') {
+    super(message);
+    this.name = 'ServerUnavailableError';
+  }
+}
+
+// Vite and nginx answer unknown routes with index.html, so a non-JSON response means
+// the Express server isn't running rather than a real error.
+const requestJson = async <T = unknown>(url: string, init?: RequestInit): Promise<ApiResponse<T> | null> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new ServerUnavailableError();
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (!contentType || !contentType.includes('application/json')) {
+    throw new ServerUnavailableError();
+  }
+  if (response.status === 404) return null;
+
+  const result: ApiResponse<T> = await response.json();
+  if (!response.ok) {
+    throw new Error(result.details || result.error || `Server error: ${response.status}`);
+  }
+  return result;
+};
+
+// The client id lets the server's change events skip the tab that made the change
+const jsonRequest = (method: string, body?: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json', 'X-Client-Id': CLIENT_ID },
+  body: body === undefined ? undefined : JSON.stringify(body)
+});
+
+export const fetchServerUnits = async (): Promise<ServerUnitEntry[]> => {
+  const result = await requestJson<ServerUnitEntry[]>('/api/units');
+  return result?.data || [];
+};
+
+export const saveServerUnit = async (unit: Unit, summary: UnitSummary): Promise<void> => {
+  await requestJson(`/api/units/${encodeURIComponent(unit.id)}`, jsonRequest('PUT', { unit, summary }));
+};
+
+// The server moves the unit and its progress to its trash rather than deleting them
+export const deleteServerUnit = async (unitId: string): Promise<void> => {
+  await requestJson(`/api/units/${encodeURIComponent(unitId)}`, jsonRequest('DELETE'));
+};
+
+// Dates come back as ISO strings; see reviveTrashedUnit
+export const fetchServerTrash = async (): Promise<TrashedUnit[]> => {
+  const result = await requestJson<TrashedUnit[]>('/api/trash');
+  return result?.data || [];
+};
+
+export const purgeServerTrash = async (unitId: string): Promise<void> => {
+  await requestJson(`/api/trash/${encodeURIComponent(unitId)}`, jsonRequest('DELETE'));
+};
+
+// Returns null when the server has no progress for the unit yet. Dates come back as ISO strings.
+export const fetchServerProgress = async (unitId: string): Promise<Progress | null> => {
+  const result = await requestJson<Progress>(`/api/progress/${encodeURIComponent(unitId)}`);
+  return result?.data ?? null;
+};
+
+export const saveServerProgress = async (progress: Progress): Promise<void> => {
+  await requestJson(`/api/progress/${encodeURIComponent(progress.unitId)}`, jsonRequest('PUT', progress));
+};
+
+// Returns false when the server has no progress document to patch
+export const patchServerAnswer = async (unitId: string, answer: StudentAnswer): Promise<boolean> => {
+  const result = await requestJson(
+    `/api/progress/${encodeURIComponent(unitId)}/answers/${encodeURIComponent(answer.taskId)}`,
+    jsonRequest('PATCH', answer)
+  );
+  return result !== null;
+};
+
+// Version of the settings document this app writes; the server rejects any other version
+export const SETTINGS_VERSION = 1;
+
+// Returns null when no settings have been saved yet
+export const fetchServerSettings = async (): Promise<SettingsData | null> => {
+  const result = await requestJson<SettingsData>('/api/settings');
+  return result?.data ?? null;
+};
+
+// Throws with the server's validation messages when the settings are rejected
+export const saveServerSettings = async (settings: Omit<SettingsData, 'version'>): Promise<SettingsData> => {
+  const result = await requestJson<SettingsData>('/api/settings', jsonRequest('PUT', { ...settings, version: SETTINGS_VERSION }));
+  if (!result?.data) throw new ServerUnavailableError();
+  return result.data;
+};
+
+export interface ServerStorageStats {
+  fileCount: number;
+  totalSize: number;
+  categories: Record<string, { files: number; size: number }>;
+  snapshotCount: number;
+  largestSnapshots: { name: string; format: string; date: string; files: number; size: number }[];
+  orphanedFiles: { path: string; size: number; reason: string }[];
+  disk: { free: number; total: number } | null;
+}
+
+export const fetchServerStorageStats = async (): Promise<ServerStorageStats> => {
+  const result = await requestJson<ServerStorageStats>('/api/storage/stats');
+  if (!result?.data) throw new ServerUnavailableError();
+  return result.data;
+};
+
+export interface CatalogueEntry {
+  id: string;
+  title: string;
+  credits: number | null;
+  guidedLearningHours: number | null;
+  learningOutcomeCount: number;
+  taskCount: number;
+  // 'bundled' ships with the app, 'admin' was dropped into storage/catalogue/
+  source: 'bundled' | 'admin';
+  // Changes whenever the unit definition does; see UnitSummary.catalogueVersion
+  version: string;
+  updatedAt: string;
+}
+
+export const fetchCatalogue = async (): Promise<CatalogueEntry[]> => {
+  const result = await requestJson<CatalogueEntry[]>('/api/catalogue');
+  if (!result?.data) throw new ServerUnavailableError();
+  return result.data;
+};
+
+export const fetchCatalogueUnit = async (unitId: string): Promise<{ entry: CatalogueEntry; unit: Unit } | null> => {
+  const result = await requestJson<{ entry: CatalogueEntry; unit: Unit }>(`/api/catalogue/${encodeURIComponent(unitId)}`);
+  return result?.data || null;
+};
+
+// Server writes are chained so a slow PUT can't land after a newer PATCH for the same unit
+let writeQueue: Promise<void> = Promise.resolve();
+
+export const enqueueServerWrite = (write: () => Promise<void>) => {
+  writeQueue = writeQueue
+    .then(write)
+    .catch(error => {
+      console.warn('Failed to sync with server storage:', error);
+    });
+  return writeQueue;
+};
+
+const toTime = (value: string | Date | undefined) => (value ? new Date(value).getTime() : 0);
+
+export const isNewerThan = (a: string | Date | undefined, b: string | Date | undefined) => toTime(a) > toTime(b);
+
+// Reconciles the cached progress for a unit with the server copy answer by answer: each answer
+// comes from the side that changed it last (see mergeRemoteProgress), so edits made offline
+// survive a server copy that is newer overall. The cache gets the merged result and the server
+// gets it too when it was missing something. Returns 'server' when only the cache changed,
+// 'local' when the server was updated and 'unchanged' otherwise.
+export const syncProgressCache = async (unitId: string): Promise<'server' | 'local' | 'unchanged'> => {
+  const serverProgress = await fetchServerProgress(unitId);
+  const localProgress = await storage.get<Progress>(progressKey(unitId));
+
+  if (!localProgress) {
+    if (!serverProgress) return 'unchanged';
+    await storage.put(progressKey(unitId), serverProgress);
+    return 'server';
+  }
+  if (!serverProgress) {
+    await saveServerProgress({ ...localProgress, unitId });
+    return 'local';
+  }
+
+  const { merged, hasLocalChanges, hasRemoteChanges } = mergeRemoteProgress(localProgress, serverProgress);
+  if (!hasLocalChanges && !hasRemoteChanges) {
+    // The answers agree; what's left (completed tasks, current task) follows the later activity
+    if (isNewerThan(localProgress.lastActivity, serverProgress.lastActivity)) {
+      await saveServerProgress({ ...localProgress, unitId });
+      return 'local';
+    }
+    if (isNewerThan(serverProgress.lastActivity, localProgress.lastActivity)) {
+      await storage.put(progressKey(unitId), serverProgress);
+      return 'server';
+    }
+    return 'unchanged';
+  }
+
+  const synced = { ...merged, unitId };
+  await storage.put(progressKey(unitId), synced);
+  if (!hasLocalChanges) return 'server';
+  await saveServerProgress(synced);
+  return 'local';
+};
+
+// Pushes the cached progress for a unit after it was edited outside useProgress
+export const pushCachedProgress = (unitId: string) =>
+  enqueueServerWrite(async () => {
+    const cached = await storage.get<Progress>(progressKey(unitId));
+    if (cached) await saveServerProgress({ ...cached, unitId });
+  });
+
+// Makes the server mirror local storage exactly, e.g. after importing a snapshot. Units the
+// import didn't contain are deleted so they don't come back on the next load.
+export const replaceServerDataWithCache = async (): Promise<void> => {
+  const units = (await storage.get<Record<string, Unit>>(STORAGE_KEYS.units)) || {};
+  const unitList = (await storage.get<UnitSummary[]>(STORAGE_KEYS.unitList)) || [];
+
+  const serverUnits = await fetchServerUnits();
+  for (const entry of serverUnits) {
+    if (!unitList.some(summary => summary.id === entry.unit.id)) {
+      await deleteServerUnit(entry.unit.id);
+    }
+  }
+
+  for (const summary of unitList) {
+    const unit = units[summary.id];
+    if (!unit) continue;
+    await saveServerUnit(unit, summary);
+    const cached = await storage.get<Progress>(progressKey(summary.id));
+    if (cached) {
+      await saveServerProgress({ ...cached, unitId: summary.id });
+    }
+  }
+};
+
+// The reverse of replaceServerDataWithCache: makes local storage mirror the server, e.g. after
+// the server's storage history was restored to an earlier commit.
+export const replaceCacheWithServerData = async (): Promise<void> => {
+  const serverUnits = await fetchServerUnits();
+  const units: Record<string, Unit> = {};
+  serverUnits.forEach(entry => { units[entry.unit.id] = entry.unit; });
+  await storage.put(STORAGE_KEYS.units, units);
+  await storage.put(STORAGE_KEYS.unitList, serverUnits.map(entry => entry.summary));
+
+  for (const key of await storage.list(STORAGE_KEYS.progressPrefix)) {
+    await storage.delete(key);
+  }
+  for (const entry of serverUnits) {
+    const progress = await fetchServerProgress(entry.unit.id);
+    if (progress) await storage.put(progressKey(entry.unit.id), progress);
+  }
+};
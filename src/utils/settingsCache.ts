@@ -0,0 +1,13 @@
+import { SettingsData } from '../types/Settings';
+import { AUTO_BACKUP_STORAGE_KEY } from '../hooks/useAutoBackup';
+import { TRASH_RETENTION_STORAGE_KEY } from './unitTrash';
+
+// Feedback requests, the working time indicator, auto backup and the trash read their settings
+// from localStorage, so every saved settings document is copied there as well
+export const cacheSettingsLocally = (settings: Omit<SettingsData, 'version'>) => {
+  localStorage.setItem('learning-assistant-feedback-service-url', settings.feedbackServiceUrl);
+  localStorage.setItem('learning-assistant-example-questions', JSON.stringify(settings.exampleQuestions));
+  localStorage.setItem('learning-assistant-working-hours', JSON.stringify(settings.workingHours));
+  if (settings.autoBackup) localStorage.setItem(AUTO_BACKUP_STORAGE_KEY, JSON.stringify(settings.autoBackup));
+  if (settings.trashRetentionDays) localStorage.setItem(TRASH_RETENTION_STORAGE_KEY, String(settings.trashRetentionDays));
+};
@@ -0,0 +1,150 @@
+// Optional client-side encryption for snapshot files: snapshots saved to the storage folder and
+// downloaded backups. Files are wrapped in a JSON envelope holding AES-GCM ciphertext; the key is
+// derived from a passphrase with PBKDF2, so the server only ever sees those files as ciphertext.
+// Nothing else is covered: the live units and progress the server keeps (storage/units,
+// storage/progress and their git history) are plaintext, as is this browser's own storage.
+//
+// The passphrase is kept out of settings.json and by default only lasts as long as the tab.
+// Remembering it in localStorage is opt-in, since it then sits unencrypted in the browser profile.
+// Whether encryption is on is remembered either way, so a later session refuses to save snapshots
+// until the passphrase is entered again instead of quietly writing them unencrypted.
+
+export const ENCRYPTED_SNAPSHOT_FORMAT = 'learning-assistant-encrypted';
+export const BACKUP_PASSPHRASE_STORAGE_KEY = 'learning-assistant-backup-passphrase';
+export const BACKUP_ENCRYPTION_STORAGE_KEY = 'learning-assistant-backup-encrypted';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 250000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_SNAPSHOT_FORMAT;
+  version: 1;
+  algorithm: 'AES-GCM';
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  ciphertext: string;
+}
+
+// Thrown when an encrypted file can't be opened with the passphrases we have
+export class PassphraseRequiredError extends Error {
+  constructor(message = 'This snapshot is encrypted. Enter its passphrase to open it.', public wrongPassphrase = false) {
+    super(message);
+    this.name = 'PassphraseRequiredError';
+  }
+}
+
+export const getBackupPassphrase = (): string | null =>
+  sessionStorage.getItem(BACKUP_PASSPHRASE_STORAGE_KEY) || localStorage.getItem(BACKUP_PASSPHRASE_STORAGE_KEY) || null;
+
+export const isBackupPassphraseRemembered = () => !!localStorage.getItem(BACKUP_PASSPHRASE_STORAGE_KEY);
+
+export const isBackupEncryptionEnabled = () =>
+  localStorage.getItem(BACKUP_ENCRYPTION_STORAGE_KEY) === 'true' || isBackupPassphraseRemembered();
+
+// `remember` keeps the passphrase across browser sessions; otherwise it is gone when the tab closes
+export const setBackupPassphrase = (passphrase: string | null, remember = false) => {
+  sessionStorage.removeItem(BACKUP_PASSPHRASE_STORAGE_KEY);
+  localStorage.removeItem(BACKUP_PASSPHRASE_STORAGE_KEY);
+  if (passphrase) (remember ? localStorage : sessionStorage).setItem(BACKUP_PASSPHRASE_STORAGE_KEY, passphrase);
+  if (passphrase) localStorage.setItem(BACKUP_ENCRYPTION_STORAGE_KEY, 'true');
+  else localStorage.removeItem(BACKUP_ENCRYPTION_STORAGE_KEY);
+};
+
+// Passphrases typed into the load prompt, kept in memory so other old snapshots encrypted with
+// the same passphrase open without asking again
+const sessionPassphrases = new Set<string>();
+
+export const rememberPassphrase = (passphrase: string) => {
+  sessionPassphrases.add(passphrase);
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large snapshots don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedEnvelope = (data: unknown): data is EncryptedEnvelope =>
+  typeof data === 'object' && data !== null && (data as { format?: unknown }).format === ENCRYPTED_SNAPSHOT_FORMAT;
+
+export const encryptJson = async (value: unknown, passphrase: string): Promise<EncryptedEnvelope> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return {
+    format: ENCRYPTED_SNAPSHOT_FORMAT,
+    version: 1,
+    algorithm: 'AES-GCM',
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+export const decryptJson = async <T>(envelope: EncryptedEnvelope, passphrase: string): Promise<T> => {
+  const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.ciphertext));
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  } catch {
+    // AES-GCM authentication fails the same way for a wrong passphrase and a tampered file
+    throw new PassphraseRequiredError('The passphrase is wrong or the file has been modified.', true);
+  }
+};
+
+// Serialises file content for the storage folder or a download, encrypting it when a
+// backup passphrase is set
+export const serializeSnapshotFile = async (value: unknown): Promise<string> => {
+  const passphrase = getBackupPassphrase();
+  if (!passphrase && isBackupEncryptionEnabled()) {
+    throw new PassphraseRequiredError('Backups are encrypted. Enter the backup passphrase in Settings to save them.');
+  }
+  return JSON.stringify(passphrase ? await encryptJson(value, passphrase) : value, null, 2);
+};
+
+// Opens file content read from storage, trying the given passphrase, then the configured one,
+// then any entered earlier this session. Plain JSON is returned unchanged.
+export const openSnapshotFile = async <T>(data: unknown, passphrase?: string): Promise<T> => {
+  if (!isEncryptedEnvelope(data)) return data as T;
+
+  const candidates = [passphrase, getBackupPassphrase(), ...sessionPassphrases]
+    .filter((candidate, index, all): candidate is string => !!candidate && all.indexOf(candidate) === index);
+  if (candidates.length === 0) throw new PassphraseRequiredError();
+
+  for (const candidate of candidates) {
+    try {
+      const decrypted = await decryptJson<T>(data, candidate);
+      if (candidate === passphrase) rememberPassphrase(candidate);
+      return decrypted;
+    } catch (error) {
+      if (!(error instanceof PassphraseRequiredError)) throw error;
+    }
+  }
+  throw new PassphraseRequiredError(
+    passphrase ? 'The passphrase is wrong or the file has been modified.' : undefined,
+    !!passphrase
+  );
+};
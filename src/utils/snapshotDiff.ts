@@ -0,0 +1,139 @@
+import { StudentAnswer, TaskStatusChange, Unit } from '../types/Unit';
+import { DiffSegment, diffHtml, summarizeDiff } from './answerDiff';
+import { runMigrations } from './migrations';
+import type { ExportedProgress } from './storageExport';
+
+// Compares two storage snapshots unit by unit and task by task, so a student or tutor can audit
+// what happened between two backups. `from` is expected to be the older snapshot.
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface TaskChange {
+  taskId: string;
+  description?: string;
+  kind: ChangeKind;
+  // Status changes recorded in `to` that `from` doesn't have
+  statusChanges: TaskStatusChange[];
+  // Word diff of the answer text; null when the text is unchanged
+  contentDiff: DiffSegment[] | null;
+  wordsAdded: number;
+  wordsRemoved: number;
+  versionFrom?: number;
+  versionTo?: number;
+  reviewFeedback?: { from?: string; to?: string };
+  completion?: 'completed' | 'reopened';
+}
+
+export interface UnitChange {
+  unitId: string;
+  title: string;
+  kind: ChangeKind;
+  tasks: TaskChange[];
+}
+
+export interface SnapshotDiff {
+  fromDate: string;
+  toDate: string;
+  units: UnitChange[];
+}
+
+type SnapshotUnit = ExportedProgress['units'][string];
+
+const statusChangeKey = (change: TaskStatusChange) =>
+  `${new Date(change.timestamp).toISOString()}|${change.status}`;
+
+const findTaskDescription = (unit: Unit | undefined, taskId: string) =>
+  unit?.learning_outcomes
+    ?.flatMap(lo => lo.outcome_tasks || [])
+    .find(task => task.id === taskId)?.description;
+
+const diffAnswer = (
+  taskId: string,
+  from: StudentAnswer | undefined,
+  to: StudentAnswer | undefined,
+  completedFrom: boolean,
+  completedTo: boolean
+): Omit<TaskChange, 'description'> | null => {
+  const knownChanges = new Set((from?.statusHistory || []).map(statusChangeKey));
+  const statusChanges = (to?.statusHistory || [])
+    .filter(change => !knownChanges.has(statusChangeKey(change)))
+    .map(change => ({ ...change, timestamp: new Date(change.timestamp) }));
+
+  const fromContent = from?.content || '';
+  const toContent = to?.content || '';
+  const contentDiff = fromContent !== toContent ? diffHtml(fromContent, toContent) : null;
+  const { added, removed } = contentDiff ? summarizeDiff(contentDiff) : { added: 0, removed: 0 };
+
+  const reviewFeedback = (from?.reviewFeedback || '') !== (to?.reviewFeedback || '')
+    ? { from: from?.reviewFeedback, to: to?.reviewFeedback }
+    : undefined;
+
+  const completion = completedFrom === completedTo ? undefined : completedTo ? 'completed' : 'reopened';
+
+  if (!contentDiff && statusChanges.length === 0 && !reviewFeedback && !completion) return null;
+
+  return {
+    taskId,
+    kind: !from ? 'added' : !to ? 'removed' : 'changed',
+    statusChanges,
+    contentDiff,
+    wordsAdded: added,
+    wordsRemoved: removed,
+    versionFrom: from?.version,
+    versionTo: to?.version,
+    reviewFeedback,
+    completion
+  };
+};
+
+const diffUnit = (unitId: string, from: SnapshotUnit | undefined, to: SnapshotUnit | undefined): UnitChange | null => {
+  const unit = to?.unitData || from?.unitData;
+  const fromAnswers: StudentAnswer[] = from?.progress?.answers || [];
+  const toAnswers: StudentAnswer[] = to?.progress?.answers || [];
+  const completedFrom = new Set<string>(from?.progress?.completedTasks || []);
+  const completedTo = new Set<string>(to?.progress?.completedTasks || []);
+
+  const taskIds = [...new Set([
+    ...fromAnswers.map(a => a.taskId),
+    ...toAnswers.map(a => a.taskId),
+    ...completedFrom,
+    ...completedTo
+  ])];
+
+  const tasks: TaskChange[] = taskIds
+    .flatMap(taskId => {
+      const change = diffAnswer(
+        taskId,
+        fromAnswers.find(a => a.taskId === taskId),
+        toAnswers.find(a => a.taskId === taskId),
+        completedFrom.has(taskId),
+        completedTo.has(taskId)
+      );
+      return change ? [{ ...change, description: findTaskDescription(unit, taskId) }] : [];
+    })
+    .sort((a, b) => a.taskId.localeCompare(b.taskId, undefined, { numeric: true }));
+
+  if (from && to && tasks.length === 0) return null;
+
+  return {
+    unitId,
+    title: unit?.title || to?.unitSummary?.title || from?.unitSummary?.title || unitId,
+    kind: !from ? 'added' : !to ? 'removed' : 'changed',
+    tasks
+  };
+};
+
+export const diffSnapshots = (from: ExportedProgress, to: ExportedProgress): SnapshotDiff => {
+  // Compare both sides in the current schema so legacy differences don't show up as edits
+  const fromUnits = runMigrations(from).data.units;
+  const toUnits = runMigrations(to).data.units;
+  const unitIds = [...new Set([...Object.keys(fromUnits), ...Object.keys(toUnits)])];
+
+  return {
+    fromDate: from.exportDate,
+    toDate: to.exportDate,
+    units: unitIds
+      .map(unitId => diffUnit(unitId, fromUnits[unitId], toUnits[unitId]))
+      .filter((change): change is UnitChange => change !== null)
+  };
+};
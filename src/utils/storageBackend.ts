@@ -0,0 +1,156 @@
+// Async key/value storage for units and progress. IndexedDB is used when available because
+// answers with tables and images quickly outgrow the ~5MB localStorage quota; localStorage
+// remains as a fallback (e.g. private browsing modes that block IndexedDB).
+// Small preferences (feedback URL, example questions, working hours) stay in localStorage
+// because they are read synchronously during render.
+
+export interface StorageBackend {
+  readonly name: string;
+  get<T = unknown>(key: string): Promise<T | null>;
+  put<T = unknown>(key: string, value: T): Promise<void>;
+  list(prefix?: string): Promise<string[]>;
+  delete(key: string): Promise<void>;
+}
+
+export const STORAGE_KEYS = {
+  units: 'learning-assistant-units',
+  unitList: 'learning-assistant-unit-list',
+  progressPrefix: 'learning-assistant-progress-',
+  schemaVersion: 'learning-assistant-schema-version',
+  trash: 'learning-assistant-trash'
+};
+
+export const progressKey = (unitId: string) => `${STORAGE_KEYS.progressPrefix}${unitId}`;
+
+// Keys moved out of localStorage on first run
+const isMigratableKey = (key: string) =>
+  key === STORAGE_KEYS.units || key === STORAGE_KEYS.unitList || key === STORAGE_KEYS.schemaVersion ||
+  key === STORAGE_KEYS.trash || key.startsWith(STORAGE_KEYS.progressPrefix);
+
+const MIGRATION_MARKER_KEY = 'meta:localStorageMigrated';
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localStorage',
+  async get<T>(key: string) {
+    const raw = localStorage.getItem(key);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  },
+  async put<T>(key: string, value: T) {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+  async list(prefix = '') {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null && key.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  },
+  async delete(key: string) {
+    localStorage.removeItem(key);
+  }
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (dbName: string, storeName: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+  });
+
+export const createIndexedDBBackend = async (
+  dbName = 'learning-assistant',
+  storeName = 'keyval'
+): Promise<StorageBackend> => {
+  const db = await openDatabase(dbName, storeName);
+  const store = (mode: IDBTransactionMode) => db.transaction(storeName, mode).objectStore(storeName);
+
+  return {
+    name: 'IndexedDB',
+    async get<T>(key: string) {
+      const value = await requestToPromise(store('readonly').get(key));
+      return value === undefined ? null : (value as T);
+    },
+    async put<T>(key: string, value: T) {
+      await requestToPromise(store('readwrite').put(value, key));
+    },
+    async list(prefix = '') {
+      const keys = await requestToPromise(store('readonly').getAllKeys());
+      return keys.map(String).filter(key => key.startsWith(prefix));
+    },
+    async delete(key: string) {
+      await requestToPromise(store('readwrite').delete(key));
+    }
+  };
+};
+
+// Copies the learning-assistant-* data keys from localStorage into the backend once, then
+// removes them from localStorage to free the quota.
+export const migrateFromLocalStorage = async (backend: StorageBackend): Promise<number> => {
+  if (await backend.get(MIGRATION_MARKER_KEY)) return 0;
+
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key !== null && isMigratableKey(key)) keys.push(key);
+  }
+
+  for (const key of keys) {
+    const raw = localStorage.getItem(key);
+    if (raw !== null) await backend.put(key, JSON.parse(raw));
+  }
+
+  await backend.put(MIGRATION_MARKER_KEY, new Date().toISOString());
+  keys.forEach(key => localStorage.removeItem(key));
+  if (keys.length > 0) {
+    console.log(`Migrated ${keys.length} key(s) from localStorage to ${backend.name}`);
+  }
+  return keys.length;
+};
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+const initialiseBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB === 'undefined') {
+    return createLocalStorageBackend();
+  }
+  try {
+    const backend = await createIndexedDBBackend();
+    await migrateFromLocalStorage(backend);
+    return backend;
+  } catch (error) {
+    console.warn('IndexedDB not available, falling back to localStorage:', error);
+    return createLocalStorageBackend();
+  }
+};
+
+export const getStorageBackend = (): Promise<StorageBackend> => {
+  if (!backendPromise) backendPromise = initialiseBackend();
+  return backendPromise;
+};
+
+// Swaps the backend, e.g. for a server-backed implementation
+export const setStorageBackend = (backend: StorageBackend) => {
+  backendPromise = Promise.resolve(backend);
+};
+
+// Shared instance that lazily resolves the active backend, so callers don't need to await it first
+export const storage: StorageBackend = {
+  name: 'storage',
+  get: async <T>(key: string) => (await getStorageBackend()).get<T>(key),
+  put: async <T>(key: string, value: T) => (await getStorageBackend()).put<T>(key, value),
+  list: async (prefix?: string) => (await getStorageBackend()).list(prefix),
+  delete: async (key: string) => (await getStorageBackend()).delete(key)
+};
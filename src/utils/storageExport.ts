@@ -1,6 +1,14 @@
-import { UnitSummary } from '../types/Unit';
+import { Progress, Unit, UnitSummary } from '../types/Unit';
+import { storage, STORAGE_KEYS, progressKey } from './storageBackend';
+import { AnswerConflict, UnitImportMode, findAnswerConflicts, mergeProgress } from './progressMerge';
+import { CURRENT_SCHEMA_VERSION, MigrationReport, runMigrations } from './migrations';
+import { isBackupEncryptionEnabled, openSnapshotFile, serializeSnapshotFile } from './snapshotCrypto';
+import { UNITPACK_EXTENSION, UnitPackContents, buildUnitPack, readUnitPack } from './unitPack';
+import { ServerUnavailableError, fetchServerSettings, saveServerSettings } from './serverStorage';
+import { cacheSettingsLocally } from './settingsCache';
 
 export interface ExportedProgress {
+  schemaVersion?: number; // missing on snapshots written before migrations existed
   exportDate: string;
   totalUnits: number;
   units: {
@@ -12,11 +20,12 @@ export interface ExportedProgress {
   };
 }
 
-export const exportAllProgress = (): ExportedProgress => {
-  const unitListData = localStorage.getItem('learning-assistant-unit-list');
-  const unitsData = localStorage.getItem('learning-assistant-units');
+// Everything in storage in export shape, without claiming a schema version
+const collectStoredData = async (): Promise<ExportedProgress> => {
+  const unitList = await storage.get<UnitSummary[]>(STORAGE_KEYS.unitList);
+  const units = await storage.get<Record<string, Unit>>(STORAGE_KEYS.units);
   
-  if (!unitListData || !unitsData) {
+  if (!unitList || !units) {
     return {
       exportDate: new Date().toISOString(),
       totalUnits: 0,
@@ -24,8 +33,6 @@ export const exportAllProgress = (): ExportedProgress => {
     };
   }
 
-  const unitList: UnitSummary[] = JSON.parse(unitListData);
-  const units = JSON.parse(unitsData);
   const exportData: ExportedProgress = {
     exportDate: new Date().toISOString(),
     totalUnits: unitList.length,
@@ -33,23 +40,44 @@ export const exportAllProgress = (): ExportedProgress => {
   };
 
   // Export progress for each unit
-  unitList.forEach(unitSummary => {
-    const progressKey = `learning-assistant-progress-${unitSummary.id}`;
-    const progressData = localStorage.getItem(progressKey);
+  for (const unitSummary of unitList) {
+    const progressData = await storage.get(progressKey(unitSummary.id));
     
     exportData.units[unitSummary.id] = {
       unitSummary,
-      progress: progressData ? JSON.parse(progressData) : null,
+      progress: progressData,
       unitData: units[unitSummary.id] || null
     };
-  });
+  }
 
   return exportData;
 };
 
-export const downloadProgressAsJson = () => {
-  const exportData = exportAllProgress();
-  const jsonString = JSON.stringify(exportData, null, 2);
+export const exportAllProgress = async (): Promise<ExportedProgress> => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  ...(await collectStoredData())
+});
+
+// Brings data already in storage up to the current schema. Runs once per schema bump, before
+// the app reads units or progress.
+export const migrateStoredData = async (): Promise<MigrationReport | null> => {
+  const storedVersion = (await storage.get<number>(STORAGE_KEYS.schemaVersion)) ?? 0;
+  if (storedVersion === CURRENT_SCHEMA_VERSION) return null;
+
+  const { data, report } = runMigrations({ ...(await collectStoredData()), schemaVersion: storedVersion });
+  const units = (await storage.get<Record<string, Unit>>(STORAGE_KEYS.units)) || {};
+  for (const [unitId, entry] of Object.entries(data.units)) {
+    if (entry.unitData) units[unitId] = entry.unitData;
+    if (entry.progress) await storage.put(progressKey(unitId), entry.progress);
+  }
+  await storage.put(STORAGE_KEYS.units, units);
+  await storage.put(STORAGE_KEYS.schemaVersion, CURRENT_SCHEMA_VERSION);
+  return report;
+};
+
+export const downloadProgressAsJson = async () => {
+  const exportData = await exportAllProgress();
+  const jsonString = await serializeSnapshotFile(exportData);
   const blob = new Blob([jsonString], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
   
@@ -64,161 +92,162 @@ export const downloadProgressAsJson = () => {
   URL.revokeObjectURL(url);
 };
 
-export const saveProgressToStorageFolder = async () => {
-  const exportData = exportAllProgress();
-  const jsonString = JSON.stringify(exportData, null, 2);
-  const fileSizeInBytes = new Blob([jsonString]).size;
-  const maxSizeInBytes = 10 * 1024 * 1024; // 10MB limit (increased)
-  
-  // Debug: Log file size breakdown
-  console.log('=== FILE SIZE BREAKDOWN ===');
-  console.log(`Total file size: ${(fileSizeInBytes / 1024 / 1024).toFixed(2)}MB`);
-  console.log(`JSON string length: ${jsonString.length} characters`);
-  console.log(`Request body size estimate: ${(JSON.stringify({
-    fileName: 'test.json',
-    content: jsonString
-  }).length / 1024 / 1024).toFixed(2)}MB`);
-  console.log(`Total units: ${exportData.totalUnits}`);
-  
-  // Analyze each unit's contribution to file size
-  Object.entries(exportData.units).forEach(([unitId, unitData]) => {
-    const unitJsonString = JSON.stringify(unitData, null, 2);
-    const unitSize = new Blob([unitJsonString]).size;
-    const answers = unitData.progress?.answers || [];
-    const totalAnswerLength = answers.reduce((sum: number, answer: any) => sum + (answer.content?.length || 0), 0);
-    const totalFeedbackLength = answers.reduce((sum: number, answer: any) => sum + (answer.feedback?.length || 0), 0);
-    
-    console.log(`Unit ${unitId}:`);
-    console.log(`  - Unit size: ${(unitSize / 1024).toFixed(1)}KB`);
-    console.log(`  - Answers: ${answers.length}`);
-    console.log(`  - Total answer content: ${(totalAnswerLength / 1024).toFixed(1)}KB`);
-    console.log(`  - Total feedback content: ${(totalFeedbackLength / 1024).toFixed(1)}KB`);
-  });
-  console.log('========================');
-  
+export const LAST_BACKUP_STORAGE_KEY = 'learning-assistant-last-backup';
+
+export const getLastBackupTime = (): Date | null => {
+  const saved = localStorage.getItem(LAST_BACKUP_STORAGE_KEY);
+  return saved ? new Date(saved) : null;
+};
+
+const SERVER_NOT_RUNNING_MESSAGE = 'Backend server not running. Please open a second terminal and run "npm run server" to start the Express server, then try again.';
+
+const recordBackupTime = () => {
+  localStorage.setItem(LAST_BACKUP_STORAGE_KEY, new Date().toISOString());
+};
+
+const gzipText = async (text: string): Promise<Blob> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).blob();
+};
+
+const postPlainSnapshot = async (fileName: string, content: string) => fetch('/api/save-progress', {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  body: JSON.stringify({ fileName, content })
+});
+
+// Saves a snapshot as learning-progress-<timestamp>.json.gz. Browsers without CompressionStream
+// fall back to plain JSON, which the server's 50MB JSON body limit still covers for most data.
+// Pass `preparedData` when the caller already exported the data (e.g. to check it changed)
+export const saveProgressToStorageFolder = async (preparedData?: ExportedProgress) => {
+  const exportData = preparedData || await exportAllProgress();
+  const content = await serializeSnapshotFile(exportData);
+
   const now = new Date();
   const timestamp = now.toISOString().replace(/[:.]/g, '-').slice(0, -5);
-  
+
   try {
-    console.log('Attempting to save to storage folder (single save operation)...');
-    
-    // If file is small enough, save as single file
-    if (fileSizeInBytes <= maxSizeInBytes) {
-      const fileName = `learning-progress-${timestamp}.json`;
-      
-      console.log(`Sending request with fileName: ${fileName}`);
-      console.log(`Content length: ${jsonString.length} characters`);
-      
-      const response = await fetch('/api/save-progress', {
-        method: 'POST',
+    let response: Response;
+    if (typeof CompressionStream !== 'undefined') {
+      const fileName = `learning-progress-${timestamp}.json.gz`;
+      const compressed = await gzipText(content);
+      console.log(`Saving ${fileName}: ${(content.length / 1024).toFixed(1)}KB compressed to ${(compressed.size / 1024).toFixed(1)}KB`);
+      response = await fetch(`/api/storage-files/${encodeURIComponent(fileName)}`, {
+        method: 'PUT',
         headers: {
-          'Content-Type': 'application/json',
+          'Content-Type': 'application/gzip',
         },
-        body: JSON.stringify({
-          fileName,
-          content: jsonString
-        })
+        body: compressed
       });
-      
-      console.log('Response status:', response.status);
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()));
-      
-      if (!response.ok) {
-        let errorData;
-        try {
-          errorData = await response.text();
-        } catch (e) {
-          errorData = `Failed to read error response: ${e.message}`;
-        }
-        console.error('Server response:', errorData);
-        throw new Error(`Server error: ${response.status} - ${errorData}`);
-      }
-      
-      const result = await response.json();
-      console.log('Save successful:', result);
-      return result;
+    } else {
+      response = await postPlainSnapshot(`learning-progress-${timestamp}.json`, content);
     }
-    
-    // File is too large, save in chunks
-    console.log(`File size (${(fileSizeInBytes / 1024 / 1024).toFixed(2)}MB) exceeds limit, saving in chunks...`);
-    
-    // Create metadata file
-    const metadata = {
-      originalFileName: `learning-progress-${timestamp}.json`,
-      timestamp,
-      totalUnits: exportData.totalUnits,
-      exportDate: exportData.exportDate,
-      isChunked: true,
-      unitIds: Object.keys(exportData.units)
-    };
-    
-    console.log('Saving metadata file...');
-    const metadataResponse = await fetch('/api/save-progress', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        fileName: `learning-progress-${timestamp}-metadata.json`,
-        content: JSON.stringify(metadata, null, 2)
-      })
-    });
-    
-    if (!metadataResponse.ok) {
-      throw new Error(`Failed to save metadata: ${metadataResponse.status}`);
+
+    // Without the Express server the dev server's proxy or nginx answers with a non-JSON error
+    const isJson = response.headers.get('content-type')?.includes('application/json');
+    if (!isJson && (response.status === 404 || response.status >= 500)) {
+      throw new ServerUnavailableError(SERVER_NOT_RUNNING_MESSAGE);
     }
-    console.log('Metadata file saved successfully');
-    
-    // Save each unit separately
-    const savedChunks = [];
-    for (const [unitId, unitData] of Object.entries(exportData.units)) {
-      const chunkData = {
-        exportDate: exportData.exportDate,
-        totalUnits: 1,
-        units: { [unitId]: unitData }
-      };
-      
-      const chunkFileName = `learning-progress-${timestamp}-unit-${unitId}.json`;
-      console.log(`Saving chunk: ${chunkFileName}`);
-      const chunkResponse = await fetch('/api/save-progress', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          fileName: chunkFileName,
-          content: JSON.stringify(chunkData, null, 2)
-        })
-      });
-      
-      if (!chunkResponse.ok) {
-        throw new Error(`Failed to save unit ${unitId}: ${chunkResponse.status}`);
+    if (!response.ok) {
+      let errorData;
+      try {
+        errorData = await response.text();
+      } catch (e) {
+        errorData = `Failed to read error response: ${e.message}`;
       }
-      
-      savedChunks.push(chunkFileName);
-      console.log(`Saved chunk: ${chunkFileName}`);
+      console.error('Server response:', errorData);
+      throw new Error(`Server error: ${response.status} - ${errorData}`);
     }
-    
-    console.log(`All chunks saved successfully: 1 metadata + ${savedChunks.length} unit files`);
-    return {
-      success: true,
-      message: `Progress saved in ${savedChunks.length + 1} files (chunked due to size)`,
-      fileName: `learning-progress-${timestamp}-metadata.json`,
-      chunks: savedChunks
-    };
-    
+
+    const result = await response.json();
+    console.log('Save successful:', result);
+    recordBackupTime();
+    return result;
   } catch (error) {
     console.error('Error saving to storage folder:', error);
     if (error.message.includes('fetch') || error.message.includes('Failed to fetch') || error.name === 'TypeError') {
-      throw new Error('Backend server not running. Please open a second terminal and run "npm run server" to start the Express server, then try again.');
+      throw new ServerUnavailableError(SERVER_NOT_RUNNING_MESSAGE);
     }
     throw error;
   }
 };
+// Everything in storage plus the settings as a .unitpack archive. Settings come from the server;
+// without one the archive simply has none. Archives are never encrypted (the server reads their
+// manifest), so with backup encryption on the caller has to confirm writing one in the clear.
+export const createUnitPack = async (allowUnencrypted = false): Promise<Uint8Array> => {
+  if (isBackupEncryptionEnabled() && !allowUnencrypted) {
+    throw new Error('Backups are encrypted, but .unitpack archives can only be saved unencrypted.');
+  }
+  let settings = null;
+  try {
+    settings = await fetchServerSettings();
+  } catch (error) {
+    if (!(error instanceof ServerUnavailableError)) throw error;
+  }
+  return buildUnitPack(await exportAllProgress(), settings);
+};
+
+const unitPackTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+
+export const downloadUnitPack = async (allowUnencrypted = false) => {
+  const blob = new Blob([await createUnitPack(allowUnencrypted)], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `learning-progress-${unitPackTimestamp()}${UNITPACK_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Archives are streamed to disk by the server, so they aren't bound by the JSON body limit
+export const saveUnitPackToStorageFolder = async (allowUnencrypted = false) => {
+  const fileName = `learning-progress-${unitPackTimestamp()}${UNITPACK_EXTENSION}`;
+  const response = await fetch(`/api/storage-files/${encodeURIComponent(fileName)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/zip',
+    },
+    body: new Blob([await createUnitPack(allowUnencrypted)], { type: 'application/zip' })
+  }).catch(() => {
+    throw new ServerUnavailableError(SERVER_NOT_RUNNING_MESSAGE);
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || `Server error: ${response.status}`);
+  }
+  recordBackupTime();
+  return response.json();
+};
+
+export const readUnitPackFile = async (file: Blob): Promise<UnitPackContents> =>
+  readUnitPack(new Uint8Array(await file.arrayBuffer()));
+
+// Saves settings taken from an archive the same way the Settings page does
+export const applyImportedSettings = async (settings: UnitPackContents['settings']) => {
+  if (!settings) return;
+  try {
+    await saveServerSettings(settings);
+  } catch (error) {
+    if (!(error instanceof ServerUnavailableError)) throw error;
+  }
+  cacheSettingsLocally(settings);
+};
+
 export interface StorageFile {
   name: string;
   size: number;
   modified: Date;
+  format?: 'gzip' | 'json' | 'chunked' | 'unitpack';
+  legacy?: boolean; // chunked snapshots from older versions: readable, never written anymore
+  files?: string[]; // every file on disk that belongs to the snapshot
+  // 'unverified' snapshots were saved before checksums existed or are still being written
+  integrity?: 'verified' | 'unverified' | 'corrupted' | 'incomplete';
+  problems?: string[];
+  encrypted?: boolean;
   preview?: {
     totalUnits: number;
     totalTasks: number;
@@ -246,31 +275,12 @@ export const getStorageFiles = async (): Promise<StorageFile[]> => {
       throw new Error(`Failed to fetch storage files: ${response.status}`);
     }
     
+    // The server groups metadata and chunk files into the snapshot they belong to
     const data = await response.json();
-    const allFiles = data.files.map((file: any) => ({
+    return data.files.map((file: StorageFile) => ({
       ...file,
       modified: new Date(file.modified)
     }));
-    
-    // Filter out chunk files and metadata files, only show main progress files
-    const progressFiles = allFiles.filter((file: StorageFile) => {
-      // Skip chunk files (contain "-unit-" in the name)
-      if (file.name.includes('-unit-') && file.name.includes('learning-progress-')) {
-        return false;
-      }
-      // Skip metadata files
-      if (file.name.includes('-metadata.json')) {
-        return false;
-      }
-      // Skip settings files
-      if (file.name === 'settings.json') {
-        return false;
-      }
-      // Only include learning progress files
-      return file.name.startsWith('learning-progress-') && file.name.endsWith('.json');
-    });
-    
-    return progressFiles;
   } catch (error) {
     if (error.name === 'TypeError' || error.message.includes('fetch')) {
       console.warn('Backend server not running - returning empty file list');
@@ -281,9 +291,60 @@ export const getStorageFiles = async (): Promise<StorageFile[]> => {
   }
 };
 
-export const loadProgressFromStorage = async (filename: string): Promise<ExportedProgress> => {
+// Deletes a snapshot from the storage folder together with its metadata and chunk files
+export const deleteStorageFile = async (filename: string): Promise<string[]> => {
+  const response = await fetch(`/api/storage-files/${encodeURIComponent(filename)}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || `Failed to delete ${filename}: ${response.status}`);
+  }
+  const result = await response.json();
+  return result.data.deletedFiles;
+};
+
+// Written as learning-progress-<timestamp>-metadata.json when older versions split a large
+// snapshot into chunks; only read now
+interface ChunkedSnapshotMetadata {
+  originalFileName: string;
+  timestamp: string;
+  schemaVersion?: number;
+  totalUnits: number;
+  exportDate: string;
+  isChunked: boolean;
+  unitIds: string[];
+}
+
+// Prefers the server's explanation, e.g. that a file failed its checksum
+const loadError = async (response: Response, fallback: string) => {
+  const errorData = await response.json().catch(() => null);
+  return new Error(errorData?.error || `${fallback}: ${response.status}`);
+};
+
+export const loadUnitPackFromStorage = async (filename: string): Promise<UnitPackContents> => {
+  const response = await fetch(`/api/storage-files/${encodeURIComponent(filename)}`);
+  if (!response.ok) {
+    throw await loadError(response, 'Failed to load archive');
+  }
+  return readUnitPackFile(await response.blob());
+};
+
+// Encrypted snapshots need `passphrase` unless the configured or a previously entered one fits
+export const loadProgressFromStorage = async (filename: string, passphrase?: string): Promise<ExportedProgress> => {
   try {
-    // Check if this might be a chunked file by looking for metadata
+    if (filename.endsWith(UNITPACK_EXTENSION)) {
+      return (await loadUnitPackFromStorage(filename)).snapshot;
+    }
+
+    if (filename.endsWith('.json.gz')) {
+      // Served with Content-Encoding: gzip, so the browser hands us plain JSON
+      const response = await fetch(`/api/storage-files/${encodeURIComponent(filename)}`);
+      if (!response.ok) {
+        throw await loadError(response, 'Failed to load progress file');
+      }
+      return await openSnapshotFile<ExportedProgress>(await response.json(), passphrase);
+    }
+
+    // Legacy formats: check if this might be a chunked file by looking for metadata
     const metadataFilename = filename.replace('.json', '-metadata.json');
     
     // Try to load metadata first
@@ -295,11 +356,15 @@ export const loadProgressFromStorage = async (filename: string): Promise<Exporte
       metadataResponse = null;
     }
     
+    if (metadataResponse && metadataResponse.status === 422) {
+      throw await loadError(metadataResponse, 'Snapshot metadata is damaged');
+    }
+
     if (metadataResponse && metadataResponse.ok) {
       // This is a chunked file, load all chunks
       console.log('Loading chunked progress file...');
       const metadataResult = await metadataResponse.json();
-      const metadata = metadataResult.data;
+      const metadata = await openSnapshotFile<ChunkedSnapshotMetadata>(metadataResult.data, passphrase);
       
       if (!metadata.isChunked || !metadata.unitIds) {
         throw new Error('Invalid metadata format');
@@ -314,11 +379,11 @@ export const loadProgressFromStorage = async (filename: string): Promise<Exporte
         const chunkResponse = await fetch(`/api/load-progress/${encodeURIComponent(chunkFilename)}`);
         
         if (!chunkResponse.ok) {
-          throw new Error(`Failed to load chunk for unit ${unitId}: ${chunkResponse.status}`);
+          throw await loadError(chunkResponse, `Failed to load chunk for unit ${unitId}`);
         }
         
         const chunkResult = await chunkResponse.json();
-        const chunkData = chunkResult.data;
+        const chunkData = await openSnapshotFile<ExportedProgress>(chunkResult.data, passphrase);
         
         // Merge the unit data
         Object.assign(units, chunkData.units);
@@ -326,6 +391,7 @@ export const loadProgressFromStorage = async (filename: string): Promise<Exporte
       
       // Reconstruct the full progress data
       const reconstructedData: ExportedProgress = {
+        schemaVersion: metadata.schemaVersion,
         exportDate: metadata.exportDate,
         totalUnits: metadata.totalUnits,
         units
@@ -337,10 +403,10 @@ export const loadProgressFromStorage = async (filename: string): Promise<Exporte
       // Regular single file
       const response = await fetch(`/api/load-progress/${encodeURIComponent(filename)}`);
       if (!response.ok) {
-        throw new Error(`Failed to load progress file: ${response.status}`);
+        throw await loadError(response, 'Failed to load progress file');
       }
       const result = await response.json();
-      return result.data;
+      return await openSnapshotFile<ExportedProgress>(result.data, passphrase);
     }
   } catch (error) {
     console.error('Error loading progress from storage:', error);
@@ -348,14 +414,15 @@ export const loadProgressFromStorage = async (filename: string): Promise<Exporte
   }
 };
 
-export const importProgress = (progressData: ExportedProgress) => {
+export const importProgress = async (snapshot: ExportedProgress) => {
   try {
+    const progressData = runMigrations(snapshot).data;
     console.log('Importing progress data:', progressData);
     
     // Import unit list
     const unitList = Object.values(progressData.units).map(unit => unit.unitSummary);
     console.log('Importing unit list:', unitList);
-    localStorage.setItem('learning-assistant-unit-list', JSON.stringify(unitList));
+    await storage.put(STORAGE_KEYS.unitList, unitList);
     
     // Import units data
     const units: Record<string, any> = {};
@@ -365,7 +432,7 @@ export const importProgress = (progressData: ExportedProgress) => {
       }
     });
     console.log('Importing units data:', units);
-    localStorage.setItem('learning-assistant-units', JSON.stringify(units));
+    await storage.put(STORAGE_KEYS.units, units);
     
     // Import progress for each unit and sync completed tasks count
     const updatedUnitList = unitList.map(unitSummary => {
@@ -380,26 +447,15 @@ export const importProgress = (progressData: ExportedProgress) => {
     });
     
     // Update unit list with correct completed tasks count
-    localStorage.setItem('learning-assistant-unit-list', JSON.stringify(updatedUnitList));
+    await storage.put(STORAGE_KEYS.unitList, updatedUnitList);
     
     // Import progress for each unit
-    Object.entries(progressData.units).forEach(([unitId, unitData]) => {
+    for (const [unitId, unitData] of Object.entries(progressData.units)) {
       if (unitData.progress) {
-        const progressKey = `learning-assistant-progress-${unitId}`;
-        
-        // Ensure backwards compatibility for status history
-        const migratedProgress = {
-          ...unitData.progress,
-          answers: unitData.progress.answers?.map((answer: any) => ({
-            ...answer,
-            statusHistory: answer.statusHistory || []
-          })) || []
-        };
-        
         console.log(`Importing progress for ${unitId}:`, unitData.progress);
-        localStorage.setItem(progressKey, JSON.stringify(migratedProgress));
+        await storage.put(progressKey(unitId), unitData.progress);
       }
-    });
+    }
     
     return true;
   } catch (error) {
@@ -407,3 +463,182 @@ export const importProgress = (progressData: ExportedProgress) => {
     throw error;
   }
 };
+
+export interface UnitImportPreview {
+  unitId: string;
+  title: string;
+  existsLocally: boolean;
+  conflicts: AnswerConflict[];
+  newAnswers: number;        // answers only in the snapshot
+  localOnlyAnswers: number;  // answers only in the app
+}
+
+// Compares each unit in a snapshot with what is currently stored so the user can choose a
+// mode per unit before anything is written
+export const previewMergeImport = async (snapshot: ExportedProgress): Promise<UnitImportPreview[]> => {
+  const progressData = runMigrations(snapshot).data;
+  const unitList = (await storage.get<UnitSummary[]>(STORAGE_KEYS.unitList)) || [];
+
+  return Promise.all(Object.entries(progressData.units).map(async ([unitId, unitData]) => {
+    const existsLocally = unitList.some(u => u.id === unitId);
+    const localProgress = existsLocally ? await storage.get<Progress>(progressKey(unitId)) : null;
+    const importedProgress: Progress | null = unitData.progress;
+    const localAnswers: { taskId: string }[] = localProgress?.answers || [];
+    const importedAnswers: { taskId: string }[] = importedProgress?.answers || [];
+
+    return {
+      unitId,
+      title: unitData.unitSummary.title,
+      existsLocally,
+      conflicts: findAnswerConflicts(localProgress, importedProgress),
+      newAnswers: importedAnswers.filter(a => !localAnswers.some(l => l.taskId === a.taskId)).length,
+      localOnlyAnswers: localAnswers.filter(a => !importedAnswers.some(i => i.taskId === a.taskId)).length
+    };
+  }));
+};
+
+// Imports a snapshot unit by unit using the chosen modes. Unlike importProgress, units that
+// are not in the snapshot are left untouched.
+export const importProgressWithModes = async (
+  snapshot: ExportedProgress,
+  modes: Record<string, UnitImportMode>
+) => {
+  try {
+    const progressData = runMigrations(snapshot).data;
+    const units = (await storage.get<Record<string, Unit>>(STORAGE_KEYS.units)) || {};
+    let unitList = (await storage.get<UnitSummary[]>(STORAGE_KEYS.unitList)) || [];
+
+    for (const [unitId, unitData] of Object.entries(progressData.units)) {
+      const localSummary = unitList.find(u => u.id === unitId);
+      const mode: UnitImportMode = localSummary ? modes[unitId] || 'merge-newest' : 'replace';
+      const importedProgress: Progress | null = unitData.progress;
+      const localProgress = localSummary ? await storage.get<Progress>(progressKey(unitId)) : null;
+      const progress = mergeProgress(localProgress, importedProgress, mode);
+      console.log(`Importing ${unitId} with mode ${mode}`);
+
+      let summary: UnitSummary;
+      if (mode === 'replace' || !localSummary) {
+        if (unitData.unitData) units[unitId] = unitData.unitData;
+        summary = unitData.unitSummary;
+      } else {
+        // Keep the local unit definition; the snapshot's is only used if ours is missing
+        if (!units[unitId] && unitData.unitData) units[unitId] = unitData.unitData;
+        summary = { ...localSummary, lastActivity: progress?.lastActivity ?? localSummary.lastActivity };
+      }
+      if (progress?.completedTasks) {
+        summary = { ...summary, completedTasks: progress.completedTasks.length };
+      }
+
+      if (progress) {
+        await storage.put(progressKey(unitId), progress);
+      } else {
+        await storage.delete(progressKey(unitId));
+      }
+      unitList = localSummary
+        ? unitList.map(u => u.id === unitId ? summary : u)
+        : [...unitList, summary];
+    }
+
+    await storage.put(STORAGE_KEYS.units, units);
+    await storage.put(STORAGE_KEYS.unitList, unitList);
+    return true;
+  } catch (error) {
+    console.error('Error importing progress:', error);
+    throw error;
+  }
+};
+
+// A single unit with its summary and progress, e.g. to hand one unit's work to a tutor or move
+// it to another machine. Written as plain JSON, never encrypted, since it is meant to be shared.
+export const UNIT_EXPORT_FORMAT = 'learning-assistant-unit';
+
+export interface ExportedUnit {
+  format: typeof UNIT_EXPORT_FORMAT;
+  schemaVersion: number;
+  exportDate: string;
+  unitSummary: UnitSummary;
+  progress: Progress | null;
+  unitData: Unit;
+}
+
+export const exportUnit = async (unitId: string): Promise<ExportedUnit> => {
+  const units = (await storage.get<Record<string, Unit>>(STORAGE_KEYS.units)) || {};
+  const unitList = (await storage.get<UnitSummary[]>(STORAGE_KEYS.unitList)) || [];
+  const unitData = units[unitId];
+  const unitSummary = unitList.find(u => u.id === unitId);
+  if (!unitData || !unitSummary) {
+    throw new Error(`Unit ${unitId} not found`);
+  }
+
+  return {
+    format: UNIT_EXPORT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportDate: new Date().toISOString(),
+    unitSummary,
+    progress: await storage.get<Progress>(progressKey(unitId)),
+    unitData
+  };
+};
+
+export const downloadUnitExport = async (unitId: string) => {
+  const exportData = await exportUnit(unitId);
+  const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `unit-${unitId.replace(/[^a-zA-Z0-9-_]/g, '_')}-${timestamp}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Checks the file is a unit export and brings it up to the current schema, using the same
+// migrations as whole-workspace snapshots
+export const parseUnitExport = (text: string): ExportedUnit => {
+  let parsed: Partial<ExportedUnit> | null;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (parsed?.format !== UNIT_EXPORT_FORMAT) {
+    throw new Error('The file is not a unit export. Whole-workspace backups are loaded with "Load from Storage".');
+  }
+  const { unitData, unitSummary } = parsed;
+  if (!unitData?.id || !Array.isArray(unitData.learning_outcomes) || !unitSummary || unitSummary.id !== unitData.id) {
+    throw new Error('The unit export is missing its unit definition or summary');
+  }
+
+  const { data } = runMigrations({
+    schemaVersion: parsed.schemaVersion,
+    units: { [unitData.id]: { unitSummary, progress: parsed.progress ?? null, unitData } }
+  });
+  const migrated = data.units[unitData.id];
+  return {
+    format: UNIT_EXPORT_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportDate: parsed.exportDate ?? new Date().toISOString(),
+    unitSummary: migrated.unitSummary,
+    progress: migrated.progress ? { ...migrated.progress, unitId: unitData.id } : null,
+    unitData: migrated.unitData
+  };
+};
+
+// Splits a whole snapshot, e.g. the contents of a .unitpack archive, into per-unit exports so its
+// units can be added one by one without touching the others
+export const splitIntoUnitExports = (snapshot: ExportedProgress): ExportedUnit[] => {
+  const { data } = runMigrations(snapshot);
+  return Object.entries(data.units)
+    .filter(([, entry]) => entry.unitData)
+    .map(([unitId, entry]) => ({
+      format: UNIT_EXPORT_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      exportDate: data.exportDate,
+      unitSummary: entry.unitSummary,
+      progress: entry.progress ? { ...entry.progress, unitId } : null,
+      unitData: entry.unitData
+    }));
+};
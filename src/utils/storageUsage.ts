@@ -0,0 +1,110 @@
+import { Progress, StudentAnswer, Unit, UnitSummary } from '../types/Unit';
+import { getStorageBackend, storage, STORAGE_KEYS, progressKey } from './storageBackend';
+
+// How much of the browser's storage each unit takes, split into the unit definition, answers
+// (including their saved versions) and feedback. Sizes are those of the stored JSON counted as
+// UTF-16, which is what browsers charge against the localStorage quota.
+
+// Most browsers allow 5MB per origin; they don't expose the real figure
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+export const STORAGE_WARNING_RATIO = 0.8;
+const LARGEST_ANSWER_COUNT = 5;
+
+export interface UnitStorageUsage {
+  unitId: string;
+  title: string;
+  definitionBytes: number;
+  answerBytes: number;
+  feedbackBytes: number;
+  // Progress fields other than answers and feedback (status history, dates, current task)
+  otherBytes: number;
+  totalBytes: number;
+  answerCount: number;
+}
+
+export interface AnswerStorageUsage {
+  unitId: string;
+  taskId: string;
+  answerBytes: number;
+  feedbackBytes: number;
+}
+
+export interface BrowserStorageUsage {
+  backend: string;
+  units: UnitStorageUsage[];
+  largestAnswers: AnswerStorageUsage[];
+  // Everything this origin keeps in localStorage, including settings
+  localStorageBytes: number;
+  // From navigator.storage.estimate(), which also covers IndexedDB; null where unsupported
+  estimate: { usage: number; quota: number } | null;
+}
+
+export const measureJson = (value: unknown) => (value === undefined ? 0 : JSON.stringify(value).length * 2);
+
+const measureAnswer = (answer: StudentAnswer) => ({
+  answerBytes: measureJson(answer.content) + measureJson(answer.versions),
+  feedbackBytes: measureJson(answer.feedback) + measureJson(answer.reviewFeedback)
+});
+
+const measureLocalStorage = () => {
+  let bytes = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key !== null) bytes += (key.length + (localStorage.getItem(key) || '').length) * 2;
+  }
+  return bytes;
+};
+
+const readEstimate = async () => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+};
+
+export const measureBrowserStorage = async (): Promise<BrowserStorageUsage> => {
+  const units = (await storage.get<Record<string, Unit>>(STORAGE_KEYS.units)) || {};
+  const unitList = (await storage.get<UnitSummary[]>(STORAGE_KEYS.unitList)) || [];
+  const largestAnswers: AnswerStorageUsage[] = [];
+
+  const usage: UnitStorageUsage[] = [];
+  for (const summary of unitList) {
+    const progress = await storage.get<Progress>(progressKey(summary.id));
+    const answers = progress?.answers || [];
+    let answerBytes = 0;
+    let feedbackBytes = 0;
+    answers.forEach(answer => {
+      const sizes = measureAnswer(answer);
+      answerBytes += sizes.answerBytes;
+      feedbackBytes += sizes.feedbackBytes;
+      largestAnswers.push({ unitId: summary.id, taskId: answer.taskId, ...sizes });
+    });
+
+    const definitionBytes = measureJson(units[summary.id]) + measureJson(summary);
+    const progressBytes = measureJson(progress ?? undefined);
+    const otherBytes = Math.max(0, progressBytes - answerBytes - feedbackBytes);
+    usage.push({
+      unitId: summary.id,
+      title: summary.title,
+      definitionBytes,
+      answerBytes,
+      feedbackBytes,
+      otherBytes,
+      totalBytes: definitionBytes + progressBytes,
+      answerCount: answers.length
+    });
+  }
+
+  return {
+    backend: (await getStorageBackend()).name,
+    units: usage.sort((a, b) => b.totalBytes - a.totalBytes),
+    largestAnswers: largestAnswers
+      .sort((a, b) => b.answerBytes + b.feedbackBytes - (a.answerBytes + a.feedbackBytes))
+      .slice(0, LARGEST_ANSWER_COUNT),
+    localStorageBytes: measureLocalStorage(),
+    estimate: await readEstimate()
+  };
+};
@@ -0,0 +1,145 @@
+import { Unit, StudentAnswer, TaskItem } from '../types/Unit';
+import { renderMarkdown } from './markdownRenderer';
+
+export type SubmissionFormat = 'html' | 'doc' | 'pdf';
+
+interface SubmissionTask {
+  task: TaskItem;
+  learningOutcomeIds: string[];
+  answer?: StudentAnswer;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Tasks in learning_outcomes order. A task listed under several LOs is only included once,
+// at its first appearance, but remembers every LO it covers.
+const collectSubmissionTasks = (unit: Unit, answers: StudentAnswer[]): SubmissionTask[] => {
+  const tasks = new Map<string, SubmissionTask>();
+  unit.learning_outcomes.forEach(lo => {
+    lo.outcome_tasks.forEach(task => {
+      const existing = tasks.get(task.id);
+      if (existing) {
+        if (!existing.learningOutcomeIds.includes(lo.id)) existing.learningOutcomeIds.push(lo.id);
+        return;
+      }
+      tasks.set(task.id, {
+        task,
+        learningOutcomeIds: [lo.id],
+        answer: answers.find(a => a.taskId === task.id)
+      });
+    });
+  });
+  return [...tasks.values()];
+};
+
+const SUBMISSION_STYLES = `
+  body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; line-height: 1.5; color: #111827; max-width: 800px; margin: 0 auto; padding: 24px; }
+  h1 { font-size: 20pt; margin-bottom: 4px; }
+  h2 { font-size: 15pt; margin-top: 28px; border-bottom: 1px solid #d1d5db; padding-bottom: 4px; }
+  h3 { font-size: 12pt; margin-top: 20px; }
+  .meta { color: #6b7280; font-size: 9pt; }
+  .context { background: #f9fafb; border: 1px solid #e5e7eb; padding: 8px 12px; margin: 8px 0; }
+  .criteria { font-size: 10pt; color: #374151; }
+  .answer { border-left: 3px solid #2563eb; padding-left: 12px; margin: 12px 0 24px; }
+  .no-answer { color: #9ca3af; font-style: italic; }
+  table { border-collapse: collapse; }
+  td, th { border: 1px solid #d1d5db; padding: 4px 8px; }
+  .task { page-break-inside: avoid; }
+`;
+
+export const buildSubmissionHtml = (unit: Unit, answers: StudentAnswer[]): string => {
+  const tasks = collectSubmissionTasks(unit, answers);
+  const exportDate = new Date().toLocaleString('en-GB');
+
+  const unitTasksHtml = unit.unit_tasks && unit.unit_tasks.length > 0
+    ? `<h2>Unit Tasks</h2>${unit.unit_tasks.map(unitTask => `
+      <div class="context">
+        <h3>${escapeHtml(unitTask.id)}</h3>
+        ${renderMarkdown(unitTask.description)}
+        <p class="meta">Covers ${escapeHtml(unitTask.outcome_tasks.join(', '))}</p>
+      </div>`).join('')}`
+    : unit.task
+      ? `<h2>Unit Task</h2><div class="context">${renderMarkdown(unit.task)}</div>`
+      : '';
+
+  const tasksHtml = tasks.map(({ task, learningOutcomeIds, answer }) => `
+    <div class="task">
+      <h3>Task ${escapeHtml(task.id)} <span class="meta">(${escapeHtml(learningOutcomeIds.join(', '))} · ${escapeHtml(task.type)})</span></h3>
+      ${renderMarkdown(task.description)}
+      ${task.acceptance_criteria.length > 0 ? `
+        <div class="criteria">
+          <strong>Acceptance criteria</strong>
+          <ul>${task.acceptance_criteria.map(ac => `<li>${escapeHtml(ac.criteria)}</li>`).join('')}</ul>
+        </div>` : ''}
+      <div class="answer">
+        ${answer?.content ? answer.content : '<p class="no-answer">No answer provided.</p>'}
+      </div>
+    </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(unit.title)} — Submission</title>
+<style>${SUBMISSION_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(unit.title)}</h1>
+  <p class="meta">Unit ${escapeHtml(unit.id)} · Exported ${escapeHtml(exportDate)}</p>
+  ${unitTasksHtml}
+  <h2>Answers</h2>
+  ${tasksHtml}
+</body>
+</html>`;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// HTML and Word downloads are built entirely in the browser. Word opens HTML saved with
+// the msword MIME type and a .doc extension as a normal document, so no converter is needed.
+// PDF goes through the browser's print dialog ("Save as PDF"), which also works offline.
+export const exportSubmission = (unit: Unit, answers: StudentAnswer[], format: SubmissionFormat) => {
+  const html = buildSubmissionHtml(unit, answers);
+  const baseName = `${unit.id}-submission`.replace(/[^a-zA-Z0-9-_]/g, '_');
+
+  if (format === 'html') {
+    downloadBlob(new Blob([html], { type: 'text/html' }), `${baseName}.html`);
+    return;
+  }
+
+  if (format === 'doc') {
+    const wordHtml = html.replace(
+      '<html>',
+      '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">'
+    );
+    // Leading BOM so Word picks up UTF-8 rather than the system code page
+    downloadBlob(new Blob(['\uFEFF', wordHtml], { type: 'application/msword' }), `${baseName}.doc`);
+    return;
+  }
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked. Please allow pop-ups for this site to export as PDF.');
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.onafterprint = () => printWindow.close();
+  // Give the new window a moment to lay out before opening the print dialog
+  setTimeout(() => printWindow.print(), 250);
+};
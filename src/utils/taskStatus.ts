@@ -1,4 +1,4 @@
-import { TaskStatus, StudentAnswer } from '../types/Unit';
+import { TaskStatus, StudentAnswer, TaskStatusChange } from '../types/Unit';
 
 export const VALID_TRANSITIONS: Partial<Record<TaskStatus, TaskStatus[]>> = {
   'not-started':          ['in-progress'],
@@ -20,13 +20,24 @@ export const deriveTaskStatus = (answer: StudentAnswer | undefined): TaskStatus
   return 'not-started';
 };
 
+// Statuses whose transitions freeze a copy of the answer, so reviewers can see exactly what was judged
+export const SNAPSHOT_STATUSES: TaskStatus[] = ['completed', 'submitted-for-review', 'not-yet-achieved', 'achieved'];
+
+export const getStatusChange = (answer: StudentAnswer | undefined, status: TaskStatus): TaskStatusChange | undefined => {
+  return answer?.statusHistory?.find(c => c.status === status);
+};
+
+export const getLatestStatusChange = (answer: StudentAnswer | undefined, status: TaskStatus): TaskStatusChange | undefined => {
+  const entries = answer?.statusHistory?.filter(c => c.status === status) || [];
+  return entries.length > 0 ? entries[entries.length - 1] : undefined;
+};
+
 export const getTimestampForStatus = (answer: StudentAnswer | undefined, status: TaskStatus): Date | undefined => {
-  return answer?.statusHistory?.find(c => c.status === status)?.timestamp;
+  return getStatusChange(answer, status)?.timestamp;
 };
 
 export const getLatestTimestampForStatus = (answer: StudentAnswer | undefined, status: TaskStatus): Date | undefined => {
-  const entries = answer?.statusHistory?.filter(c => c.status === status) || [];
-  return entries.length > 0 ? entries[entries.length - 1].timestamp : undefined;
+  return getLatestStatusChange(answer, status)?.timestamp;
 };
 
 export const isEditable = (status: TaskStatus): boolean => {
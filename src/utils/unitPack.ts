@@ -0,0 +1,203 @@
+import { AsyncZippable, Unzipped, strFromU8, strToU8, unzip, zip } from 'fflate';
+import { SettingsData } from '../types/Settings';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import type { ExportedProgress } from './storageExport';
+
+// .unitpack archives are zip files laid out as
+//   manifest.json          UnitPackManifest
+//   units/<id>.json        { unitSummary, unitData }
+//   progress/<id>.json     the unit's progress, with embedded images pointing into assets/
+//   settings.json          SettingsData, when there were any
+//   assets/<hash>.<ext>    images answers embedded as data: URLs, stored once each as binary
+// Reading an archive puts the images back inline, so the result imports like a JSON snapshot.
+
+export const UNITPACK_FORMAT = 'learning-assistant-unitpack';
+export const UNITPACK_VERSION = 1;
+export const UNITPACK_EXTENSION = '.unitpack';
+
+export interface UnitPackAsset {
+  path: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface UnitPackManifest {
+  format: typeof UNITPACK_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportDate: string;
+  units: {
+    id: string;
+    title: string;
+    totalTasks: number;
+    completedTasks: number;
+    unitFile: string;
+    progressFile: string | null;
+  }[];
+  settingsFile: string | null;
+  assets: UnitPackAsset[];
+}
+
+export interface UnitPackContents {
+  manifest: UnitPackManifest;
+  snapshot: ExportedProgress;
+  settings: SettingsData | null;
+}
+
+const DATA_URL_SRC_PATTERN = /\bsrc=(["'])data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=\s]+)\1/g;
+const ASSET_SRC_PATTERN = /\bsrc=(["'])(assets\/[\w.-]+)\1/g;
+
+const ASSET_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg'
+};
+
+// Applies `transform` to every string inside a JSON-like value
+const mapStrings = (value: unknown, transform: (text: string) => string): unknown => {
+  if (typeof value === 'string') return transform(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, transform));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, transform)]));
+  }
+  return value;
+};
+
+const collectStrings = (value: unknown, strings: string[] = []): string[] => {
+  mapStrings(value, text => {
+    strings.push(text);
+    return text;
+  });
+  return strings;
+};
+
+const hashBytes = async (bytes: Uint8Array) => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest).slice(0, 12), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Moves images embedded in `value` into `files` under assets/ (once per distinct image) and
+// returns a copy of `value` whose <img> tags point at them
+const extractAssets = async (value: unknown, assets: Map<string, UnitPackAsset>, files: AsyncZippable) => {
+  for (const text of collectStrings(value)) {
+    for (const [, , mimeType, base64] of text.matchAll(DATA_URL_SRC_PATTERN)) {
+      const key = `${mimeType};${base64}`;
+      if (assets.has(key)) continue;
+      const bytes = strToU8(atob(base64.replace(/\s/g, '')), true);
+      const assetPath = `assets/${await hashBytes(bytes)}.${ASSET_EXTENSIONS[mimeType] || 'bin'}`;
+      // Images are compressed already, so deflating them again only costs time
+      files[assetPath] = [bytes, { level: 0 }];
+      assets.set(key, { path: assetPath, mimeType, size: bytes.length });
+    }
+  }
+  return mapStrings(value, text => text.replace(DATA_URL_SRC_PATTERN, (match, quote, mimeType, base64) => {
+    const asset = assets.get(`${mimeType};${base64}`);
+    return asset ? `src=${quote}${asset.path}${quote}` : match;
+  }));
+};
+
+const inlineAssets = (value: unknown, dataUrls: Map<string, string>) =>
+  mapStrings(value, text => text.replace(ASSET_SRC_PATTERN, (match, quote, assetPath) => {
+    const dataUrl = dataUrls.get(assetPath);
+    return dataUrl ? `src=${quote}${dataUrl}${quote}` : match;
+  }));
+
+const toFileName = (unitId: string) => `${encodeURIComponent(unitId)}.json`;
+
+const toJsonBytes = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+export const buildUnitPack = async (snapshot: ExportedProgress, settings: SettingsData | null): Promise<Uint8Array> => {
+  const files: AsyncZippable = {};
+  const assets = new Map<string, UnitPackAsset>();
+  const units: UnitPackManifest['units'] = [];
+
+  for (const [unitId, entry] of Object.entries(snapshot.units)) {
+    const unitFile = `units/${toFileName(unitId)}`;
+    files[unitFile] = toJsonBytes({ unitSummary: entry.unitSummary, unitData: entry.unitData });
+
+    let progressFile: string | null = null;
+    if (entry.progress) {
+      progressFile = `progress/${toFileName(unitId)}`;
+      files[progressFile] = toJsonBytes(await extractAssets(entry.progress, assets, files));
+    }
+
+    units.push({
+      id: unitId,
+      title: entry.unitSummary?.title || unitId,
+      totalTasks: entry.unitSummary?.totalTasks || 0,
+      completedTasks: entry.unitSummary?.completedTasks || 0,
+      unitFile,
+      progressFile
+    });
+  }
+
+  if (settings) files['settings.json'] = toJsonBytes(settings);
+
+  const manifest: UnitPackManifest = {
+    format: UNITPACK_FORMAT,
+    version: UNITPACK_VERSION,
+    schemaVersion: snapshot.schemaVersion ?? CURRENT_SCHEMA_VERSION,
+    exportDate: snapshot.exportDate,
+    units,
+    settingsFile: settings ? 'settings.json' : null,
+    assets: [...assets.values()]
+  };
+  files['manifest.json'] = toJsonBytes(manifest);
+
+  return new Promise((resolve, reject) => {
+    zip(files, { level: 6 }, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+};
+
+export const readUnitPack = async (data: Uint8Array): Promise<UnitPackContents> => {
+  const files = await new Promise<Unzipped>((resolve, reject) => {
+    unzip(data, (error, result) => (error ? reject(new Error('The file is not a valid .unitpack archive')) : resolve(result)));
+  });
+
+  const readJson = <T>(filePath: string): T => {
+    const bytes = files[filePath];
+    if (!bytes) throw new Error(`The archive is missing ${filePath}`);
+    try {
+      return JSON.parse(strFromU8(bytes));
+    } catch {
+      throw new Error(`${filePath} in the archive is not valid JSON`);
+    }
+  };
+
+  const manifest = readJson<UnitPackManifest>('manifest.json');
+  if (manifest.format !== UNITPACK_FORMAT || !Array.isArray(manifest.units)) {
+    throw new Error('The archive has no valid .unitpack manifest');
+  }
+  if (manifest.version > UNITPACK_VERSION) {
+    throw new Error(`This archive uses .unitpack version ${manifest.version}, but this app only understands up to version ${UNITPACK_VERSION}. Please update the app.`);
+  }
+
+  const dataUrls = new Map((manifest.assets || []).map(asset => {
+    const bytes = files[asset.path];
+    if (!bytes) throw new Error(`The archive is missing ${asset.path}`);
+    return [asset.path, `data:${asset.mimeType};base64,${btoa(strFromU8(bytes, true))}`];
+  }));
+
+  const units: ExportedProgress['units'] = {};
+  manifest.units.forEach(entry => {
+    const { unitSummary, unitData } = readJson<{ unitSummary: ExportedProgress['units'][string]['unitSummary']; unitData: unknown }>(entry.unitFile);
+    units[entry.id] = {
+      unitSummary,
+      unitData,
+      progress: entry.progressFile ? inlineAssets(readJson(entry.progressFile), dataUrls) : null
+    };
+  });
+
+  return {
+    manifest,
+    snapshot: {
+      schemaVersion: manifest.schemaVersion,
+      exportDate: manifest.exportDate,
+      totalUnits: manifest.units.length,
+      units
+    },
+    settings: manifest.settingsFile ? readJson<SettingsData>(manifest.settingsFile) : null
+  };
+};
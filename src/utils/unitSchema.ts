@@ -0,0 +1,161 @@
+import Ajv, { ErrorObject } from 'ajv';
+import unitSchema from '../../public/unit.schema.json';
+import { Unit } from '../types/Unit';
+
+// Validates unit files against the published JSON Schema (served as /unit.schema.json) plus the
+// cross-reference rules the schema can't express. Every problem is reported with the path of
+// the offending field, e.g. learning_outcomes[1].outcome_tasks[0].type. server.js applies the
+// same rules for POST /api/units/validate; keep the two in step.
+
+export interface UnitSchemaError {
+  // '' for the unit itself
+  path: string;
+  message: string;
+}
+
+export class InvalidUnitError extends Error {
+  constructor(public errors: UnitSchemaError[], message = `The unit has ${errors.length} problem${errors.length === 1 ? '' : 's'}`) {
+    super(message);
+    this.name = 'InvalidUnitError';
+  }
+}
+
+const ajv = new Ajv({ allErrors: true, verbose: true });
+const validateSchema = ajv.compile(unitSchema);
+
+// JSON Pointer (/learning_outcomes/1/id) to the dotted form used in messages (learning_outcomes[1].id)
+const toPath = (pointer: string) =>
+  pointer
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment), '');
+
+const joinPath = (path: string, property: string) => (path ? `${path}.${property}` : property);
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'a string',
+  number: 'a number',
+  integer: 'a whole number',
+  array: 'an array',
+  object: 'an object',
+  boolean: 'true or false'
+};
+
+const describeSchemaError = (error: ErrorObject): UnitSchemaError => {
+  const path = toPath(error.instancePath);
+  switch (error.keyword) {
+    case 'required':
+      return { path: joinPath(path, error.params.missingProperty), message: 'is required' };
+    case 'type':
+      return { path, message: `must be ${TYPE_NAMES[error.params.type] || error.params.type}` };
+    case 'enum':
+      return { path, message: `must be one of: ${error.params.allowedValues.join(', ')}` };
+    case 'minLength':
+      return { path, message: error.params.limit === 1 ? 'must not be empty' : `must be at least ${error.params.limit} characters` };
+    case 'minItems':
+      return { path, message: `must have at least ${error.params.limit} item${error.params.limit === 1 ? '' : 's'}` };
+    case 'anyOf': {
+      // Branches are `required` lists, e.g. either `task` or `unit_tasks`
+      const branches = (error.schema as { required?: string[] }[]).map(branch => (branch.required || []).join(' and '));
+      return { path, message: `must have ${branches.join(' or ')}` };
+    }
+    default:
+      return { path, message: error.message || 'is invalid' };
+  }
+};
+
+export const checkUnitSchema = (data: unknown): UnitSchemaError[] => {
+  if (validateSchema(data)) return [];
+  const errors = validateSchema.errors || [];
+  // An anyOf failure already says what's missing; the failures of its branches would repeat it
+  const anyOfPaths = errors.filter(error => error.keyword === 'anyOf').map(error => `${error.schemaPath}/`);
+  return errors
+    .filter(error => !anyOfPaths.some(prefix => error.schemaPath.startsWith(prefix)))
+    .map(describeSchemaError);
+};
+
+const asArray = (value: unknown): Record<string, unknown>[] =>
+  (Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : []);
+
+const asId = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+// Ids must be unique among learning outcomes, unit tasks, the outcome tasks of one learning
+// outcome and the acceptance criteria of one task. The same outcome task id may appear under
+// several learning outcomes (a distinction task spanning LO1 and LO2 shares one answer).
+// unit_tasks may only refer to learning outcomes and outcome tasks that exist, and an outcome
+// task listed by a unit task must belong to one of the learning outcomes that unit task lists.
+export const checkUnitReferences = (data: unknown): UnitSchemaError[] => {
+  if (!data || typeof data !== 'object') return [];
+  const unit = data as Record<string, unknown>;
+  const errors: UnitSchemaError[] = [];
+
+  const seen = new Map<string, string>();
+  const checkUnique = (scope: string, id: string | null, path: string) => {
+    if (id === null) return;
+    const key = `${scope}\u0000${id}`;
+    const firstPath = seen.get(key);
+    if (firstPath) {
+      errors.push({ path, message: `"${id}" is already used by ${firstPath}` });
+    } else {
+      seen.set(key, path);
+    }
+  };
+
+  const outcomeIds = new Set<string>();
+  const taskOutcomes = new Map<string, string[]>();
+  asArray(unit.learning_outcomes).forEach((outcome, outcomeIndex) => {
+    const outcomePath = `learning_outcomes[${outcomeIndex}]`;
+    const outcomeId = asId(outcome.id);
+    checkUnique('outcome', outcomeId, `${outcomePath}.id`);
+    if (outcomeId) outcomeIds.add(outcomeId);
+
+    asArray(outcome.outcome_tasks).forEach((task, taskIndex) => {
+      const taskPath = `${outcomePath}.outcome_tasks[${taskIndex}]`;
+      const taskId = asId(task.id);
+      checkUnique(`task:${outcomePath}`, taskId, `${taskPath}.id`);
+      if (taskId && outcomeId) taskOutcomes.set(taskId, [...(taskOutcomes.get(taskId) || []), outcomeId]);
+
+      asArray(task.acceptance_criteria).forEach((criterion, criterionIndex) => {
+        checkUnique(`criteria:${taskPath}`, asId(criterion.id), `${taskPath}.acceptance_criteria[${criterionIndex}].id`);
+      });
+    });
+  });
+
+  asArray(unit.unit_tasks).forEach((unitTask, unitTaskIndex) => {
+    const unitTaskPath = `unit_tasks[${unitTaskIndex}]`;
+    checkUnique('unitTask', asId(unitTask.id), `${unitTaskPath}.id`);
+
+    const listedOutcomes = Array.isArray(unitTask.learning_outcomes) ? unitTask.learning_outcomes : [];
+    listedOutcomes.forEach((outcomeId, index) => {
+      if (typeof outcomeId === 'string' && !outcomeIds.has(outcomeId)) {
+        errors.push({ path: `${unitTaskPath}.learning_outcomes[${index}]`, message: `"${outcomeId}" is not the id of any learning outcome` });
+      }
+    });
+
+    const listedTasks = Array.isArray(unitTask.outcome_tasks) ? unitTask.outcome_tasks : [];
+    listedTasks.forEach((taskId, index) => {
+      if (typeof taskId !== 'string') return;
+      const path = `${unitTaskPath}.outcome_tasks[${index}]`;
+      const owners = taskOutcomes.get(taskId);
+      if (!owners) {
+        errors.push({ path, message: `"${taskId}" is not the id of any outcome task` });
+      } else if (!owners.some(outcomeId => listedOutcomes.includes(outcomeId))) {
+        errors.push({ path, message: `"${taskId}" belongs to ${owners.join(' and ')}, which ${unitTaskPath}.learning_outcomes doesn't list` });
+      }
+    });
+  });
+
+  return errors;
+};
+
+export const validateUnitData = (data: unknown): UnitSchemaError[] => [...checkUnitSchema(data), ...checkUnitReferences(data)];
+
+export const formatUnitSchemaError = (error: UnitSchemaError) => `${error.path || 'The unit'} ${error.message}`;
+
+// Returns the data as a Unit, or throws an InvalidUnitError listing every problem
+export const parseUnit = (data: unknown): Unit => {
+  const errors = validateUnitData(data);
+  if (errors.length > 0) throw new InvalidUnitError(errors);
+  return data as Unit;
+};
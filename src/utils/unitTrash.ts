@@ -0,0 +1,62 @@
+import { Progress, Unit, UnitSummary } from '../types/Unit';
+import { storage, STORAGE_KEYS } from './storageBackend';
+
+// Removed units wait in the trash with their progress until they are restored or the
+// retention period runs out. The server keeps its own copy in storage/trash, so units removed
+// from another browser, or before this one's storage was cleared, show up here as well.
+
+export interface TrashedUnit {
+  unit: Unit;
+  summary: UnitSummary;
+  // Null when the unit had no progress yet
+  progress: Progress | null;
+  deletedAt: Date;
+}
+
+export const TRASH_RETENTION_STORAGE_KEY = 'learning-assistant-trash-retention-days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const loadTrashRetentionDays = (): number => {
+  const days = parseInt(localStorage.getItem(TRASH_RETENTION_STORAGE_KEY) || '', 10);
+  if (!days) return DEFAULT_TRASH_RETENTION_DAYS;
+  return Math.min(MAX_TRASH_RETENTION_DAYS, Math.max(MIN_TRASH_RETENTION_DAYS, days));
+};
+
+export const purgeDate = (entry: TrashedUnit, retentionDays = loadTrashRetentionDays()) =>
+  new Date(entry.deletedAt.getTime() + retentionDays * DAY_MS);
+
+// Dates come back from storage and the server as ISO strings
+export const reviveTrashedUnit = (entry: TrashedUnit): TrashedUnit => ({
+  ...entry,
+  summary: {
+    ...entry.summary,
+    lastActivity: entry.summary.lastActivity ? new Date(entry.summary.lastActivity) : undefined,
+    dateAdded: new Date(entry.summary.dateAdded)
+  },
+  progress: entry.progress ?? null,
+  deletedAt: new Date(entry.deletedAt)
+});
+
+export const loadTrash = async (): Promise<TrashedUnit[]> => {
+  const saved = await storage.get<TrashedUnit[]>(STORAGE_KEYS.trash);
+  return (saved || []).map(reviveTrashedUnit);
+};
+
+export const saveTrash = (trash: TrashedUnit[]) => storage.put(STORAGE_KEYS.trash, trash);
+
+// Splits the trash into entries to keep and entries whose retention period has run out
+export const partitionExpired = (trash: TrashedUnit[], now = new Date()) => {
+  const retentionDays = loadTrashRetentionDays();
+  const expired = trash.filter(entry => purgeDate(entry, retentionDays) <= now);
+  return { kept: trash.filter(entry => !expired.includes(entry)), expired };
+};
+
+// Adds the server's trash entries for units this browser's trash doesn't have
+export const mergeTrash = (local: TrashedUnit[], server: TrashedUnit[]) => [
+  ...local,
+  ...server.filter(entry => !local.some(e => e.unit.id === entry.unit.id)).map(reviveTrashedUnit)
+];
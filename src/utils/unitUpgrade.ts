@@ -0,0 +1,278 @@
+import { AcceptanceCriteria, LearningOutcome, Progress, StudentAnswer, TaskItem, Unit } from '../types/Unit';
+import { deriveTaskStatus } from './taskStatus';
+
+// Replacing a unit with a newer version of itself. Answers are stored by task id, so tasks that
+// were renumbered need their answers moved along; diffUnits suggests which old id became which
+// new one, the user confirms that as a TaskMapping and migrateProgress applies it.
+
+export interface RenamedId {
+  from: string;
+  to: string;
+}
+
+export interface CriteriaDiff {
+  added: string[];
+  removed: string[];
+  // Same id, different text
+  changed: string[];
+  // Same text under a different id
+  renamed: RenamedId[];
+}
+
+export interface TaskChange {
+  oldId: string;
+  newId: string;
+  descriptionChanged: boolean;
+  typeChanged: boolean;
+  criteria: CriteriaDiff;
+}
+
+export interface UnitDiff {
+  outcomes: { added: string[]; removed: string[]; renamed: RenamedId[]; changed: string[] };
+  tasks: { added: string[]; removed: string[]; renamed: RenamedId[]; changed: TaskChange[] };
+}
+
+// Old task id -> new task id, or null when its answer should stay behind unlinked
+export type TaskMapping = Record<string, string | null>;
+
+export interface ReReviewTask {
+  oldId: string;
+  newId: string;
+  criteria: CriteriaDiff;
+}
+
+// Descriptions usually repeat their id ("1.2 Explain ...", "AC 1.2 Learners must ..."), which
+// mustn't count as a change when a task is renumbered
+const normalizeText = (text: string, id: string) => {
+  const trimmed = text.trim();
+  const withoutId = id && trimmed.startsWith(id) ? trimmed.slice(id.length) : trimmed;
+  return withoutId.replace(/\(LO\d+\)/gi, '').replace(/\s+/g, ' ').trim().toLowerCase();
+};
+
+const words = (text: string) => new Set(text.split(/\W+/).filter(word => word.length > 2));
+
+const similarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+const RENAME_THRESHOLD = 0.6;
+
+// Pairs removed ids with added ids whose text is the most alike, best matches first
+const matchRenames = <T>(
+  removed: T[],
+  added: T[],
+  getId: (item: T) => string,
+  getText: (item: T) => string
+): RenamedId[] => {
+  const candidates = removed.flatMap(from => added.map(to => ({
+    from: getId(from),
+    to: getId(to),
+    score: similarity(normalizeText(getText(from), getId(from)), normalizeText(getText(to), getId(to)))
+  })));
+  const renamed: RenamedId[] = [];
+  candidates
+    .filter(candidate => candidate.score >= RENAME_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ from, to }) => {
+      if (!renamed.some(pair => pair.from === from || pair.to === to)) renamed.push({ from, to });
+    });
+  return renamed;
+};
+
+// Tasks shared by several learning outcomes (a distinction task spanning LO1 and LO2) are one task
+const collectTasks = (unit: Unit) => {
+  const tasks = new Map<string, TaskItem>();
+  unit.learning_outcomes.forEach(outcome => outcome.outcome_tasks.forEach(task => {
+    if (!tasks.has(task.id)) tasks.set(task.id, task);
+  }));
+  return tasks;
+};
+
+const diffIds = <T>(oldItems: Map<string, T>, newItems: Map<string, T>) => ({
+  removed: [...oldItems.keys()].filter(id => !newItems.has(id)),
+  added: [...newItems.keys()].filter(id => !oldItems.has(id)),
+  kept: [...oldItems.keys()].filter(id => newItems.has(id))
+});
+
+export const diffCriteria = (oldCriteria: AcceptanceCriteria[], newCriteria: AcceptanceCriteria[]): CriteriaDiff => {
+  const oldById = new Map(oldCriteria.map(criterion => [criterion.id, criterion]));
+  const newById = new Map(newCriteria.map(criterion => [criterion.id, criterion]));
+  const { removed, added, kept } = diffIds(oldById, newById);
+  const text = (criterion: AcceptanceCriteria) => normalizeText(criterion.criteria, criterion.id);
+
+  // Only identical text counts as a renamed criterion; anything else is a real change
+  const renamed = matchRenames(
+    removed.map(id => oldById.get(id)!),
+    added.map(id => newById.get(id)!),
+    criterion => criterion.id,
+    criterion => criterion.criteria
+  ).filter(({ from, to }) => text(oldById.get(from)!) === text(newById.get(to)!));
+
+  return {
+    added: added.filter(id => !renamed.some(pair => pair.to === id)),
+    removed: removed.filter(id => !renamed.some(pair => pair.from === id)),
+    changed: kept.filter(id => text(oldById.get(id)!) !== text(newById.get(id)!)),
+    renamed
+  };
+};
+
+export const hasCriteriaChanges = (criteria: CriteriaDiff) =>
+  criteria.added.length > 0 || criteria.removed.length > 0 || criteria.changed.length > 0;
+
+const diffTask = (oldTask: TaskItem, newTask: TaskItem): TaskChange => ({
+  oldId: oldTask.id,
+  newId: newTask.id,
+  descriptionChanged: normalizeText(oldTask.description, oldTask.id) !== normalizeText(newTask.description, newTask.id),
+  typeChanged: oldTask.type !== newTask.type,
+  criteria: diffCriteria(oldTask.acceptance_criteria, newTask.acceptance_criteria)
+});
+
+const isTaskChanged = (change: TaskChange) =>
+  change.descriptionChanged || change.typeChanged || hasCriteriaChanges(change.criteria) || change.criteria.renamed.length > 0;
+
+export const diffUnits = (oldUnit: Unit, newUnit: Unit): UnitDiff => {
+  const oldOutcomes = new Map(oldUnit.learning_outcomes.map(outcome => [outcome.id, outcome]));
+  const newOutcomes = new Map(newUnit.learning_outcomes.map(outcome => [outcome.id, outcome]));
+  const outcomeIds = diffIds(oldOutcomes, newOutcomes);
+  const outcomeText = (outcome: LearningOutcome) => outcome.description;
+  const renamedOutcomes = matchRenames(
+    outcomeIds.removed.map(id => oldOutcomes.get(id)!),
+    outcomeIds.added.map(id => newOutcomes.get(id)!),
+    outcome => outcome.id,
+    outcomeText
+  );
+
+  const oldTasks = collectTasks(oldUnit);
+  const newTasks = collectTasks(newUnit);
+  const taskIds = diffIds(oldTasks, newTasks);
+  const renamedTasks = matchRenames(
+    taskIds.removed.map(id => oldTasks.get(id)!),
+    taskIds.added.map(id => newTasks.get(id)!),
+    task => task.id,
+    task => task.description
+  );
+
+  const changedTasks = [
+    ...taskIds.kept.map(id => diffTask(oldTasks.get(id)!, newTasks.get(id)!)),
+    ...renamedTasks.map(({ from, to }) => diffTask(oldTasks.get(from)!, newTasks.get(to)!))
+  ].filter(isTaskChanged);
+
+  return {
+    outcomes: {
+      added: outcomeIds.added.filter(id => !renamedOutcomes.some(pair => pair.to === id)),
+      removed: outcomeIds.removed.filter(id => !renamedOutcomes.some(pair => pair.from === id)),
+      renamed: renamedOutcomes,
+      changed: outcomeIds.kept.filter(id =>
+        normalizeText(oldOutcomes.get(id)!.description, id) !== normalizeText(newOutcomes.get(id)!.description, id))
+    },
+    tasks: {
+      added: taskIds.added.filter(id => !renamedTasks.some(pair => pair.to === id)),
+      removed: taskIds.removed.filter(id => !renamedTasks.some(pair => pair.from === id)),
+      renamed: renamedTasks,
+      changed: changedTasks
+    }
+  };
+};
+
+export const isUnitDiffEmpty = (diff: UnitDiff) =>
+  [diff.outcomes.added, diff.outcomes.removed, diff.outcomes.renamed, diff.outcomes.changed,
+    diff.tasks.added, diff.tasks.removed, diff.tasks.renamed, diff.tasks.changed].every(list => list.length === 0);
+
+// Tasks keep their id where it still exists; renamed tasks follow the suggested rename
+export const suggestTaskMapping = (oldUnit: Unit, newUnit: Unit, diff: UnitDiff): TaskMapping => {
+  const newTasks = collectTasks(newUnit);
+  const mapping: TaskMapping = {};
+  collectTasks(oldUnit).forEach((_, id) => {
+    mapping[id] = newTasks.has(id) ? id : diff.tasks.renamed.find(pair => pair.from === id)?.to ?? null;
+  });
+  return mapping;
+};
+
+// New task ids that more than one old task is mapped to
+export const findMappingConflicts = (mapping: TaskMapping) => {
+  const targets = Object.values(mapping).filter((id): id is string => id !== null);
+  return [...new Set(targets.filter((id, index) => targets.indexOf(id) !== index))];
+};
+
+// Achieved tasks whose acceptance criteria changed, so the old judgement may no longer hold
+export const findTasksNeedingReReview = (oldUnit: Unit, newUnit: Unit, progress: Progress | null, mapping: TaskMapping): ReReviewTask[] => {
+  if (!progress) return [];
+  const oldTasks = collectTasks(oldUnit);
+  const newTasks = collectTasks(newUnit);
+  return progress.answers.flatMap(answer => {
+    const newId = mapping[answer.taskId];
+    const oldTask = oldTasks.get(answer.taskId);
+    const newTask = newId ? newTasks.get(newId) : undefined;
+    if (!oldTask || !newTask || deriveTaskStatus(answer) !== 'achieved') return [];
+    const criteria = diffCriteria(oldTask.acceptance_criteria, newTask.acceptance_criteria);
+    return hasCriteriaChanges(criteria) ? [{ oldId: oldTask.id, newId: newTask.id, criteria }] : [];
+  });
+};
+
+// Unlinked answers are kept under `unlinked:<old id>`, which no task can have. Keeping the old id
+// would let the stale answer shadow the one moved there, e.g. when 1.2 is removed and 1.3
+// renumbered to 1.2, and would bring it back if a later version reused the id.
+export const UNLINKED_TASK_PREFIX = 'unlinked:';
+
+// New task ids that some answer is moved to
+const findMoveTargets = (progress: Progress, mapping: TaskMapping) =>
+  new Set(progress.answers.map(answer => mapping[answer.taskId]).filter((id): id is string => !!id));
+
+// Answers to old tasks mapped to nothing, plus answers outside the mapping (unlinked by an earlier
+// upgrade) that carry an id another answer is moved to
+const isUnlinked = (answer: StudentAnswer, mapping: TaskMapping, moveTargets: Set<string>) =>
+  mapping[answer.taskId] === null || (mapping[answer.taskId] === undefined && moveTargets.has(answer.taskId));
+
+// Answers that stay in the progress but that no task shows after the upgrade
+export const findUnlinkedAnswers = (progress: Progress | null, mapping: TaskMapping): StudentAnswer[] => {
+  if (!progress) return [];
+  const moveTargets = findMoveTargets(progress, mapping);
+  return progress.answers.filter(answer => isUnlinked(answer, mapping, moveTargets));
+};
+
+// Moves answers (with their versions and status history), completed tasks and the current task
+// to the new task ids. Answers whose task id isn't in the mapping were already unlinked and are
+// left as they are unless an answer is moved onto their id.
+export const migrateProgress = (progress: Progress, mapping: TaskMapping, newUnit: Unit): Progress => {
+  const moveTargets = findMoveTargets(progress, mapping);
+  // Null for tasks whose answer is unlinked; their completion mustn't pass to the task now using the id
+  const mapId = (taskId: string) =>
+    mapping[taskId] === undefined ? (moveTargets.has(taskId) ? null : taskId) : mapping[taskId];
+
+  const takenIds = new Set(progress.answers
+    .filter(answer => !isUnlinked(answer, mapping, moveTargets))
+    .map(answer => mapping[answer.taskId] || answer.taskId));
+  const unlinkedId = (taskId: string) => {
+    let id = `${UNLINKED_TASK_PREFIX}${taskId}`;
+    for (let n = 2; takenIds.has(id); n++) id = `${UNLINKED_TASK_PREFIX}${taskId}-${n}`;
+    takenIds.add(id);
+    return id;
+  };
+
+  const answers = progress.answers.map(answer => {
+    if (isUnlinked(answer, mapping, moveTargets)) return { ...answer, taskId: unlinkedId(answer.taskId) };
+    return mapping[answer.taskId] ? { ...answer, taskId: mapping[answer.taskId]! } : answer;
+  });
+
+  const newTaskIds = collectTasks(newUnit);
+  const completedTasks = [...new Set(progress.completedTasks.map(mapId))].filter((id): id is string => !!id && newTaskIds.has(id));
+
+  const currentTask = mapId(progress.currentTask) ?? '';
+  const currentOutcome = newUnit.learning_outcomes.find(outcome => outcome.id === progress.currentLO && outcome.outcome_tasks.some(task => task.id === currentTask))
+    || newUnit.learning_outcomes.find(outcome => outcome.outcome_tasks.some(task => task.id === currentTask));
+  const fallbackOutcome = newUnit.learning_outcomes[0];
+
+  return {
+    ...progress,
+    answers,
+    completedTasks,
+    currentLO: currentOutcome ? currentOutcome.id : fallbackOutcome?.id ?? '',
+    currentTask: currentOutcome ? currentTask : fallbackOutcome?.outcome_tasks[0]?.id ?? '',
+    lastActivity: new Date()
+  };
+};